@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getUserConfig } from '../../../src/config';
+import { getCategoryDefinitions } from '../../../src/utils';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const config = getUserConfig();
+
+    return NextResponse.json({
+      source: config.source,
+      categories: getCategoryDefinitions(),
+    });
+  } catch (error: any) {
+    console.error('Error loading categories:', error);
+    return NextResponse.json(
+      { error: 'Failed to load categories', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { connectDBCached, env } from '../../../src/config';
+import { CleanupService } from '../../../src/services';
+import { parseWalkOptions, parseDuration } from '../../../src/utils';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes timeout
+
+export async function POST(request: NextRequest) {
+  try {
+    await connectDBCached();
+
+    const body = await request.json().catch(() => ({}));
+    const rawPath = body.path;
+    const dryRun = body.dryRun ?? false;
+    const recursive = body.recursive ?? false;
+    const incomplete = body.incomplete ?? false;
+
+    if (incomplete !== true) {
+      return NextResponse.json(
+        { success: false, error: 'Nothing to clean up', message: 'Set incomplete to true to remove stale partial downloads and empty files' },
+        { status: 400 }
+      );
+    }
+
+    const olderThan = body.olderThan !== undefined ? parseDuration(String(body.olderThan)) : undefined;
+    if (olderThan === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid age', message: 'olderThan must be a duration like 12h, 7d, 2w, 3mo or 1y' },
+        { status: 400 }
+      );
+    }
+
+    // Normalize the path - handle empty strings, trim whitespace, and resolve path
+    const targetPath = rawPath && typeof rawPath === 'string' && rawPath.trim()
+      ? path.normalize(rawPath.trim())
+      : env.defaultDownloadsPath;
+
+    const { options: walkOptions, error: walkError } = parseWalkOptions(body);
+    if (walkError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid filters', message: walkError },
+        { status: 400 }
+      );
+    }
+
+    const cleanup = new CleanupService();
+    const result = await cleanup.cleanup(targetPath, {
+      ...walkOptions,
+      incomplete,
+      olderThan,
+      dryRun,
+      recursive,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: dryRun
+        ? `Dry run complete: ${result.summary.totalFiles} files would be moved to trash`
+        : `Moved ${result.summary.deletedCount} files to trash`,
+      data: result
+    });
+  } catch (error: any) {
+    console.error('Error running cleanup:', error);
+    return NextResponse.json(
+      { success: false, error: 'Cleanup failed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Use POST to move stale files to trash',
+    options: {
+      path: 'string (optional) - Directory to clean up, defaults to Downloads folder',
+      incomplete: 'boolean (required) - Select partial downloads (.crdownload, .part, .partial, .download, .tmp) and empty files',
+      olderThan: 'string (optional) - Only files untouched for at least this long, e.g. "12h", "7d", "2w", defaults to "7d"',
+      dryRun: 'boolean (optional) - Preview without moving files, defaults to false',
+      recursive: 'boolean (optional) - Include subdirectories, defaults to false',
+      include: 'string[] (optional) - Only process files matching these globs',
+      exclude: 'string[] (optional) - Skip files and folders matching these globs, defaults to ["node_modules"]',
+      maxDepth: 'number (optional) - Maximum folder depth to descend into',
+      minSize: 'number | string (optional) - Skip files smaller than this, e.g. 1024 or "10KB"',
+      maxSize: 'number | string (optional) - Skip files larger than this, e.g. "2GB"',
+      includeHidden: 'boolean (optional) - Include hidden files and folders, defaults to false',
+      followSymlinks: 'boolean (optional) - Follow symbolic links with loop detection, defaults to false'
+    }
+  });
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as path from 'path';
 import { connectDBCached, env } from '../../../src/config';
-import { DedupeService } from '../../../src/services';
+import { DedupeService, ScannerService, DedupeStrategy, parseDedupeStrategies } from '../../../src/services';
+import { parseConcurrency, parseWalkOptions, LINK_MODES, LinkMode } from '../../../src/utils';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes timeout
@@ -13,31 +14,121 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}));
     const rawPath = body.path;
     const dryRun = body.dryRun ?? false;
-    const strategy = body.strategy ?? 'keep-latest';
     const moveToTrash = body.moveToTrash ?? true;
+    const paranoid = body.paranoid ?? false;
+    const directories = body.directories ?? false;
+    const link: LinkMode | undefined = body.link || undefined;
+    const concurrency = body.concurrency !== undefined ? parseConcurrency(body.concurrency) : undefined;
     
+    const scanId: unknown = body.scanId;
+    if (scanId !== undefined && (typeof scanId !== 'string' || !scanId.trim())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid scan ID', message: 'scanId must be the ID of a stored scan' },
+        { status: 400 }
+      );
+    }
+
     // Normalize the path - handle empty strings, trim whitespace, and resolve path
-    const targetPath = rawPath && typeof rawPath === 'string' && rawPath.trim() 
-      ? path.normalize(rawPath.trim()) 
-      : env.defaultDownloadsPath;
+    const hasPath = rawPath && typeof rawPath === 'string' && rawPath.trim();
+    let targetPath = hasPath ? path.normalize(rawPath.trim()) : env.defaultDownloadsPath;
+
+    // A stored scan defaults to the folder it covered
+    if (scanId && !hasPath) {
+      const scan = await new ScannerService().getScanById(scanId);
+      if (!scan) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid scan ID', message: `Scan not found: ${scanId}` },
+          { status: 400 }
+        );
+      }
+      targetPath = scan.scannedPath;
+    }
+
+    const { options: walkOptions, error: walkError } = parseWalkOptions(body);
+    if (walkError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid filters', message: walkError },
+        { status: 400 }
+      );
+    }
 
     // Validate strategy
-    const validStrategies = ['keep-latest', 'keep-oldest', 'keep-largest'];
-    if (!validStrategies.includes(strategy)) {
+    let strategy: DedupeStrategy[];
+    try {
+      strategy = parseDedupeStrategies(body.strategy ?? 'keep-latest');
+    } catch (error: any) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid strategy', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    const preferredPaths: unknown = body.preferredPaths;
+    if (preferredPaths !== undefined && (!Array.isArray(preferredPaths) || !preferredPaths.every(p => typeof p === 'string' && path.isAbsolute(p)))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid preferred paths', message: 'preferredPaths must be an array of absolute folder paths' },
+        { status: 400 }
+      );
+    }
+
+    const against: unknown = body.against;
+    if (against !== undefined && (!Array.isArray(against) || !against.every(p => typeof p === 'string' && path.isAbsolute(p)))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid reference paths', message: 'against must be an array of absolute folder paths' },
+        { status: 400 }
+      );
+    }
+
+    if (link !== undefined && !LINK_MODES.includes(link)) {
       return NextResponse.json(
-        { success: false, error: 'Invalid strategy', message: `Strategy must be one of: ${validStrategies.join(', ')}` },
+        { success: false, error: 'Invalid link mode', message: `Link mode must be one of: ${LINK_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const similarDocuments: unknown = body.similarDocuments;
+    if (similarDocuments !== undefined && (typeof similarDocuments !== 'number' || !(similarDocuments > 0 && similarDocuments <= 1))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid document similarity', message: 'similarDocuments must be a number above 0 and at most 1' },
+        { status: 400 }
+      );
+    }
+    if (similarDocuments !== undefined && !dryRun) {
+      // There is no review step here, so versions are only removed by applying the dry run's plan
+      return NextResponse.json(
+        { success: false, error: 'Invalid document similarity', message: 'similarDocuments needs dryRun; apply the resulting plan after reviewing it' },
+        { status: 400 }
+      );
+    }
+
+    if (concurrency === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid concurrency', message: 'Concurrency must be a positive integer' },
         { status: 400 }
       );
     }
 
     const deduper = new DedupeService();
-    const result = await deduper.dedupe(targetPath, { dryRun, strategy, moveToTrash });
+    const result = await deduper.dedupe(targetPath, {
+      ...walkOptions,
+      dryRun,
+      strategy,
+      preferredPaths: preferredPaths as string[] | undefined,
+      against: against as string[] | undefined,
+      scanId: scanId as string | undefined,
+      paranoid,
+      directories,
+      similarDocuments: similarDocuments as number | undefined,
+      moveToTrash,
+      link,
+      concurrency,
+    });
     
     return NextResponse.json({
       success: true,
       message: dryRun 
         ? `Dry run complete: ${result.summary.totalDuplicateFiles} duplicate files found`
-        : `Removed ${result.summary.deletedCount} duplicate files, saved ${formatBytes(result.summary.savedBytes)}`,
+        : `${link ? `Linked ${result.summary.linkedCount}` : `Removed ${result.summary.deletedCount}`} duplicate files, saved ${formatBytes(result.summary.savedBytes)}`,
       data: result
     });
   } catch (error: any) {
@@ -63,8 +154,23 @@ export async function GET() {
     options: {
       path: 'string (optional) - Directory to dedupe, defaults to Downloads folder',
       dryRun: 'boolean (optional) - Preview without deleting, defaults to false',
-      strategy: 'string (optional) - keep-latest, keep-oldest, or keep-largest, defaults to keep-latest',
-      moveToTrash: 'boolean (optional) - Move to trash instead of permanent delete, defaults to true'
+      strategy: 'string | string[] (optional) - Strategy or comma-separated chain, e.g. "keep-preferred-path,keep-oldest"; keep-latest, keep-oldest, keep-largest, keep-preferred-path, keep-shortest-path, keep-shortest-name, keep-cleanest-name or keep-shallowest, defaults to keep-latest',
+      preferredPaths: 'string[] (optional) - Folders for keep-preferred-path, best first, defaults to preferredPaths in deskpilot.config.json',
+      scanId: 'string (optional) - Use the duplicates found by this stored scan instead of hashing again; files changed since the scan are skipped. path defaults to the scanned folder',
+      against: 'string[] (optional) - Reference folders: only files with a copy in one of them are removed, and the folders themselves are never modified',
+      paranoid: 'boolean (optional) - Compare each duplicate byte for byte with the kept copy before removing it, defaults to false',
+      directories: 'boolean (optional) - Also find identical folders and trash each redundant one as a single action, defaults to false',
+      similarDocuments: 'number (optional) - Also group text files at least this similar (0 to 1, e.g. 0.8) as versions of one document and keep the newest; needs dryRun, then apply the plan',
+      moveToTrash: 'boolean (optional) - Move to trash instead of permanent delete, defaults to true',
+      link: 'string (optional) - Replace duplicates with links to the kept copy instead: hardlink, reflink or auto (reflink where supported, else hard link)',
+      concurrency: 'number (optional) - Files hashed in parallel, defaults to HASH_CONCURRENCY',
+      include: 'string[] (optional) - Only process files matching these globs',
+      exclude: 'string[] (optional) - Skip files and folders matching these globs, defaults to ["node_modules"]',
+      maxDepth: 'number (optional) - Maximum folder depth to descend into',
+      minSize: 'number | string (optional) - Skip files smaller than this, e.g. 1024 or "10KB"',
+      maxSize: 'number | string (optional) - Skip files larger than this, e.g. "2GB"',
+      includeHidden: 'boolean (optional) - Include hidden files and folders, defaults to false',
+      followSymlinks: 'boolean (optional) - Follow symbolic links with loop detection, defaults to false'
     }
   });
 }
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { connectDBCached, env } from '../../../../src/config';
+import { InsightsService } from '../../../../src/services';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes timeout
+
+/**
+ * Clusters of text files that are likely versions of the same document, from
+ * a stored scan, for review only. Query: path (defaults to Downloads), scanId
+ * (defaults to the latest scan of the path) and threshold (estimated
+ * similarity from 0 to 1, defaults to 0.8).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectDBCached();
+
+    const params = request.nextUrl.searchParams;
+    const rawPath = params.get('path');
+    const targetPath = rawPath && rawPath.trim()
+      ? path.normalize(rawPath.trim())
+      : env.defaultDownloadsPath;
+
+    const rawThreshold = params.get('threshold');
+    const threshold = rawThreshold !== null ? Number(rawThreshold) : undefined;
+    if (threshold !== undefined && !(threshold > 0 && threshold <= 1)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid threshold', message: 'Threshold must be a number above 0 and at most 1' },
+        { status: 400 }
+      );
+    }
+
+    const insights = new InsightsService();
+    const result = await insights.findSimilarDocuments(targetPath, {
+      scanId: params.get('scanId') || undefined,
+      threshold,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('Error finding similar documents:', error);
+    return NextResponse.json(
+      { success: false, error: 'Similar document search failed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
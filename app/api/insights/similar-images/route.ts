@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { connectDBCached, env } from '../../../../src/config';
+import { InsightsService } from '../../../../src/services';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes timeout
+
+/**
+ * Groups of visually similar images from a stored scan, for review only.
+ * Query: path (defaults to Downloads), scanId (defaults to the latest scan of
+ * the path) and threshold (differing bits out of 64, defaults to 10).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await connectDBCached();
+
+    const params = request.nextUrl.searchParams;
+    const rawPath = params.get('path');
+    const targetPath = rawPath && rawPath.trim()
+      ? path.normalize(rawPath.trim())
+      : env.defaultDownloadsPath;
+
+    const rawThreshold = params.get('threshold');
+    if (rawThreshold !== null && (!/^\d+$/.test(rawThreshold) || parseInt(rawThreshold, 10) > 64)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid threshold', message: 'Threshold must be a whole number of bits from 0 to 64' },
+        { status: 400 }
+      );
+    }
+
+    const insights = new InsightsService();
+    const result = await insights.findSimilarImages(targetPath, {
+      scanId: params.get('scanId') || undefined,
+      threshold: rawThreshold !== null ? parseInt(rawThreshold, 10) : undefined,
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('Error finding similar images:', error);
+    return NextResponse.json(
+      { success: false, error: 'Similar image search failed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
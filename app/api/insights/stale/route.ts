@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { connectDBCached, env } from '../../../../src/config';
+import {
+  InsightsService,
+  CleanupService,
+  StaleFilesOptions,
+  STALE_BASES,
+  STALE_SORT_KEYS,
+  CLEANUP_ACTIONS,
+  CleanupAction,
+} from '../../../../src/services';
+import { parseWalkOptions, parseDuration, getAllCategories } from '../../../../src/utils';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes timeout
+
+type ParsedOptions =
+  | { targetPath: string; options: StaleFilesOptions; error?: undefined }
+  | { error: NextResponse };
+
+function invalid(error: string, message: string): { error: NextResponse } {
+  return { error: NextResponse.json({ success: false, error, message }, { status: 400 }) };
+}
+
+/**
+ * Read the report options shared by GET (query) and POST (body)
+ */
+function parseStaleOptions(input: Record<string, any>): ParsedOptions {
+  const olderThan = input.olderThan !== undefined ? parseDuration(String(input.olderThan)) : undefined;
+  if (olderThan === null) {
+    return invalid('Invalid age', 'olderThan must be a duration like 30d, 6mo or 1y');
+  }
+
+  const basis = input.basis ?? 'modified';
+  if (!STALE_BASES.includes(basis)) {
+    return invalid('Invalid basis', `Basis must be one of: ${STALE_BASES.join(', ')}`);
+  }
+
+  const sortBy = input.sort ?? 'age';
+  if (!STALE_SORT_KEYS.includes(sortBy)) {
+    return invalid('Invalid sort', `Sort must be one of: ${STALE_SORT_KEYS.join(', ')}`);
+  }
+
+  const top = input.top !== undefined ? Number(input.top) : undefined;
+  if (top !== undefined && !(Number.isInteger(top) && top >= 1)) {
+    return invalid('Invalid top', 'Top must be a positive integer');
+  }
+
+  const categories: string[] | undefined = input.category === undefined
+    ? undefined
+    : (Array.isArray(input.category) ? input.category : String(input.category).split(',')).map((c: any) => String(c).trim()).filter(Boolean);
+  const unknown = categories?.filter(category => !getAllCategories().includes(category)) ?? [];
+  if (unknown.length > 0) {
+    return invalid('Invalid category', `Categories must be among: ${getAllCategories().join(', ')}`);
+  }
+
+  const { options: walkOptions, error: walkError } = parseWalkOptions(input);
+  if (walkError) {
+    return invalid('Invalid filters', walkError);
+  }
+
+  // Normalize the path - handle empty strings, trim whitespace, and resolve path
+  const rawPath = input.path;
+  const targetPath = rawPath && typeof rawPath === 'string' && rawPath.trim()
+    ? path.normalize(rawPath.trim())
+    : env.defaultDownloadsPath;
+
+  return {
+    targetPath,
+    options: {
+      ...walkOptions,
+      recursive: input.recursive !== false && input.recursive !== 'false',
+      olderThan,
+      basis,
+      sortBy,
+      categories: categories?.length ? categories : undefined,
+      top,
+    },
+  };
+}
+
+/**
+ * Stale files and the largest files and folders under a path, read from the
+ * file system. Query: path (defaults to Downloads), olderThan (e.g. "90d"),
+ * basis (modified or accessed), sort (age, size or name), category
+ * (repeatable), top, recursive, and the walk filters of POST: include and
+ * exclude (repeatable), maxDepth, minSize, maxSize, includeHidden and
+ * followSymlinks.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const list = (name: string) => (params.getAll(name).length > 0 ? params.getAll(name) : undefined);
+    const flag = (name: string) => (params.has(name) ? params.get(name) === 'true' : undefined);
+    const parsed = parseStaleOptions({
+      path: params.get('path') ?? undefined,
+      olderThan: params.get('olderThan') ?? undefined,
+      basis: params.get('basis') ?? undefined,
+      sort: params.get('sort') ?? undefined,
+      category: list('category'),
+      top: params.get('top') ?? undefined,
+      recursive: params.get('recursive') ?? undefined,
+      include: list('include'),
+      exclude: list('exclude'),
+      maxDepth: params.get('maxDepth') ?? undefined,
+      minSize: params.get('minSize') ?? undefined,
+      maxSize: params.get('maxSize') ?? undefined,
+      includeHidden: flag('includeHidden'),
+      followSymlinks: flag('followSymlinks'),
+    });
+    if (parsed.error) {
+      return parsed.error;
+    }
+
+    const insights = new InsightsService();
+    const result = await insights.findStaleFiles(parsed.targetPath, parsed.options);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('Error finding stale files:', error);
+    return NextResponse.json(
+      { success: false, error: 'Stale file search failed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Find stale files as GET does, then archive or trash them as one transaction.
+ * This is a dry run unless the body has dryRun: false.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await connectDBCached();
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseStaleOptions(body);
+    if (parsed.error) {
+      return parsed.error;
+    }
+
+    const action: CleanupAction = body.action;
+    if (!CLEANUP_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action', message: `Action must be one of: ${CLEANUP_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const archivePath = body.archivePath;
+    if (archivePath !== undefined && (action !== 'archive' || typeof archivePath !== 'string' || !path.isAbsolute(archivePath))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid archive path', message: 'archivePath must be an absolute path and needs action "archive"' },
+        { status: 400 }
+      );
+    }
+
+    const insights = new InsightsService();
+    const report = await insights.findStaleFiles(parsed.targetPath, parsed.options);
+
+    const cleanup = new CleanupService();
+    const result = await cleanup.cleanupFiles(parsed.targetPath, report.staleFiles.map(file => ({
+      path: file.path,
+      size: file.size,
+      modifiedAt: file.modifiedAt,
+      untouchedMs: file.idleMs,
+    })), {
+      action,
+      archivePath,
+      olderThan: report.olderThan,
+      dryRun: body.dryRun !== false,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: result.dryRun
+        ? `Dry run complete: ${result.summary.totalFiles} stale files would be ${action === 'archive' ? 'archived' : 'moved to trash'}`
+        : `${action === 'archive' ? 'Archived' : 'Moved to trash'} ${result.summary.archivedCount + result.summary.deletedCount} stale files`,
+      data: { report, cleanup: result },
+    });
+  } catch (error: any) {
+    console.error('Error cleaning up stale files:', error);
+    return NextResponse.json(
+      { success: false, error: 'Stale file cleanup failed', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as path from 'path';
 import { connectDBCached, env } from '../../../src/config';
-import { OrganizerService } from '../../../src/services';
+import { OrganizerService, ORGANIZE_LAYOUTS, OrganizeLayout } from '../../../src/services';
+import {
+  parseWalkOptions,
+  parseRules,
+  validateRenameTemplate,
+  OrganizeRule,
+  DATE_SOURCES,
+  DateSource,
+  COLLISION_POLICIES,
+  CollisionPolicy,
+} from '../../../src/utils';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes timeout
@@ -14,14 +24,80 @@ export async function POST(request: NextRequest) {
     const rawPath = body.path;
     const dryRun = body.dryRun ?? false;
     const recursive = body.recursive ?? false;
+    const layout: OrganizeLayout = body.layout ?? 'flat';
+    const dateSource: DateSource = body.dateSource ?? 'modified';
+    const collisionPolicy: CollisionPolicy = body.collisionPolicy ?? 'rename';
+    const collapseCopies = body.collapseCopies ?? false;
+
+    if (!ORGANIZE_LAYOUTS.includes(layout)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid layout', message: `Layout must be one of: ${ORGANIZE_LAYOUTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!DATE_SOURCES.includes(dateSource)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date source', message: `Date source must be one of: ${DATE_SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (!COLLISION_POLICIES.includes(collisionPolicy)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid collision policy', message: `Collision policy must be one of: ${COLLISION_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
     
     // Normalize the path - handle empty strings, trim whitespace, and resolve path
     const targetPath = rawPath && typeof rawPath === 'string' && rawPath.trim() 
       ? path.normalize(rawPath.trim()) 
       : env.defaultDownloadsPath;
 
+    const { options: walkOptions, error: walkError } = parseWalkOptions(body);
+    if (walkError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid filters', message: walkError },
+        { status: 400 }
+      );
+    }
+
+    const renameTemplate: string | undefined = body.renameTemplate || undefined;
+    const renameError = renameTemplate !== undefined
+      ? (typeof renameTemplate === 'string' ? validateRenameTemplate(renameTemplate) : 'Rename template must be a string')
+      : null;
+    if (renameError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid rename template', message: renameError },
+        { status: 400 }
+      );
+    }
+
+    let rules: OrganizeRule[] | undefined;
+    if (body.rules !== undefined) {
+      try {
+        rules = parseRules(body.rules, 'request');
+      } catch (error: any) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid rules', message: error.message },
+          { status: 400 }
+        );
+      }
+    }
+
     const organizer = new OrganizerService();
-    const result = await organizer.organize(targetPath, { dryRun, recursive });
+    const result = await organizer.organize(targetPath, {
+      ...walkOptions,
+      dryRun,
+      recursive,
+      rules,
+      layout,
+      dateSource,
+      renameTemplate,
+      collisionPolicy,
+      collapseCopies,
+    });
     
     return NextResponse.json({
       success: true,
@@ -45,7 +121,20 @@ export async function GET() {
     options: {
       path: 'string (optional) - Directory to organize, defaults to Downloads folder',
       dryRun: 'boolean (optional) - Preview changes without moving files, defaults to false',
-      recursive: 'boolean (optional) - Include subdirectories, defaults to false'
+      recursive: 'boolean (optional) - Include subdirectories, defaults to false',
+      layout: 'string (optional) - Folder layout: flat, by-year, by-year-month or by-category-then-date, defaults to flat',
+      dateSource: 'string (optional) - Date for date-based folders: modified, created or filename, defaults to modified',
+      renameTemplate: 'string (optional) - Rename files, e.g. "{date:yyyy-MM-dd}_{slug(name)}{ext}"',
+      collisionPolicy: 'string (optional) - When the target file exists: rename, skip, overwrite, keep-newer or dedupe, defaults to rename',
+      collapseCopies: 'boolean (optional) - Trash byte-identical copies such as "report (1).pdf" and give the copy that stays its clean name, defaults to false',
+      rules: 'object[] (optional) - Ordered organize rules, defaults to the rules in deskpilot.config.json',
+      include: 'string[] (optional) - Only process files matching these globs',
+      exclude: 'string[] (optional) - Skip files and folders matching these globs, defaults to ["node_modules"]',
+      maxDepth: 'number (optional) - Maximum folder depth to descend into',
+      minSize: 'number | string (optional) - Skip files smaller than this, e.g. 1024 or "10KB"',
+      maxSize: 'number | string (optional) - Skip files larger than this, e.g. "2GB"',
+      includeHidden: 'boolean (optional) - Include hidden files and folders, defaults to false',
+      followSymlinks: 'boolean (optional) - Follow symbolic links with loop detection, defaults to false'
     }
   });
 }
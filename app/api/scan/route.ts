@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as path from 'path';
 import { connectDBCached, env } from '../../../src/config';
 import { ScannerService } from '../../../src/services';
+import { parseConcurrency, parseWalkOptions } from '../../../src/utils';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes timeout for long scans
@@ -13,14 +14,31 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}));
     const rawPath = body.path;
     const recursive = body.recursive ?? true;
+    const incremental = body.incremental ?? false;
+    const concurrency = body.concurrency !== undefined ? parseConcurrency(body.concurrency) : undefined;
+
+    if (concurrency === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid concurrency', message: 'Concurrency must be a positive integer' },
+        { status: 400 }
+      );
+    }
     
     // Normalize the path - handle empty strings, trim whitespace, and resolve path
     const targetPath = rawPath && typeof rawPath === 'string' && rawPath.trim() 
       ? path.normalize(rawPath.trim()) 
       : env.defaultDownloadsPath;
 
+    const { options: walkOptions, error: walkError } = parseWalkOptions(body);
+    if (walkError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid filters', message: walkError },
+        { status: 400 }
+      );
+    }
+
     const scanner = new ScannerService();
-    const result = await scanner.scan(targetPath, { recursive });
+    const result = await scanner.scan(targetPath, { ...walkOptions, recursive, incremental, concurrency });
     
     return NextResponse.json({
       success: true,
@@ -41,7 +59,17 @@ export async function GET() {
     message: 'Use POST to run a scan',
     options: {
       path: 'string (optional) - Directory to scan, defaults to Downloads folder',
-      recursive: 'boolean (optional) - Scan subdirectories, defaults to true'
-    }
+      recursive: 'boolean (optional) - Scan subdirectories, defaults to true',
+      incremental: 'boolean (optional) - Reuse hashes from the previous scan of the same path, defaults to false',
+      concurrency: 'number (optional) - Files hashed in parallel, defaults to HASH_CONCURRENCY',
+      include: 'string[] (optional) - Only process files matching these globs',
+      exclude: 'string[] (optional) - Skip files and folders matching these globs, defaults to ["node_modules"]',
+      maxDepth: 'number (optional) - Maximum folder depth to descend into',
+      minSize: 'number | string (optional) - Skip files smaller than this, e.g. 1024 or "10KB"',
+      maxSize: 'number | string (optional) - Skip files larger than this, e.g. "2GB"',
+      includeHidden: 'boolean (optional) - Include hidden files and folders, defaults to false',
+      followSymlinks: 'boolean (optional) - Follow symbolic links with loop detection, defaults to false'
+    },
+    response: 'data holds totals and groups; per-file results are stored as file records under data.scanId, not returned'
   });
 }
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDBCached } from '../../../../../src/config';
+import { Transaction } from '../../../../../src/models';
+import { PlanService } from '../../../../../src/services';
+import { COLLISION_POLICIES, CollisionPolicy } from '../../../../../src/utils';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300; // 5 minutes timeout
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await connectDBCached();
+
+    const transactionId = params.id;
+    const body = await request.json().catch(() => ({}));
+    const collisionPolicy: CollisionPolicy | undefined = body.collisionPolicy;
+
+    if (collisionPolicy !== undefined && !COLLISION_POLICIES.includes(collisionPolicy)) {
+      return NextResponse.json(
+        { error: 'Invalid collision policy', message: `Collision policy must be one of: ${COLLISION_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const transaction = await Transaction.findOne({ transactionId })
+      .select('dryRun status actions.similarity')
+      .lean<{ dryRun: boolean; status: string; actions: Array<{ similarity?: number }> }>();
+    if (!transaction) {
+      return NextResponse.json(
+        { error: 'Transaction not found', message: `Transaction not found: ${transactionId}` },
+        { status: 404 }
+      );
+    }
+    if (!transaction.dryRun || transaction.status !== 'pending') {
+      return NextResponse.json(
+        { error: 'Not a pending dry run', message: `Only pending dry-run transactions can be applied: ${transactionId}` },
+        { status: 409 }
+      );
+    }
+    if (transaction.actions.some(action => action.similarity !== undefined)) {
+      return NextResponse.json(
+        { error: 'Needs review', message: `Dry runs that remove similar documents are applied from a reviewed plan file: ${transactionId}` },
+        { status: 409 }
+      );
+    }
+
+    // Files whose size or hash changed since the dry run are skipped
+    const planService = new PlanService();
+    const result = await planService.applyTransaction(transactionId, { collisionPolicy });
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Error applying transaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply transaction', message: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectDBCached } from '../../../../../src/config';
 import { RollbackService } from '../../../../../src/services';
+import { COLLISION_POLICIES, CollisionPolicy } from '../../../../../src/utils';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,9 +13,19 @@ export async function POST(
     await connectDBCached();
     
     const transactionId = params.id;
+    const body = await request.json().catch(() => ({}));
+    const collisionPolicy: CollisionPolicy | undefined = body.collisionPolicy;
+
+    if (collisionPolicy !== undefined && !COLLISION_POLICIES.includes(collisionPolicy)) {
+      return NextResponse.json(
+        { error: 'Invalid collision policy', message: `Collision policy must be one of: ${COLLISION_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
     const rollbackService = new RollbackService();
     
-    const result = await rollbackService.rollback(transactionId);
+    const result = await rollbackService.rollback(transactionId, { collisionPolicy });
     
     return NextResponse.json(result);
   } catch (error: any) {
@@ -71,6 +71,13 @@ interface Transaction {
   createdAt: string;
 }
 
+interface CategoryDefinition {
+  name: string;
+  extensions: string[];
+  color: string;
+  emoji: string;
+}
+
 interface OperationResult {
   success: boolean;
   message: string;
@@ -86,18 +93,8 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
-function getCategoryEmoji(category: string): string {
-  const emojis: Record<string, string> = {
-    Documents: '📄',
-    Images: '🖼️',
-    Videos: '🎬',
-    Audio: '🎵',
-    Installers: '📦',
-    Archives: '🗜️',
-    Code: '💻',
-    Others: '📁',
-  };
-  return emojis[category] || '📁';
+function getCategoryEmoji(category: string, categories: CategoryDefinition[]): string {
+  return categories.find((c) => c.name === category)?.emoji || '📁';
 }
 
 function getStatusColor(status: string): string {
@@ -121,6 +118,8 @@ function getTypeIcon(type: string): string {
       return '📁';
     case 'dedupe':
       return '🔍';
+    case 'cleanup':
+      return '🧹';
     case 'rollback':
       return '⏪';
     default:
@@ -131,16 +130,18 @@ function getTypeIcon(type: string): string {
 export default function DashboardPage() {
   const [report, setReport] = useState<ReportData | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [applying, setApplying] = useState<string | null>(null);
   
   // Operation states
   const [runningOperation, setRunningOperation] = useState<string | null>(null);
   const [operationResult, setOperationResult] = useState<OperationResult | null>(null);
   const [customPath, setCustomPath] = useState('');
   const [dryRun, setDryRun] = useState(false);
-  const [dedupeStrategy, setDedupeStrategy] = useState<'keep-latest' | 'keep-oldest' | 'keep-largest'>('keep-latest');
+  const [dedupeStrategy, setDedupeStrategy] = useState<string>('keep-latest');
 
   useEffect(() => {
     fetchData();
@@ -151,9 +152,10 @@ export default function DashboardPage() {
       setLoading(true);
       setError(null);
 
-      const [reportRes, transactionsRes] = await Promise.all([
+      const [reportRes, transactionsRes, categoriesRes] = await Promise.all([
         fetch('/api/report'),
         fetch('/api/transactions'),
+        fetch('/api/categories'),
       ]);
 
       if (!reportRes.ok) {
@@ -162,9 +164,11 @@ export default function DashboardPage() {
 
       const reportData = await reportRes.json();
       const transactionsData = await transactionsRes.json();
+      const categoriesData = categoriesRes.ok ? await categoriesRes.json() : null;
 
       setReport(reportData);
       setTransactions(Array.isArray(transactionsData) ? transactionsData : []);
+      setCategories(Array.isArray(categoriesData?.categories) ? categoriesData.categories : []);
     } catch (err: any) {
       setError(err.message || 'Failed to load data');
     } finally {
@@ -284,6 +288,34 @@ export default function DashboardPage() {
     }
   }
 
+  async function handleApply(transactionId: string) {
+    if (!confirm('Apply this dry run? Files that changed since it was made will be skipped.')) {
+      return;
+    }
+
+    try {
+      setApplying(transactionId);
+      const res = await fetch(`/api/transactions/${transactionId}/apply`, {
+        method: 'POST',
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Apply failed');
+      }
+
+      setOperationResult({
+        success: true,
+        message: `Plan applied: ${data.summary.completedCount} completed, ${data.summary.skippedCount} skipped, ${data.summary.failedCount} failed`,
+      });
+      fetchData();
+    } catch (err: any) {
+      setOperationResult({ success: false, message: `Apply failed: ${err.message}`, error: err.message });
+    } finally {
+      setApplying(null);
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-950 flex items-center justify-center">
@@ -385,6 +417,8 @@ export default function DashboardPage() {
                 <option value="keep-latest">Keep Latest</option>
                 <option value="keep-oldest">Keep Oldest</option>
                 <option value="keep-largest">Keep Largest</option>
+                <option value="keep-preferred-path,keep-oldest">Preferred Folder, then Oldest</option>
+                <option value="keep-cleanest-name,keep-shallowest">Cleanest Name, then Shallowest</option>
               </select>
             </div>
           </div>
@@ -526,7 +560,7 @@ export default function DashboardPage() {
               <div className="space-y-3">
                 {report.categoryBreakdown.map((cat) => (
                   <div key={cat.category} className="flex items-center gap-3">
-                    <span className="text-xl">{getCategoryEmoji(cat.category)}</span>
+                    <span className="text-xl">{getCategoryEmoji(cat.category, categories)}</span>
                     <div className="flex-1">
                       <div className="flex justify-between text-sm mb-1">
                         <span className="text-gray-300">{cat.category}</span>
@@ -657,6 +691,15 @@ export default function DashboardPage() {
                             {rollingBack === t.transactionId ? 'Rolling back...' : 'Rollback'}
                           </button>
                         )}
+                        {t.status === 'pending' && t.dryRun && (
+                          <button
+                            onClick={() => handleApply(t.transactionId)}
+                            disabled={applying === t.transactionId}
+                            className="text-xs bg-cyan-900/50 hover:bg-cyan-800/50 text-cyan-300 px-3 py-1 rounded disabled:opacity-50 transition-colors"
+                          >
+                            {applying === t.transactionId ? 'Applying...' : 'Apply'}
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -0,0 +1,132 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import ora from 'ora';
+import * as path from 'path';
+import { connectDB, disconnectDB, env } from '../../src/config';
+import { CleanupService, CleanupResult } from '../../src/services';
+import { formatBytes, formatDuration } from '../../src/utils';
+import { FilterCommandOptions, toWalkOptions, describeFilters } from './filters';
+
+export interface CleanupCommandOptions extends FilterCommandOptions {
+  incomplete?: boolean;
+  olderThan?: number;
+  dryRun?: boolean;
+  recursive?: boolean;
+}
+
+export async function cleanupCommand(targetPath: string | undefined, options: CleanupCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    // Resolve path
+    const resolvedPath = targetPath
+      ? path.resolve(targetPath)
+      : env.defaultDownloadsPath;
+
+    const isDryRun = options.dryRun ?? false;
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  DESKPILOT - Cleanup'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.gray(`  Target: ${resolvedPath}`));
+    console.log(chalk.gray(`  Mode: ${isDryRun ? chalk.yellow('DRY RUN (no changes)') : chalk.green('LIVE')}`));
+    const filters = describeFilters(options);
+    if (filters) {
+      console.log(chalk.gray(`  Filters: ${filters}`));
+    }
+    console.log('');
+
+    let lastProgress = 0;
+    const progressSpinner = ora(isDryRun ? 'Looking for stale files...' : 'Cleaning up...').start();
+
+    const cleanup = new CleanupService((current, total, file) => {
+      const progress = Math.round((current / total) * 100);
+      if (progress !== lastProgress) {
+        progressSpinner.text = `Moving to trash... ${progress}% (${current}/${total}) - ${file}`;
+        lastProgress = progress;
+      }
+    });
+
+    const result = await cleanup.cleanup(resolvedPath, {
+      ...toWalkOptions(options),
+      incomplete: options.incomplete,
+      olderThan: options.olderThan,
+      dryRun: isDryRun,
+      recursive: options.recursive ?? false,
+    });
+
+    progressSpinner.succeed(isDryRun
+      ? `Found ${result.summary.totalFiles} stale files untouched for ${formatDuration(result.olderThan)} or more`
+      : `Moved ${result.summary.deletedCount} files to trash`);
+
+    displayCleanupResults(result, isDryRun);
+
+    if (result.files.length === 0) {
+      console.log('\n' + chalk.green('✓ Nothing to clean up.\n'));
+    } else if (isDryRun) {
+      console.log('\n' + chalk.yellow('⚠ This was a dry run. No files were moved.'));
+      console.log(chalk.cyan('💡 Run without --dry-run to apply changes, or apply this exact plan:'));
+      console.log(chalk.white(`   deskpilot plan apply ${result.transactionId}\n`));
+    } else {
+      console.log('\n' + chalk.green('✓ Cleanup completed successfully!'));
+      console.log(chalk.gray(`  Transaction ID: ${result.transactionId}`));
+      console.log(chalk.cyan('💡 To undo, run: ') + chalk.white(`deskpilot rollback ${result.transactionId}\n`));
+    }
+
+  } catch (error: any) {
+    spinner.fail('Cleanup failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+function displayCleanupResults(result: CleanupResult, isDryRun: boolean): void {
+  if (result.files.length === 0) {
+    return;
+  }
+
+  console.log('\n' + chalk.yellow('▸ Stale Incomplete Files'));
+  console.log(chalk.gray('─'.repeat(40)));
+
+  const fileTable = new Table({
+    head: [chalk.cyan('File'), chalk.cyan('Size'), chalk.cyan('Untouched For'), chalk.cyan('Status')],
+    colWidths: [40, 12, 18, 12],
+  });
+
+  for (const file of result.files.slice(0, 20)) {
+    const relative = path.relative(result.targetPath, file.path) || file.path;
+    const status = file.status === 'completed'
+      ? chalk.green('trashed')
+      : file.status === 'pending' ? chalk.yellow('planned') : chalk.red(file.status);
+    fileTable.push([
+      relative.length > 35 ? relative.substring(0, 32) + '...' : relative,
+      file.size === 0 ? chalk.gray('empty') : formatBytes(file.size),
+      formatDuration(file.untouchedMs),
+      status,
+    ]);
+  }
+
+  console.log(fileTable.toString());
+
+  if (result.files.length > 20) {
+    console.log(chalk.gray(`  ... and ${result.files.length - 20} more files`));
+  }
+
+  const problems = result.files.filter(f => f.error);
+  for (const file of problems.slice(0, 10)) {
+    console.log(chalk.red(`  ✗ ${path.basename(file.path)}: ${file.error}`));
+  }
+
+  const bytes = isDryRun
+    ? result.files.reduce((sum, f) => sum + f.size, 0)
+    : result.summary.savedBytes;
+  console.log(chalk.gray(`\n  Space ${isDryRun ? 'to free' : 'freed'}: ${formatBytes(bytes)}`));
+}
+
+export default cleanupCommand;
@@ -3,39 +3,91 @@ import Table from 'cli-table3';
 import ora from 'ora';
 import * as path from 'path';
 import { connectDB, disconnectDB, env } from '../../src/config';
-import { DedupeService, DedupeStrategy, DedupeResult } from '../../src/services';
-import { formatBytes } from '../../src/utils';
+import { DedupeService, ScannerService, DedupeStrategy, DedupeResult, DuplicateInfo } from '../../src/services';
+import { formatBytes, LinkMode, DEFAULT_TEXT_SIMILARITY } from '../../src/utils';
+import { FilterCommandOptions, toWalkOptions, describeFilters } from './filters';
+import { createPrompt, Prompt } from './prompt';
 
-export interface DedupeCommandOptions {
+export interface DedupeCommandOptions extends FilterCommandOptions {
   dryRun?: boolean;
-  strategy?: DedupeStrategy;
+  strategy?: DedupeStrategy[];
+  prefer?: string[];
+  against?: string[];
+  fromScan?: string;
+  paranoid?: boolean;
+  directories?: boolean;
+  // true when --similar-docs is given without a similarity
+  similarDocs?: number | true;
   permanent?: boolean;
+  // true when --link is given without a mode
+  link?: LinkMode | true;
+  concurrency?: number;
+  interactive?: boolean;
+}
+
+// A choice the user asked to repeat for later groups
+interface ReviewRule {
+  scope: 'extension' | 'folders';
+  // Lowercase extension, or the group's folders joined by newlines
+  key: string;
+  // Folder whose copy to keep, or null to skip
+  keepFolder: string | null;
 }
 
 export async function dedupeCommand(targetPath: string | undefined, options: DedupeCommandOptions): Promise<void> {
   const spinner = ora('Connecting to database...').start();
+  let prompt: Prompt | null = null;
 
   try {
+    prompt = options.interactive ? createPrompt() : null;
+
     // Connect to database
     await connectDB();
     spinner.succeed('Connected to database');
 
-    // Resolve path
-    const resolvedPath = targetPath 
+    // Resolve path; a stored scan defaults to the folder it covered
+    let resolvedPath = targetPath 
       ? path.resolve(targetPath) 
       : env.defaultDownloadsPath;
+    if (options.fromScan && !targetPath) {
+      const scan = await new ScannerService().getScanById(options.fromScan);
+      if (!scan) {
+        throw new Error(`Scan not found: ${options.fromScan}`);
+      }
+      resolvedPath = scan.scannedPath;
+    }
 
     const isDryRun = options.dryRun ?? false;
-    const strategy: DedupeStrategy = options.strategy ?? 'keep-latest';
+    const strategy: DedupeStrategy[] = options.strategy ?? ['keep-latest'];
+    const preferredPaths = options.prefer?.map(dir => path.resolve(dir));
+    const against = options.against?.map(dir => path.resolve(dir));
     const moveToTrash = !(options.permanent ?? false);
+    const link: LinkMode | undefined = options.link === true ? 'auto' : options.link;
+    const similarDocuments = options.similarDocs === true ? DEFAULT_TEXT_SIMILARITY : options.similarDocs;
 
     console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
     console.log(chalk.cyan.bold('  DESKPILOT - Duplicate Finder & Remover'));
     console.log(chalk.cyan.bold('═'.repeat(60)));
     console.log(chalk.gray(`  Target: ${resolvedPath}`));
-    console.log(chalk.gray(`  Strategy: ${strategyDescription(strategy)}`));
+    console.log(chalk.gray(`  Strategy: ${strategy.map(strategyDescription).join(', then ')}`));
+    if (preferredPaths) {
+      console.log(chalk.gray(`  Preferred: ${preferredPaths.join(', ')}`));
+    }
+    if (against) {
+      console.log(chalk.gray(`  Reference: ${against.join(', ')} (never modified)`));
+    }
+    if (options.fromScan) {
+      console.log(chalk.gray(`  From scan: ${options.fromScan}`));
+    }
+    if (similarDocuments !== undefined) {
+      console.log(chalk.gray(`  Versions: text files at least ${Math.round(similarDocuments * 100)}% similar, newest kept`));
+    }
     console.log(chalk.gray(`  Mode: ${isDryRun ? chalk.yellow('DRY RUN (no changes)') : chalk.green('LIVE')}`));
-    console.log(chalk.gray(`  Deletion: ${moveToTrash ? 'Move to trash' : chalk.red('Permanent')}`));
+    console.log(chalk.gray(`  Deletion: ${link ? `Replace with ${link === 'auto' ? 'reflink or hard link' : link}` : moveToTrash ? 'Move to trash' : chalk.red('Permanent')}`));
+    const filters = describeFilters(options);
+    if (filters) {
+      console.log(chalk.gray(`  Filters: ${filters}`));
+    }
     console.log('');
 
     // Create deduper with progress callback
@@ -52,9 +104,19 @@ export async function dedupeCommand(targetPath: string | undefined, options: Ded
 
     // Execute dedupe
     const result = await deduper.dedupe(resolvedPath, {
+      ...toWalkOptions(options),
       dryRun: isDryRun,
       strategy,
+      preferredPaths,
+      against,
+      scanId: options.fromScan,
+      paranoid: options.paranoid,
+      directories: options.directories,
+      similarDocuments,
       moveToTrash,
+      link,
+      concurrency: options.concurrency,
+      review: prompt ? createDedupeReviewer(prompt, resolvedPath, () => progressSpinner.stop()) : undefined,
     });
 
     progressSpinner.succeed(`Found ${result.summary.totalDuplicateFiles} duplicates in ${result.summary.totalDuplicateGroups} groups`);
@@ -66,14 +128,21 @@ export async function dedupeCommand(targetPath: string | undefined, options: Ded
       console.log('\n' + chalk.green('✓ No duplicates found! Your files are unique.'));
     } else if (isDryRun) {
       console.log('\n' + chalk.yellow('⚠ This was a dry run. No files were deleted.'));
-      console.log(chalk.cyan('💡 Run without --dry-run to remove duplicates:'));
-      console.log(chalk.white(`   deskpilot dedupe "${resolvedPath}" --strategy=${strategy}\n`));
+      if (similarDocuments !== undefined) {
+        // Versions are never removed unreviewed: edit the exported plan, then apply it
+        console.log(chalk.cyan('💡 Export the plan, remove any versions you want to keep, then apply it:'));
+        console.log(chalk.white(`   deskpilot plan export ${result.transactionId}`));
+        console.log(chalk.white(`   deskpilot plan apply plan-${result.transactionId.substring(0, 8)}.json\n`));
+      } else {
+        console.log(chalk.cyan('💡 Run without --dry-run to remove duplicates:'));
+        console.log(chalk.white(`   deskpilot dedupe "${resolvedPath}" --strategy=${strategy.join(',')}${preferredPaths ? preferredPaths.map(dir => ` --prefer "${dir}"`).join('') : ''}${against ? against.map(dir => ` --against "${dir}"`).join('') : ''}${options.fromScan ? ` --from-scan ${options.fromScan}` : ''}${options.directories ? ' --directories' : ''}${options.paranoid ? ' --paranoid' : ''}${link ? ` --link ${link}` : ''}\n`));
+      }
     } else {
       console.log('\n' + chalk.green('✓ Deduplication completed successfully!'));
       console.log(chalk.gray(`  Transaction ID: ${result.transactionId}`));
       console.log(chalk.green(`  Space saved: ${formatBytes(result.summary.savedBytes)}`));
-      if (moveToTrash) {
-        console.log(chalk.cyan('💡 To restore, run: ') + chalk.white(`deskpilot rollback ${result.transactionId}\n`));
+      if (moveToTrash || link) {
+        console.log(chalk.cyan(link ? '💡 To turn links back into separate files, run: ' : '💡 To restore, run: ') + chalk.white(`deskpilot rollback ${result.transactionId}\n`));
       }
     }
 
@@ -82,10 +151,85 @@ export async function dedupeCommand(targetPath: string | undefined, options: Ded
     console.error(chalk.red(`\nError: ${error.message}`));
     process.exit(1);
   } finally {
+    prompt?.close();
     await disconnectDB();
   }
 }
 
+/**
+ * Ask which copy to keep for each duplicate group, applying remembered choices
+ * to later groups with the same extension or in the same folders
+ */
+function createDedupeReviewer(
+  prompt: Prompt,
+  rootPath: string,
+  beforeFirstQuestion: () => void
+): (group: DuplicateInfo, index: number, total: number) => Promise<string | null> {
+  const rules: ReviewRule[] = [];
+  let asked = false;
+  let skipRest = false;
+
+  return async (group, index, total) => {
+    if (skipRest) return null;
+
+    // Folder groups share one key, so "e" repeats a choice for every folder group
+    const extension = group.isDirectory ? '/' : path.extname(group.files[0].path).toLowerCase();
+    const folderOf = (filePath: string) => path.dirname(filePath);
+    const folders = [...new Set(group.files.map(f => folderOf(f.path)))].sort().join('\n');
+
+    for (const rule of rules) {
+      if (rule.key !== (rule.scope === 'extension' ? extension : folders)) continue;
+      if (rule.keepFolder === null) return null;
+      const match = group.files.find(f => folderOf(f.path) === rule.keepFolder);
+      if (match) return match.path;
+    }
+
+    if (!asked) {
+      beforeFirstQuestion();
+      asked = true;
+    }
+
+    const description = group.similarity !== undefined
+      ? `${group.files.length} versions · ${Math.round(group.similarity * 100)}% similar`
+      : `${group.files.length} copies of ${formatBytes(group.files[0].size)}`;
+    console.log('\n' + chalk.cyan(`  Group ${index + 1} of ${total} · ${group.isDirectory ? 'folder' : extension || 'no extension'} · ${description}`));
+    group.files.forEach((file, i) => {
+      const suggested = file.isKept ? chalk.green(file.isReference ? '  (reference)' : '  (suggested)') : '';
+      const date = file.modifiedAt.toLocaleDateString();
+      console.log(`    ${chalk.white(`${i + 1})`)} ${path.relative(rootPath, file.path) || file.path} ${chalk.gray(`(${date})`)}${suggested}`);
+    });
+
+    const question = chalk.yellow(`  Keep [1-${group.files.length}, Enter = suggested], s = skip group, q = skip all remaining.\n`)
+      + chalk.gray('  Add e or f to repeat for the same extension or folders (e.g. 2e, sf): ');
+
+    while (true) {
+      const answer = (await prompt.ask(question)) || '1';
+
+      if (answer === 'q') {
+        skipRest = true;
+        return null;
+      }
+
+      const match = answer.match(/^(\d+|s)([ef])?$/);
+      const choice = match?.[1] === 's' ? null : Number(match?.[1]);
+      if (!match || (choice !== null && (choice < 1 || choice > group.files.length))) {
+        console.log(chalk.red('  Invalid choice.'));
+        continue;
+      }
+
+      const kept = choice === null ? null : group.files[choice - 1];
+      if (match[2]) {
+        rules.push({
+          scope: match[2] === 'e' ? 'extension' : 'folders',
+          key: match[2] === 'e' ? extension : folders,
+          keepFolder: kept ? folderOf(kept.path) : null,
+        });
+      }
+      return kept ? kept.path : null;
+    }
+  };
+}
+
 function strategyDescription(strategy: DedupeStrategy): string {
   switch (strategy) {
     case 'keep-latest':
@@ -94,6 +238,16 @@ function strategyDescription(strategy: DedupeStrategy): string {
       return 'Keep oldest (original)';
     case 'keep-largest':
       return 'Keep largest file';
+    case 'keep-preferred-path':
+      return 'Keep copy in preferred folder';
+    case 'keep-shortest-path':
+      return 'Keep shortest path';
+    case 'keep-shortest-name':
+      return 'Keep shortest file name';
+    case 'keep-cleanest-name':
+      return 'Keep name without copy suffix';
+    case 'keep-shallowest':
+      return 'Keep fewest folder levels';
     default:
       return strategy;
   }
@@ -115,11 +269,39 @@ function displayDedupeResults(result: DedupeResult, isDryRun: boolean): void {
     [chalk.white('Space to Save'), chalk.green(formatBytes(result.summary.savedBytes))],
   );
 
+  if (result.summary.skippedGroups > 0) {
+    summaryTable.push([chalk.white('Skipped Groups'), chalk.yellow(result.summary.skippedGroups.toString())]);
+  }
+
+  if (result.referenceStats) {
+    summaryTable.push([
+      chalk.white('Reference Files'),
+      chalk.cyan(`${result.referenceStats.filesCompared} compared (${result.referenceStats.hashesReused} hashes from earlier scans)`),
+    ]);
+  }
+
+  if (result.staleFiles) {
+    // Changed since the scan, so not trusted as duplicates
+    summaryTable.push([chalk.white('Changed Since Scan'), chalk.yellow(`${result.staleFiles} (skipped)`)]);
+  }
+
+  if (result.hardLinkGroups.length > 0) {
+    // Hard links share storage, so they are reported but never removed
+    const linkedPaths = result.hardLinkGroups.reduce((sum, g) => sum + g.files.length, 0);
+    summaryTable.push([chalk.white('Hard-Linked Paths'), chalk.cyan(`${linkedPaths} (skipped)`)]);
+  }
+
   if (!isDryRun) {
     summaryTable.push(
-      [chalk.white('Files Deleted'), chalk.green(result.summary.deletedCount.toString())],
+      result.link
+        ? [chalk.white('Files Linked'), chalk.green(result.summary.linkedCount.toString())]
+        : [chalk.white('Files Deleted'), chalk.green(result.summary.deletedCount.toString())],
       [chalk.white('Failed'), result.summary.failedCount > 0 ? chalk.red(result.summary.failedCount.toString()) : chalk.gray('0')],
     );
+    if (result.summary.driftedGroups > 0) {
+      // Copies changed between hashing and removal, so the whole group was left alone
+      summaryTable.push([chalk.white('Changed Before Removal'), chalk.red(`${result.summary.driftedGroups} groups (untouched)`)]);
+    }
   }
 
   console.log(summaryTable.toString());
@@ -138,17 +320,23 @@ function displayDedupeResults(result: DedupeResult, isDryRun: boolean): void {
       const group = topGroups[i];
       const keptFile = group.files.find(f => f.isKept);
       
-      console.log(chalk.cyan(`\n  Group ${i + 1} (${formatBytes(group.wastedSize)} wasted):`));
+      const kind = group.isDirectory ? ' · folders' : group.similarity !== undefined ? ` · versions, ${Math.round(group.similarity * 100)}% similar` : '';
+      console.log(chalk.cyan(`\n  Group ${i + 1}${kind} (${group.skipped ? 'skipped' : `${formatBytes(group.wastedSize)} wasted`}):`));
       
       for (const file of group.files) {
         const fileName = path.basename(file.path);
         const displayName = fileName.length > 45 ? fileName.substring(0, 42) + '...' : fileName;
         const date = file.modifiedAt.toLocaleDateString();
         
-        if (file.isKept) {
-          console.log(chalk.green(`    ✓ ${displayName} (${formatBytes(file.size)}, ${date}) - KEEP`));
+        if (group.skipped) {
+          console.log(chalk.gray(`    - ${displayName} (${formatBytes(file.size)}, ${date}) - SKIPPED`));
+        } else if (file.isKept) {
+          console.log(chalk.green(`    ✓ ${displayName} (${formatBytes(file.size)}, ${date}) - ${file.isReference ? 'REFERENCE' : 'KEEP'}`));
         } else {
-          console.log(chalk.red(`    ✗ ${displayName} (${formatBytes(file.size)}, ${date}) - ${isDryRun ? 'WILL DELETE' : 'DELETED'}`));
+          const outcome = result.link
+            ? (isDryRun ? 'WILL LINK' : 'LINKED')
+            : (isDryRun ? 'WILL DELETE' : 'DELETED');
+          console.log(chalk.red(`    ✗ ${displayName} (${formatBytes(file.size)}, ${date}) - ${outcome}`));
         }
       }
     }
@@ -0,0 +1,41 @@
+import { WalkOptions, formatBytes } from '../../src/utils';
+
+export interface FilterCommandOptions {
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  minSize?: number;
+  maxSize?: number;
+  hidden?: boolean;
+  followSymlinks?: boolean;
+}
+
+/**
+ * Convert the shared CLI filter flags to walk options for the services
+ */
+export function toWalkOptions(options: FilterCommandOptions): WalkOptions {
+  return {
+    include: options.include,
+    exclude: options.exclude,
+    maxDepth: options.maxDepth,
+    minSize: options.minSize,
+    maxSize: options.maxSize,
+    includeHidden: options.hidden ?? false,
+    followSymlinks: options.followSymlinks ?? false,
+  };
+}
+
+/**
+ * Describe active filters for the command header, or null when there are none
+ */
+export function describeFilters(options: FilterCommandOptions): string | null {
+  const parts: string[] = [];
+  if (options.include?.length) parts.push(`include ${options.include.join(', ')}`);
+  if (options.exclude?.length) parts.push(`exclude ${options.exclude.join(', ')}`);
+  if (options.maxDepth !== undefined) parts.push(`max depth ${options.maxDepth}`);
+  if (options.minSize !== undefined) parts.push(`min ${formatBytes(options.minSize)}`);
+  if (options.maxSize !== undefined) parts.push(`max ${formatBytes(options.maxSize)}`);
+  if (options.hidden) parts.push('hidden files');
+  if (options.followSymlinks) parts.push('following symlinks');
+  return parts.length > 0 ? parts.join('; ') : null;
+}
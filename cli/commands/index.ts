@@ -5,4 +5,13 @@ export type { OrganizeCommandOptions } from './organize';
 export { dedupeCommand } from './dedupe';
 export type { DedupeCommandOptions } from './dedupe';
 export { rollbackCommand, listRollbackableCommand } from './rollback';
+export type { RollbackCommandOptions } from './rollback';
+export { cleanupCommand } from './cleanup';
+export type { CleanupCommandOptions } from './cleanup';
 export { reportCommand } from './report';
+export { similarImagesCommand, similarDocsCommand, staleCommand } from './insights';
+export type { SimilarImagesCommandOptions, SimilarDocsCommandOptions, StaleCommandOptions } from './insights';
+export { planExportCommand, planApplyCommand } from './plan';
+export type { PlanExportCommandOptions, PlanApplyCommandOptions } from './plan';
+export { toWalkOptions, describeFilters } from './filters';
+export type { FilterCommandOptions } from './filters';
@@ -0,0 +1,404 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import ora from 'ora';
+import * as path from 'path';
+import { connectDB, disconnectDB, env } from '../../src/config';
+import {
+  InsightsService,
+  CleanupService,
+  SimilarImagesResult,
+  SimilarDocumentsResult,
+  StaleFilesResult,
+  StaleSortKey,
+  CleanupAction,
+  CleanupResult,
+} from '../../src/services';
+import { formatBytes, formatDuration, getCategoryEmoji } from '../../src/utils';
+import { FilterCommandOptions, toWalkOptions, describeFilters } from './filters';
+
+export interface SimilarImagesCommandOptions {
+  scan?: string;
+  threshold?: number;
+}
+
+export async function similarImagesCommand(targetPath: string | undefined, options: SimilarImagesCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    // Resolve path
+    const resolvedPath = targetPath
+      ? path.resolve(targetPath)
+      : env.defaultDownloadsPath;
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  DESKPILOT - Similar Images'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.gray(`  Target: ${resolvedPath}`));
+    console.log('');
+
+    let lastProgress = 0;
+    const progressSpinner = ora('Comparing images...').start();
+
+    const insights = new InsightsService((current, total, file) => {
+      const progress = Math.round((current / total) * 100);
+      if (progress !== lastProgress) {
+        progressSpinner.text = `Hashing images... ${progress}% (${current}/${total}) - ${file}`;
+        lastProgress = progress;
+      }
+    });
+
+    const result = await insights.findSimilarImages(resolvedPath, {
+      scanId: options.scan,
+      threshold: options.threshold,
+    });
+
+    progressSpinner.succeed(`Compared ${result.imagesCompared} images from scan ${result.scanId}`);
+
+    displaySimilarImages(result);
+
+  } catch (error: any) {
+    spinner.fail('Similar image search failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+function displaySimilarImages(result: SimilarImagesResult): void {
+  if (result.hashesComputed > 0) {
+    console.log(chalk.gray(`  ${result.hashesComputed} images hashed and saved to the scan`));
+  }
+
+  const unsupported = Object.entries(result.unsupportedImages);
+  if (unsupported.length > 0) {
+    const counts = unsupported.map(([type, count]) => `${count} ${type.toUpperCase()}`).join(', ');
+    console.log(chalk.yellow(`  Skipped ${counts} images: only JPEG and PNG can be compared`));
+  }
+
+  if (result.groups.length === 0) {
+    console.log('\n' + chalk.green(`✓ No similar images found within ${result.threshold} bits.`));
+    return;
+  }
+
+  console.log('\n' + chalk.yellow(`▸ Similar Images (${result.groups.length} groups, threshold ${result.threshold} bits)`));
+  console.log(chalk.gray('─'.repeat(40)));
+
+  for (let i = 0; i < Math.min(result.groups.length, 20); i++) {
+    const group = result.groups[i];
+    console.log(chalk.cyan(`\n  Group ${i + 1} (${group.files.length} images, up to ${group.maxDistance} bits apart):`));
+
+    group.files.forEach((file, j) => {
+      const relative = path.relative(result.scannedPath, file.path) || file.path;
+      const distance = j === 0 ? chalk.gray('largest') : chalk.yellow(`${file.distance} bits from largest`);
+      console.log(`    • ${relative} ${chalk.gray(`(${formatBytes(file.size)})`)} - ${distance}`);
+    });
+  }
+
+  if (result.groups.length > 20) {
+    console.log(chalk.gray(`\n  ... and ${result.groups.length - 20} more groups`));
+  }
+
+  // Similar is not identical: these are never removed automatically
+  console.log('\n' + chalk.gray('  Similar images may differ in resolution or quality and are never removed automatically.'));
+  console.log(chalk.gray('  Review each group and delete the versions you do not need.\n'));
+}
+
+export interface SimilarDocsCommandOptions {
+  scan?: string;
+  threshold?: number;
+  concurrency?: number;
+}
+
+export async function similarDocsCommand(targetPath: string | undefined, options: SimilarDocsCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    // Resolve path
+    const resolvedPath = targetPath
+      ? path.resolve(targetPath)
+      : env.defaultDownloadsPath;
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  DESKPILOT - Similar Documents'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.gray(`  Target: ${resolvedPath}`));
+    console.log('');
+
+    let lastProgress = 0;
+    const progressSpinner = ora('Comparing documents...').start();
+
+    const insights = new InsightsService((current, total, file) => {
+      const progress = Math.round((current / total) * 100);
+      if (progress !== lastProgress) {
+        progressSpinner.text = `Fingerprinting documents... ${progress}% (${current}/${total}) - ${file}`;
+        lastProgress = progress;
+      }
+    });
+
+    const result = await insights.findSimilarDocuments(resolvedPath, {
+      scanId: options.scan,
+      threshold: options.threshold,
+      concurrency: options.concurrency,
+    });
+
+    progressSpinner.succeed(`Compared ${result.documentsCompared} documents from scan ${result.scanId}`);
+
+    displaySimilarDocuments(result);
+
+  } catch (error: any) {
+    spinner.fail('Similar document search failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+function displaySimilarDocuments(result: SimilarDocumentsResult): void {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (result.signaturesComputed > 0) {
+    console.log(chalk.gray(`  ${result.signaturesComputed} documents fingerprinted and saved to the scan`));
+  }
+
+  if (result.clusters.length === 0) {
+    console.log('\n' + chalk.green(`✓ No likely versions of the same document found at ${percent(result.threshold)} similarity.`));
+    return;
+  }
+
+  console.log('\n' + chalk.yellow(`▸ Likely Versions of the Same Document (${result.clusters.length} clusters, threshold ${percent(result.threshold)})`));
+  console.log(chalk.gray('─'.repeat(40)));
+
+  for (let i = 0; i < Math.min(result.clusters.length, 20); i++) {
+    const cluster = result.clusters[i];
+    console.log(chalk.cyan(`\n  Cluster ${i + 1} (${cluster.files.length} versions, at least ${percent(cluster.similarity)} similar):`));
+
+    cluster.files.forEach((file, j) => {
+      const relative = path.relative(result.scannedPath, file.path) || file.path;
+      const similarity = j === 0 ? chalk.green('newest') : chalk.yellow(`${percent(file.similarity)} similar to newest`);
+      console.log(`    • ${relative} ${chalk.gray(`(${formatBytes(file.size)}, ${file.modifiedAt.toLocaleDateString()})`)} - ${similarity}`);
+    });
+  }
+
+  if (result.clusters.length > 20) {
+    console.log(chalk.gray(`\n  ... and ${result.clusters.length - 20} more clusters`));
+  }
+
+  console.log('\n' + chalk.gray('  To keep the newest version of each cluster, run dedupe with --similar-docs and review the plan.\n'));
+}
+
+export interface StaleCommandOptions extends FilterCommandOptions {
+  olderThan?: number;
+  accessed?: boolean;
+  sort?: StaleSortKey;
+  category?: string[];
+  top?: number;
+  recursive?: boolean;
+  action?: CleanupAction;
+  archiveTo?: string;
+  dryRun?: boolean;
+}
+
+export async function staleCommand(targetPath: string | undefined, options: StaleCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    if (options.archiveTo && options.action !== 'archive') {
+      throw new Error('--archive-to needs --action archive');
+    }
+
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    // Resolve path
+    const resolvedPath = targetPath
+      ? path.resolve(targetPath)
+      : env.defaultDownloadsPath;
+
+    const isDryRun = options.dryRun ?? false;
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  DESKPILOT - Stale and Large Files'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.gray(`  Target: ${resolvedPath}`));
+    if (options.action) {
+      console.log(chalk.gray(`  Action: ${options.action} (${isDryRun ? chalk.yellow('DRY RUN (no changes)') : chalk.green('LIVE')})`));
+    }
+    const filters = describeFilters(options);
+    if (filters) {
+      console.log(chalk.gray(`  Filters: ${filters}`));
+    }
+    console.log('');
+
+    const progressSpinner = ora('Checking files...').start();
+
+    const insights = new InsightsService((current, _total, file) => {
+      if (current % 100 === 0) {
+        progressSpinner.text = `Checking files... ${current} found - ${file}`;
+      }
+    });
+
+    const result = await insights.findStaleFiles(resolvedPath, {
+      ...toWalkOptions(options),
+      recursive: options.recursive ?? true,
+      olderThan: options.olderThan,
+      basis: options.accessed ? 'accessed' : 'modified',
+      sortBy: options.sort,
+      categories: options.category,
+      top: options.top,
+    });
+
+    progressSpinner.succeed(`Checked ${result.filesChecked} files: ${result.staleFiles.length} unused for ${formatDuration(result.olderThan)} or more`);
+
+    displayStaleFiles(result);
+
+    if (options.action && result.staleFiles.length > 0) {
+      const actionSpinner = ora(options.action === 'archive' ? 'Archiving stale files...' : 'Moving stale files to trash...').start();
+
+      const cleanup = new CleanupService((current, total, file) => {
+        actionSpinner.text = `${options.action === 'archive' ? 'Archiving' : 'Moving to trash'}... (${current}/${total}) - ${file}`;
+      });
+
+      const cleanupResult = await cleanup.cleanupFiles(resolvedPath, result.staleFiles.map(file => ({
+        path: file.path,
+        size: file.size,
+        modifiedAt: file.modifiedAt,
+        untouchedMs: file.idleMs,
+      })), {
+        action: options.action,
+        archivePath: options.archiveTo ? path.resolve(options.archiveTo) : undefined,
+        olderThan: result.olderThan,
+        dryRun: isDryRun,
+      });
+
+      actionSpinner.succeed(isDryRun
+        ? `Planned ${options.action} of ${cleanupResult.summary.totalFiles} files`
+        : `${options.action === 'archive' ? 'Archived' : 'Trashed'} ${cleanupResult.summary.archivedCount + cleanupResult.summary.deletedCount} files`);
+
+      displayStaleAction(cleanupResult);
+    }
+
+  } catch (error: any) {
+    spinner.fail('Stale file search failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+function displayStaleFiles(result: StaleFilesResult): void {
+  const shorten = (filePath: string) => {
+    const relative = path.relative(result.targetPath, filePath) || filePath;
+    return relative.length > 35 ? '...' + relative.substring(relative.length - 32) : relative;
+  };
+  const usage = result.basis === 'accessed' ? 'Unused For' : 'Unchanged For';
+
+  if (result.staleFiles.length === 0) {
+    console.log('\n' + chalk.green(`✓ No files ${result.basis === 'accessed' ? 'unused' : 'unchanged'} for ${formatDuration(result.olderThan)} or more.`));
+  } else {
+    console.log('\n' + chalk.yellow(`▸ Stale Files (${result.staleFiles.length} files, ${formatBytes(result.staleBytes)})`));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const staleTable = new Table({
+      head: [chalk.cyan('File'), chalk.cyan('Category'), chalk.cyan('Size'), chalk.cyan(usage)],
+      colWidths: [40, 18, 12, 18],
+    });
+
+    for (const file of result.staleFiles.slice(0, 20)) {
+      staleTable.push([
+        shorten(file.path),
+        `${getCategoryEmoji(file.category)} ${file.category}`,
+        formatBytes(file.size),
+        formatDuration(file.idleMs),
+      ]);
+    }
+
+    console.log(staleTable.toString());
+
+    if (result.staleFiles.length > 20) {
+      console.log(chalk.gray(`  ... and ${result.staleFiles.length - 20} more stale files`));
+    }
+  }
+
+  if (result.largestFiles.length > 0) {
+    console.log('\n' + chalk.yellow(`▸ Largest Files (top ${result.largestFiles.length})`));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const fileTable = new Table({
+      head: [chalk.cyan('File'), chalk.cyan('Category'), chalk.cyan('Size'), chalk.cyan(usage)],
+      colWidths: [40, 18, 12, 18],
+    });
+
+    for (const file of result.largestFiles) {
+      fileTable.push([
+        shorten(file.path),
+        `${getCategoryEmoji(file.category)} ${file.category}`,
+        formatBytes(file.size),
+        formatDuration(file.idleMs),
+      ]);
+    }
+
+    console.log(fileTable.toString());
+  }
+
+  if (result.largestFolders.length > 0) {
+    console.log('\n' + chalk.yellow(`▸ Largest Folders (top ${result.largestFolders.length})`));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const folderTable = new Table({
+      head: [chalk.cyan('Folder'), chalk.cyan('Files'), chalk.cyan('Size')],
+      colWidths: [40, 10, 12],
+    });
+
+    for (const folder of result.largestFolders) {
+      folderTable.push([shorten(folder.path), folder.fileCount.toString(), formatBytes(folder.size)]);
+    }
+
+    console.log(folderTable.toString());
+  }
+
+  if (result.staleFiles.length > 0) {
+    console.log('\n' + chalk.cyan('💡 Tip: Add ') + chalk.white('--action archive') + chalk.cyan(' or ') + chalk.white('--action trash') + chalk.cyan(' (with --dry-run to preview) to clear stale files\n'));
+  }
+}
+
+function displayStaleAction(result: CleanupResult): void {
+  const problems = result.files.filter(f => f.error);
+  for (const file of problems.slice(0, 10)) {
+    console.log(chalk.red(`  ✗ ${path.basename(file.path)}: ${file.error}`));
+  }
+
+  if (result.dryRun) {
+    console.log('\n' + chalk.yellow('⚠ This was a dry run. No files were moved.'));
+    if (result.archivePath) {
+      console.log(chalk.gray(`  Files would be archived to ${result.archivePath}`));
+    }
+    console.log(chalk.cyan('💡 Review and apply this exact plan with:'));
+    console.log(chalk.white(`   deskpilot plan export ${result.transactionId}`));
+    console.log(chalk.white(`   deskpilot plan apply ${result.transactionId}\n`));
+  } else {
+    if (result.archivePath) {
+      console.log(chalk.gray(`\n  Archived to ${result.archivePath}`));
+    } else {
+      console.log(chalk.gray(`\n  Space freed: ${formatBytes(result.summary.savedBytes)}`));
+    }
+    if (result.summary.skippedCount > 0) {
+      console.log(chalk.yellow(`  ${result.summary.skippedCount} files changed since they were checked and were left in place`));
+    }
+    console.log(chalk.gray(`  Transaction ID: ${result.transactionId}`));
+    console.log(chalk.cyan('💡 To undo, run: ') + chalk.white(`deskpilot rollback ${result.transactionId}\n`));
+  }
+}
+
+export default similarImagesCommand;
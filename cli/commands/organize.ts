@@ -3,18 +3,29 @@ import Table from 'cli-table3';
 import ora from 'ora';
 import * as path from 'path';
 import { connectDB, disconnectDB, env } from '../../src/config';
-import { OrganizerService, OrganizeResult } from '../../src/services';
-import { formatBytes, getCategoryEmoji } from '../../src/utils';
+import { OrganizerService, OrganizeResult, OrganizeLayout, OrganizePlan } from '../../src/services';
+import { formatBytes, getCategoryEmoji, DateSource, CollisionPolicy } from '../../src/utils';
+import { FilterCommandOptions, toWalkOptions, describeFilters } from './filters';
+import { createPrompt, Prompt } from './prompt';
 
-export interface OrganizeCommandOptions {
+export interface OrganizeCommandOptions extends FilterCommandOptions {
   dryRun?: boolean;
   recursive?: boolean;
+  layout?: OrganizeLayout;
+  dateSource?: DateSource;
+  rename?: string;
+  onCollision?: CollisionPolicy;
+  collapseCopies?: boolean;
+  interactive?: boolean;
 }
 
 export async function organizeCommand(targetPath: string | undefined, options: OrganizeCommandOptions): Promise<void> {
   const spinner = ora('Connecting to database...').start();
+  let prompt: Prompt | null = null;
 
   try {
+    prompt = options.interactive ? createPrompt() : null;
+
     // Connect to database
     await connectDB();
     spinner.succeed('Connected to database');
@@ -31,6 +42,13 @@ export async function organizeCommand(targetPath: string | undefined, options: O
     console.log(chalk.cyan.bold('═'.repeat(60)));
     console.log(chalk.gray(`  Target: ${resolvedPath}`));
     console.log(chalk.gray(`  Mode: ${isDryRun ? chalk.yellow('DRY RUN (no changes)') : chalk.green('LIVE')}`));
+    if (options.layout && options.layout !== 'flat') {
+      console.log(chalk.gray(`  Layout: ${options.layout} (dates from ${options.dateSource ?? 'modified'})`));
+    }
+    const filters = describeFilters(options);
+    if (filters) {
+      console.log(chalk.gray(`  Filters: ${filters}`));
+    }
     console.log('');
 
     // Create organizer with progress callback
@@ -47,10 +65,19 @@ export async function organizeCommand(targetPath: string | undefined, options: O
       }
     });
 
+    const reviewer = prompt ? createOrganizeReviewer(prompt, resolvedPath, () => progressSpinner.stop()) : null;
+
     // Execute organize
     const result = await organizer.organize(resolvedPath, {
+      ...toWalkOptions(options),
       dryRun: isDryRun,
       recursive: options.recursive ?? false,
+      layout: options.layout,
+      dateSource: options.dateSource,
+      renameTemplate: options.rename,
+      collisionPolicy: options.onCollision,
+      collapseCopies: options.collapseCopies,
+      review: reviewer?.review,
     });
 
     progressSpinner.succeed(isDryRun 
@@ -60,10 +87,14 @@ export async function organizeCommand(targetPath: string | undefined, options: O
     // Display results
     displayOrganizeResults(result, isDryRun);
 
+    if (reviewer && reviewer.declined() > 0) {
+      console.log(chalk.gray(`\n  ${reviewer.declined()} files left in place after review`));
+    }
+
     if (isDryRun) {
       console.log('\n' + chalk.yellow('⚠ This was a dry run. No files were moved.'));
       console.log(chalk.cyan('💡 Run without --dry-run to apply changes:'));
-      console.log(chalk.white(`   deskpilot organize "${resolvedPath}"\n`));
+      console.log(chalk.white(`   deskpilot organize "${resolvedPath}"${options.collapseCopies ? ' --collapse-copies' : ''}\n`));
     } else {
       console.log('\n' + chalk.green('✓ Organization completed successfully!'));
       console.log(chalk.gray(`  Transaction ID: ${result.transactionId}`));
@@ -75,10 +106,55 @@ export async function organizeCommand(targetPath: string | undefined, options: O
     console.error(chalk.red(`\nError: ${error.message}`));
     process.exit(1);
   } finally {
+    prompt?.close();
     await disconnectDB();
   }
 }
 
+/**
+ * Ask before each planned move
+ */
+function createOrganizeReviewer(
+  prompt: Prompt,
+  rootPath: string,
+  beforeFirstQuestion: () => void
+): { review: (item: OrganizePlan) => Promise<boolean>; declined: () => number } {
+  let asked = false;
+  let decideRest: boolean | null = null;
+  let declinedCount = 0;
+
+  const review = async (item: OrganizePlan): Promise<boolean> => {
+    let approved = decideRest;
+
+    if (approved === null) {
+      if (!asked) {
+        beforeFirstQuestion();
+        asked = true;
+      }
+
+      const rule = item.rule ? chalk.gray(` (rule: ${item.rule})`) : '';
+      console.log(`\n  ${chalk.white(path.relative(rootPath, item.from))} → ${chalk.cyan(path.relative(rootPath, item.to))}${rule}`);
+
+      while (approved === null) {
+        const answer = (await prompt.ask(chalk.yellow('  Move? [Y/n], a = approve all remaining, q = skip all remaining: '))) || 'y';
+        if (answer === 'y' || answer === 'n') {
+          approved = answer === 'y';
+        } else if (answer === 'a' || answer === 'q') {
+          decideRest = answer === 'a';
+          approved = decideRest;
+        } else {
+          console.log(chalk.red('  Invalid choice.'));
+        }
+      }
+    }
+
+    if (!approved) declinedCount++;
+    return approved;
+  };
+
+  return { review, declined: () => declinedCount };
+}
+
 function displayOrganizeResults(result: OrganizeResult, isDryRun: boolean): void {
   // Summary
   console.log('\n' + chalk.yellow('▸ Summary'));
@@ -92,11 +168,29 @@ function displayOrganizeResults(result: OrganizeResult, isDryRun: boolean): void
   summaryTable.push(
     [chalk.white('Total Files'), chalk.green(result.summary.totalFiles.toString())],
     [chalk.white('Files Moved'), isDryRun ? chalk.yellow('(planned)') : chalk.green(result.summary.movedCount.toString())],
+    [chalk.white('Files Renamed'), result.summary.renamedCount > 0 ? chalk.cyan(result.summary.renamedCount.toString()) : chalk.gray('0')],
+    ...(result.summary.deduplicatedCount > 0
+      ? [[chalk.white('Duplicates Trashed'), chalk.cyan(result.summary.deduplicatedCount.toString())]]
+      : []),
+    ...(result.collapsedCopies
+      ? [[chalk.white('Copies Collapsed'), result.summary.collapsedCount > 0 ? chalk.cyan(`${result.summary.collapsedCount}${isDryRun ? ' (planned)' : ''}`) : chalk.gray('0')]]
+      : []),
+    [chalk.white('Skipped'), result.summary.skippedCount > 0 ? chalk.yellow(result.summary.skippedCount.toString()) : chalk.gray('0')],
     [chalk.white('Failed'), result.summary.failedCount > 0 ? chalk.red(result.summary.failedCount.toString()) : chalk.gray('0')],
   );
 
   console.log(summaryTable.toString());
 
+  // Collisions and how they were resolved
+  const collisions = Object.entries(result.summary.collisions);
+  if (collisions.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Collisions'));
+    console.log(chalk.gray('─'.repeat(40)));
+    for (const [outcome, count] of collisions) {
+      console.log(`  ${chalk.white(outcome.padEnd(14))} ${chalk.cyan(count!.toString())}`);
+    }
+  }
+
   // By category
   if (Object.keys(result.summary.byCategory).length > 0) {
     console.log('\n' + chalk.yellow('▸ Files by Category'));
@@ -111,21 +205,40 @@ function displayOrganizeResults(result: OrganizeResult, isDryRun: boolean): void
       .sort(([, a], [, b]) => b - a);
 
     for (const [category, count] of sortedCategories) {
-      const emoji = getCategoryEmoji(category as any);
+      const emoji = getCategoryEmoji(category);
       categoryTable.push([`${emoji} ${category}`, count.toString()]);
     }
 
     console.log(categoryTable.toString());
   }
 
+  // Identical copies and the file that stays
+  if (result.collapsedCopies && result.collapsedCopies.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Collapsed Copies'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    for (const collapse of result.collapsedCopies.slice(0, 20)) {
+      const kept = path.basename(collapse.kept);
+      const renamed = collapse.cleanName ? chalk.cyan(` → ${collapse.cleanName}`) : '';
+      console.log(chalk.green(`  ✓ ${kept}${renamed}`) + chalk.gray(` (${formatBytes(collapse.size)})`));
+      for (const removed of collapse.removed) {
+        console.log(chalk.red(`    ✗ ${path.basename(removed)} - ${isDryRun ? 'WILL TRASH' : 'TRASHED'}`));
+      }
+    }
+
+    if (result.collapsedCopies.length > 20) {
+      console.log(chalk.gray(`  ... and ${result.collapsedCopies.length - 20} more`));
+    }
+  }
+
   // Detailed plan (for dry run or small number of files)
   if (isDryRun && result.plan.length > 0) {
     console.log('\n' + chalk.yellow('▸ Planned Moves'));
     console.log(chalk.gray('─'.repeat(40)));
 
     const planTable = new Table({
-      head: [chalk.cyan('From'), chalk.cyan('To')],
-      colWidths: [35, 35],
+      head: [chalk.cyan('From'), chalk.cyan('To'), chalk.cyan('Rule')],
+      colWidths: [35, 35, 20],
       wordWrap: true,
     });
 
@@ -133,10 +246,13 @@ function displayOrganizeResults(result: OrganizeResult, isDryRun: boolean): void
     const displayPlan = result.plan.slice(0, 20);
     for (const item of displayPlan) {
       const from = path.basename(item.from);
-      const toDir = path.basename(path.dirname(item.to));
+      const toDir = path.relative(result.targetPath, path.dirname(item.to));
+      const toName = item.newName ?? from;
+      const to = `${toDir}/${toName.length > 20 ? toName.substring(0, 17) + '...' : toName}`;
       planTable.push([
         from.length > 32 ? from.substring(0, 29) + '...' : from,
-        `${toDir}/${from.length > 20 ? from.substring(0, 17) + '...' : from}`,
+        item.detectedType ? `${to} ${chalk.gray(`(${item.detectedType})`)}` : to,
+        item.rule ? chalk.white(item.rule) : chalk.gray('category'),
       ]);
     }
 
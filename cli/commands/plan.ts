@@ -0,0 +1,141 @@
+import chalk from 'chalk';
+import Table from 'cli-table3';
+import ora from 'ora';
+import * as fs from 'fs';
+import * as path from 'path';
+import { connectDB, disconnectDB } from '../../src/config';
+import { PlanService, ApplyPlanResult } from '../../src/services';
+import { serializePlan, parsePlan, PlanFormat, CollisionPolicy } from '../../src/utils';
+
+export interface PlanExportCommandOptions {
+  format?: PlanFormat;
+  output?: string;
+}
+
+export interface PlanApplyCommandOptions {
+  onCollision?: CollisionPolicy;
+}
+
+export async function planExportCommand(transactionId: string, options: PlanExportCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    const format = options.format ?? 'json';
+    const outputPath = path.resolve(options.output ?? `plan-${transactionId.substring(0, 8)}.${format}`);
+
+    const planService = new PlanService();
+    const plan = await planService.exportPlan(transactionId);
+
+    fs.writeFileSync(outputPath, serializePlan(plan, format));
+
+    console.log('\n' + chalk.green(`✓ Exported ${plan.type} plan with ${plan.actions.length} actions`));
+    console.log(chalk.gray(`  File: ${outputPath}`));
+    console.log(chalk.cyan('💡 Review or edit it, then run: ') + chalk.white(`deskpilot plan apply "${outputPath}"\n`));
+
+  } catch (error: any) {
+    spinner.fail('Plan export failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+export async function planApplyCommand(source: string, options: PlanApplyCommandOptions): Promise<void> {
+  const spinner = ora('Connecting to database...').start();
+
+  try {
+    // A path to an existing file is a plan file, anything else a transaction ID
+    const planPath = path.resolve(source);
+    const plan = fs.existsSync(planPath) && fs.statSync(planPath).isFile()
+      ? parsePlan(fs.readFileSync(planPath, 'utf-8'), planPath)
+      : null;
+
+    // Connect to database
+    await connectDB();
+    spinner.succeed('Connected to database');
+
+    console.log('\n' + chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.cyan.bold('  DESKPILOT - Apply Plan'));
+    console.log(chalk.cyan.bold('═'.repeat(60)));
+    console.log(chalk.gray(`  Source: ${plan ? planPath : `transaction ${source}`}`));
+    console.log('');
+
+    let lastProgress = 0;
+    const progressSpinner = ora('Applying plan...').start();
+
+    const planService = new PlanService((current, total, file) => {
+      const progress = Math.round((current / total) * 100);
+      if (progress !== lastProgress) {
+        progressSpinner.text = `Applying... ${progress}% (${current}/${total}) - ${file}`;
+        lastProgress = progress;
+      }
+    });
+
+    const applyOptions = { collisionPolicy: options.onCollision };
+    const result = plan
+      ? await planService.applyPlan(plan, applyOptions)
+      : await planService.applyTransaction(source, applyOptions);
+
+    progressSpinner.succeed(`Applied ${result.summary.completedCount} of ${result.summary.totalActions} actions`);
+
+    displayApplyResults(result);
+
+    console.log('\n' + chalk.green('✓ Plan applied!'));
+    console.log(chalk.gray(`  Transaction ID: ${result.transactionId}`));
+    console.log(chalk.cyan('💡 To undo, run: ') + chalk.white(`deskpilot rollback ${result.transactionId}\n`));
+
+  } catch (error: any) {
+    spinner.fail('Plan apply failed');
+    console.error(chalk.red(`\nError: ${error.message}`));
+    process.exit(1);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+function displayApplyResults(result: ApplyPlanResult): void {
+  // Summary
+  console.log('\n' + chalk.yellow('▸ Summary'));
+  console.log(chalk.gray('─'.repeat(40)));
+
+  const summaryTable = new Table({
+    chars: { 'mid': '', 'left-mid': '', 'mid-mid': '', 'right-mid': '' },
+    style: { head: ['cyan'] },
+  });
+
+  summaryTable.push(
+    [chalk.white('Plan Type'), chalk.white(result.type)],
+    [chalk.white('Total Actions'), chalk.white(result.summary.totalActions.toString())],
+    [chalk.white('Completed'), chalk.green(result.summary.completedCount.toString())],
+    [chalk.white('Skipped'), result.summary.skippedCount > 0 ? chalk.yellow(result.summary.skippedCount.toString()) : chalk.gray('0')],
+    [chalk.white('Failed'), result.summary.failedCount > 0 ? chalk.red(result.summary.failedCount.toString()) : chalk.gray('0')],
+  );
+
+  console.log(summaryTable.toString());
+
+  // Files that changed since the plan was made, or could not be processed
+  const notApplied = result.details.filter(d => d.status !== 'completed');
+  if (notApplied.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Not Applied'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    for (const detail of notApplied.slice(0, 10)) {
+      const fileName = path.basename(detail.from);
+      const statusIcon = detail.status === 'failed' ? chalk.red('✗') : chalk.yellow('⊘');
+      const statusText = detail.status === 'failed' ? chalk.red('FAILED') : chalk.yellow('SKIPPED');
+      console.log(`  ${statusIcon} ${fileName} - ${statusText}`);
+      if (detail.error) {
+        console.log(chalk.gray(`      Reason: ${detail.error}`));
+      }
+    }
+
+    if (notApplied.length > 10) {
+      console.log(chalk.gray(`  ... and ${notApplied.length - 10} more`));
+    }
+  }
+}
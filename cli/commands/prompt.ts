@@ -0,0 +1,34 @@
+import * as readline from 'readline';
+
+/**
+ * Line-based terminal prompt used by the --interactive review modes
+ */
+export interface Prompt {
+  // Ask a question and resolve with the trimmed, lowercase answer
+  ask(question: string): Promise<string>;
+  close(): void;
+}
+
+export function createPrompt(): Prompt {
+  if (!process.stdin.isTTY) {
+    throw new Error('--interactive needs a terminal to read answers from');
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  // Reviews happen before any file is touched, so quitting here is safe
+  rl.on('SIGINT', () => {
+    rl.close();
+    console.log('\nReview cancelled. No files were changed.');
+    process.exit(130);
+  });
+
+  return {
+    ask: (question: string) => new Promise(resolve => {
+      rl.question(question, answer => resolve(answer.trim().toLowerCase()));
+    }),
+    close: () => rl.close(),
+  };
+}
+
+export default createPrompt;
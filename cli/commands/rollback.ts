@@ -5,8 +5,13 @@ import * as path from 'path';
 import { connectDB, disconnectDB } from '../../src/config';
 import { RollbackService, RollbackResult } from '../../src/services';
 import { Transaction } from '../../src/models';
+import { CollisionPolicy } from '../../src/utils';
 
-export async function rollbackCommand(transactionId: string): Promise<void> {
+export interface RollbackCommandOptions {
+  onCollision?: CollisionPolicy;
+}
+
+export async function rollbackCommand(transactionId: string, options: RollbackCommandOptions = {}): Promise<void> {
   const spinner = ora('Connecting to database...').start();
 
   try {
@@ -48,7 +53,7 @@ export async function rollbackCommand(transactionId: string): Promise<void> {
     });
 
     // Execute rollback
-    const result = await rollbackService.rollback(transactionId);
+    const result = await rollbackService.rollback(transactionId, { collisionPolicy: options.onCollision });
 
     progressSpinner.succeed(`Rollback completed`);
 
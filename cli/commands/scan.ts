@@ -4,10 +4,13 @@ import ora from 'ora';
 import * as path from 'path';
 import { connectDB, disconnectDB, env } from '../../src/config';
 import { ScannerService, ScanResult } from '../../src/services';
-import { formatBytes, getCategoryEmoji } from '../../src/utils';
+import { formatBytes, formatDuration, getCategoryEmoji } from '../../src/utils';
+import { FilterCommandOptions, toWalkOptions, describeFilters } from './filters';
 
-export interface ScanCommandOptions {
+export interface ScanCommandOptions extends FilterCommandOptions {
   recursive?: boolean;
+  incremental?: boolean;
+  concurrency?: number;
 }
 
 export async function scanCommand(targetPath: string | undefined, options: ScanCommandOptions): Promise<void> {
@@ -27,7 +30,11 @@ export async function scanCommand(targetPath: string | undefined, options: ScanC
     console.log(chalk.cyan.bold('  DESKPILOT - File Scanner'));
     console.log(chalk.cyan.bold('═'.repeat(60)));
     console.log(chalk.gray(`  Target: ${resolvedPath}`));
-    console.log(chalk.gray(`  Mode: ${options.recursive ? 'Recursive' : 'Non-recursive'}`));
+    console.log(chalk.gray(`  Mode: ${options.recursive ? 'Recursive' : 'Non-recursive'}${options.incremental ? ', incremental' : ''}`));
+    const filters = describeFilters(options);
+    if (filters) {
+      console.log(chalk.gray(`  Filters: ${filters}`));
+    }
     console.log('');
 
     // Create scanner with progress callback
@@ -35,16 +42,26 @@ export async function scanCommand(targetPath: string | undefined, options: ScanC
     const progressSpinner = ora('Scanning files...').start();
     
     const scanner = new ScannerService((current, total, file) => {
+      // Total is unknown (0) while the directory is still being walked
+      if (total === 0) {
+        if (current % 100 === 0) {
+          progressSpinner.text = `Scanning files... ${current} found - ${file}`;
+        }
+        return;
+      }
       const progress = Math.round((current / total) * 100);
       if (progress !== lastProgress) {
-        progressSpinner.text = `Scanning files... ${progress}% (${current}/${total}) - ${file}`;
+        progressSpinner.text = `Checking duplicates... ${progress}% (${current}/${total}) - ${file}`;
         lastProgress = progress;
       }
     });
 
     // Execute scan
     const result = await scanner.scan(resolvedPath, {
+      ...toWalkOptions(options),
       recursive: options.recursive ?? true,
+      incremental: options.incremental ?? false,
+      concurrency: options.concurrency,
     });
 
     progressSpinner.succeed(`Scanned ${result.totalFiles} files`);
@@ -80,10 +97,37 @@ function displayScanResults(result: ScanResult): void {
     [chalk.white('Total Size'), chalk.green(formatBytes(result.totalSize))],
     [chalk.white('Duplicates Found'), result.duplicatesCount > 0 ? chalk.yellow(result.duplicatesCount.toString()) : chalk.gray('0')],
     [chalk.white('Wasted Space'), result.duplicatesSize > 0 ? chalk.yellow(formatBytes(result.duplicatesSize)) : chalk.gray('0 Bytes')],
+    [chalk.white('Bytes Read'), chalk.gray(formatBytes(result.bytesRead))],
   );
 
+  if (result.hardLinkGroups.length > 0) {
+    const linkedPaths = result.hardLinkGroups.reduce((sum, g) => sum + g.files.length, 0);
+    summaryTable.push([chalk.white('Hard-Linked Paths'), chalk.cyan(`${linkedPaths} (${result.hardLinkGroups.length} files)`)]);
+  }
+
   console.log(summaryTable.toString());
 
+  // Changes since the previous scan (incremental mode)
+  if (result.changes) {
+    console.log('\n' + chalk.yellow('▸ Changes Since Last Scan'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const changesTable = new Table({
+      chars: { 'mid': '', 'left-mid': '', 'mid-mid': '', 'right-mid': '' },
+      style: { head: ['cyan'] },
+    });
+
+    changesTable.push(
+      [chalk.white('Previous Scan'), chalk.gray(result.changes.previousScanId ?? 'none')],
+      [chalk.white('Hashes Reused'), chalk.green(result.changes.reused.toString())],
+      [chalk.white('Rehashed'), chalk.yellow(result.changes.rehashed.toString())],
+      [chalk.white('Added'), chalk.cyan(result.changes.added.toString())],
+      [chalk.white('Removed'), chalk.red(result.changes.removed.toString())],
+    );
+
+    console.log(changesTable.toString());
+  }
+
   // Category breakdown
   console.log('\n' + chalk.yellow('▸ Files by Category'));
   console.log(chalk.gray('─'.repeat(40)));
@@ -99,7 +143,7 @@ function displayScanResults(result: ScanResult): void {
 
   for (const [category, data] of sortedCategories) {
     const percentage = Math.round((data.size / totalSize) * 100);
-    const emoji = getCategoryEmoji(category as any);
+    const emoji = getCategoryEmoji(category);
     categoryTable.push([
       `${emoji} ${category}`,
       data.count.toString(),
@@ -110,6 +154,60 @@ function displayScanResults(result: ScanResult): void {
 
   console.log(categoryTable.toString());
 
+  // Extensions that disagree with file content
+  if (result.typeMismatches.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Type Mismatches'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const mismatchTable = new Table({
+      head: [chalk.cyan('File'), chalk.cyan('Extension'), chalk.cyan('Detected')],
+      colWidths: [40, 12, 15],
+    });
+
+    for (const mismatch of result.typeMismatches.slice(0, 10)) {
+      const fileName = path.basename(mismatch.path);
+      mismatchTable.push([
+        fileName.length > 35 ? fileName.substring(0, 32) + '...' : fileName,
+        mismatch.extension,
+        chalk.red(mismatch.detectedType),
+      ]);
+    }
+
+    console.log(mismatchTable.toString());
+
+    if (result.typeMismatches.length > 10) {
+      console.log(chalk.gray(`  ... and ${result.typeMismatches.length - 10} more mismatched files`));
+    }
+  }
+
+  // Partial downloads and empty files, longest untouched first
+  if (result.incompleteFiles.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Incomplete Downloads'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const incompleteTable = new Table({
+      head: [chalk.cyan('File'), chalk.cyan('Size'), chalk.cyan('Untouched For')],
+      colWidths: [40, 12, 18],
+    });
+
+    for (const file of result.incompleteFiles.slice(0, 10)) {
+      const fileName = path.basename(file.path);
+      incompleteTable.push([
+        fileName.length > 35 ? fileName.substring(0, 32) + '...' : fileName,
+        file.size === 0 ? chalk.gray('empty') : formatBytes(file.size),
+        formatDuration(file.untouchedMs),
+      ]);
+    }
+
+    console.log(incompleteTable.toString());
+
+    if (result.incompleteFiles.length > 10) {
+      console.log(chalk.gray(`  ... and ${result.incompleteFiles.length - 10} more incomplete files`));
+    }
+
+    console.log(chalk.cyan('💡 Tip: Run ') + chalk.white('deskpilot cleanup <path> --incomplete --older-than 7d') + chalk.cyan(' to trash stale partial downloads'));
+  }
+
   // Duplicate groups (if any)
   if (result.duplicateGroups.length > 0) {
     console.log('\n' + chalk.yellow('▸ Duplicate Files'));
@@ -143,6 +241,67 @@ function displayScanResults(result: ScanResult): void {
 
     console.log('\n' + chalk.cyan('💡 Tip: Run ') + chalk.white('deskpilot dedupe <path>') + chalk.cyan(' to remove duplicates'));
   }
+
+  // Identical folders (if any)
+  if (result.directoryGroups.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Duplicate Folders'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const dirTable = new Table({
+      head: [chalk.cyan('Folder'), chalk.cyan('Copies'), chalk.cyan('Files'), chalk.cyan('Wasted Space')],
+      colWidths: [40, 10, 10, 15],
+    });
+
+    for (const group of result.directoryGroups.slice(0, 10)) {
+      const relative = path.relative(result.scannedPath, group.directories[0].path);
+      const displayName = relative.length > 35 ? '...' + relative.substring(relative.length - 32) : relative;
+      dirTable.push([
+        displayName,
+        group.directories.length.toString(),
+        group.directories[0].fileCount.toString(),
+        formatBytes(group.wastedSize),
+      ]);
+    }
+
+    console.log(dirTable.toString());
+
+    if (result.directoryGroups.length > 10) {
+      console.log(chalk.gray(`  ... and ${result.directoryGroups.length - 10} more duplicate folder groups`));
+    }
+
+    console.log('\n' + chalk.cyan('💡 Tip: Run ') + chalk.white('deskpilot dedupe <path> --directories') + chalk.cyan(' to trash whole duplicate folders'));
+  }
+
+  if (result.copySiblingGroups.length > 0) {
+    console.log('\n' + chalk.yellow('▸ Download Copies'));
+    console.log(chalk.gray('─'.repeat(40)));
+
+    const copyTable = new Table({
+      head: [chalk.cyan('Base Name'), chalk.cyan('Files'), chalk.cyan('Redundant'), chalk.cyan('Versions')],
+      colWidths: [40, 10, 12, 12],
+    });
+
+    for (const group of result.copySiblingGroups.slice(0, 10)) {
+      const relative = path.relative(result.scannedPath, path.join(group.directory, group.baseName));
+      const displayName = relative.length > 35 ? '...' + relative.substring(relative.length - 32) : relative;
+      copyTable.push([
+        displayName,
+        group.files.length.toString(),
+        // Copies that could go: all but one of each identical set
+        group.identical.reduce((sum, set) => sum + set.length - 1, 0).toString(),
+        group.versions.length.toString(),
+      ]);
+    }
+
+    console.log(copyTable.toString());
+
+    if (result.copySiblingGroups.length > 10) {
+      console.log(chalk.gray(`  ... and ${result.copySiblingGroups.length - 10} more groups of copies`));
+    }
+
+    console.log(chalk.gray('  Identical copies are safe to remove; versions differ in content.'));
+    console.log(chalk.cyan('💡 Tip: Run ') + chalk.white('deskpilot organize <path> --collapse-copies') + chalk.cyan(' to remove identical copies and restore the clean name'));
+  }
 }
 
 export default scanCommand;
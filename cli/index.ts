@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import {
   scanCommand,
@@ -9,11 +9,149 @@ import {
   rollbackCommand,
   listRollbackableCommand,
   reportCommand,
+  cleanupCommand,
+  ScanCommandOptions,
+  OrganizeCommandOptions,
+  DedupeCommandOptions,
+  RollbackCommandOptions,
+  CleanupCommandOptions,
+  planExportCommand,
+  planApplyCommand,
+  PlanExportCommandOptions,
+  PlanApplyCommandOptions,
+  similarImagesCommand,
+  similarDocsCommand,
+  staleCommand,
+  SimilarImagesCommandOptions,
+  SimilarDocsCommandOptions,
+  StaleCommandOptions,
 } from './commands';
-import { DedupeStrategy } from '../src/services';
+import {
+  DedupeStrategy,
+  ORGANIZE_LAYOUTS,
+  DEDUPE_STRATEGIES,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  STALE_SORT_KEYS,
+  CLEANUP_ACTIONS,
+  parseDedupeStrategies,
+} from '../src/services';
+import {
+  parseConcurrency,
+  parseSize,
+  parseDuration,
+  validateRenameTemplate,
+  DATE_SOURCES,
+  COLLISION_POLICIES,
+  PLAN_FORMATS,
+  LINK_MODES,
+  DEFAULT_TEXT_SIMILARITY,
+  getAllCategories,
+} from '../src/utils';
 
 const program = new Command();
 
+function concurrencyOption(value: string): number {
+  const parsed = parseConcurrency(value);
+  if (parsed === null) {
+    throw new InvalidArgumentError('Concurrency must be a positive integer.');
+  }
+  return parsed;
+}
+
+function depthOption(value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new InvalidArgumentError('Max depth must be a non-negative integer.');
+  }
+  return parseInt(value, 10);
+}
+
+function sizeOption(value: string): number {
+  const parsed = parseSize(value);
+  if (parsed === null) {
+    throw new InvalidArgumentError('Size must be a number of bytes or a size like 10KB, 5MB, 1GB.');
+  }
+  return parsed;
+}
+
+function durationOption(value: string): number {
+  const parsed = parseDuration(value);
+  if (parsed === null) {
+    throw new InvalidArgumentError('Age must be a duration like 12h, 7d, 2w, 3mo or 1y.');
+  }
+  return parsed;
+}
+
+function choiceOption<T extends string>(choices: readonly T[], label: string): (value: string) => T {
+  return (value: string) => {
+    if (!choices.includes(value as T)) {
+      throw new InvalidArgumentError(`${label} must be one of: ${choices.join(', ')}.`);
+    }
+    return value as T;
+  };
+}
+
+function renameOption(value: string): string {
+  const error = validateRenameTemplate(value);
+  if (error) {
+    throw new InvalidArgumentError(`${error}.`);
+  }
+  return value;
+}
+
+function strategyOption(value: string): DedupeStrategy[] {
+  try {
+    return parseDedupeStrategies(value);
+  } catch (error: any) {
+    throw new InvalidArgumentError(`${error.message}.`);
+  }
+}
+
+function thresholdOption(value: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) > 64) {
+    throw new InvalidArgumentError('Threshold must be a whole number of bits from 0 to 64.');
+  }
+  return parseInt(value, 10);
+}
+
+function similarityOption(value: string): number {
+  const parsed = Number(value);
+  if (!/^(0|1)?(\.\d+)?$/.test(value) || !(parsed > 0 && parsed <= 1)) {
+    throw new InvalidArgumentError('Similarity must be a number above 0 and at most 1, such as 0.8.');
+  }
+  return parsed;
+}
+
+function topOption(value: string): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new InvalidArgumentError('Top must be a positive integer.');
+  }
+  return parseInt(value, 10);
+}
+
+function categoryOption(value: string, previous: string[] | undefined): string[] {
+  const categories = getAllCategories();
+  if (!categories.includes(value)) {
+    throw new InvalidArgumentError(`Category must be one of: ${categories.join(', ')}.`);
+  }
+  return [...(previous ?? []), value];
+}
+
+function collect(value: string, previous: string[] | undefined): string[] {
+  return [...(previous ?? []), value];
+}
+
+// Shared file filter flags for scan, organize, dedupe, cleanup and stale
+function addFilterOptions(command: Command): Command {
+  return command
+    .option('--include <glob>', 'Only process files matching the glob (repeatable)', collect)
+    .option('--exclude <glob>', 'Skip files and folders matching the glob (repeatable, default: node_modules)', collect)
+    .option('--max-depth <n>', 'Maximum folder depth to descend into', depthOption)
+    .option('--min-size <size>', 'Skip files smaller than this (e.g. 10KB)', sizeOption)
+    .option('--max-size <size>', 'Skip files larger than this (e.g. 2GB)', sizeOption)
+    .option('-H, --hidden', 'Include hidden files and folders', false)
+    .option('-L, --follow-symlinks', 'Follow symbolic links (loops are detected and skipped)', false);
+}
+
 // ASCII Art Banner
 const banner = `
 ${chalk.cyan('╔═══════════════════════════════════════════════════════════╗')}
@@ -31,48 +169,72 @@ program
   });
 
 // Scan command
-program
+addFilterOptions(program
   .command('scan [path]')
   .description('Scan a directory for files and detect duplicates')
   .option('-r, --recursive', 'Scan recursively (default: true)', true)
   .option('--no-recursive', 'Do not scan recursively')
-  .action(async (targetPath: string | undefined, options: { recursive?: boolean }) => {
+  .option('-i, --incremental', 'Reuse hashes from the previous scan of this path for unchanged files', false)
+  .option('-c, --concurrency <n>', 'Number of files to hash in parallel', concurrencyOption))
+  .action(async (targetPath: string | undefined, options: ScanCommandOptions) => {
     await scanCommand(targetPath, options);
   });
 
 // Organize command
-program
+addFilterOptions(program
   .command('organize [path]')
   .description('Organize files into category folders')
   .option('-d, --dry-run', 'Preview changes without making them', false)
   .option('-r, --recursive', 'Include files in subdirectories', false)
-  .action(async (targetPath: string | undefined, options: { dryRun?: boolean; recursive?: boolean }) => {
+  .option('-l, --layout <layout>', `Folder layout: ${ORGANIZE_LAYOUTS.join(', ')}`, choiceOption(ORGANIZE_LAYOUTS, 'Layout'), 'flat')
+  .option('--date-source <source>', `Date for date-based folders: ${DATE_SOURCES.join(', ')}`, choiceOption(DATE_SOURCES, 'Date source'), 'modified')
+  .option('--rename <template>', 'Rename files, e.g. "{date:yyyy-MM-dd}_{slug(name)}{ext}"', renameOption)
+  .option('--on-collision <policy>', `When the target file exists: ${COLLISION_POLICIES.join(', ')}`, choiceOption(COLLISION_POLICIES, 'Collision policy'), 'rename')
+  .option('--collapse-copies', 'Trash identical copies such as "report (1).pdf" and give the copy that stays its clean name', false)
+  .option('-i, --interactive', 'Approve each move before anything is changed', false))
+  .action(async (targetPath: string | undefined, options: OrganizeCommandOptions) => {
     await organizeCommand(targetPath, options);
   });
 
 // Dedupe command
-program
+addFilterOptions(program
   .command('dedupe [path]')
   .description('Find and remove duplicate files')
   .option('-d, --dry-run', 'Preview what would be deleted without making changes', false)
-  .option('-s, --strategy <strategy>', 'Strategy for keeping files: keep-latest, keep-oldest, keep-largest', 'keep-latest')
+  .option('-s, --strategy <strategies>', `Strategy for keeping files, or a comma-separated chain such as keep-preferred-path,keep-oldest: ${DEDUPE_STRATEGIES.join(', ')} (default: keep-latest)`, strategyOption)
+  .option('--prefer <dir>', 'Preferred folder for keep-preferred-path, best first (repeatable, default: preferredPaths in config)', collect)
+  .option('--from-scan <scanId>', 'Use the duplicates found by a stored scan instead of hashing again (path defaults to the scanned folder)')
+  .option('--against <dir>', 'Only remove files that already exist in this reference folder, which is never modified (repeatable)', collect)
   .option('-p, --permanent', 'Permanently delete instead of moving to trash', false)
-  .action(async (targetPath: string | undefined, options: { dryRun?: boolean; strategy?: string; permanent?: boolean }) => {
-    const strategy = options.strategy as DedupeStrategy;
-    if (!['keep-latest', 'keep-oldest', 'keep-largest'].includes(strategy)) {
-      console.error(chalk.red(`Invalid strategy: ${strategy}`));
-      console.log(chalk.gray('Valid strategies: keep-latest, keep-oldest, keep-largest'));
-      process.exit(1);
-    }
-    await dedupeCommand(targetPath, { ...options, strategy });
+  .option('--link [mode]', `Replace duplicates with links to the kept copy: ${LINK_MODES.join(', ')} (default: auto)`, choiceOption(LINK_MODES, 'Link mode'))
+  .option('-i, --interactive', 'Choose which copy to keep for each duplicate group', false)
+  .option('--directories', 'Also find identical folders and trash each redundant one as a single action', false)
+  .option('--paranoid', 'Compare each duplicate byte for byte with the kept copy before removing it', false)
+  .option('--similar-docs [similarity]', `Also group text files that are likely versions of one document and keep the newest; needs --dry-run or --interactive (default similarity: ${DEFAULT_TEXT_SIMILARITY})`, similarityOption)
+  .option('-c, --concurrency <n>', 'Number of files to hash in parallel', concurrencyOption))
+  .action(async (targetPath: string | undefined, options: DedupeCommandOptions) => {
+    await dedupeCommand(targetPath, options);
+  });
+
+// Cleanup command
+addFilterOptions(program
+  .command('cleanup [path]')
+  .description('Move stale leftovers such as unfinished downloads to the trash')
+  .option('--incomplete', 'Select partial downloads (.crdownload, .part, .partial, .download, .tmp) and empty files', false)
+  .option('--older-than <age>', 'Only files untouched for at least this long, e.g. 12h, 7d, 2w (default: 7d)', durationOption)
+  .option('-d, --dry-run', 'Preview what would be moved to trash without making changes', false)
+  .option('-r, --recursive', 'Include files in subfolders', false))
+  .action(async (targetPath: string | undefined, options: CleanupCommandOptions) => {
+    await cleanupCommand(targetPath, options);
   });
 
 // Rollback command
 program
   .command('rollback <transactionId>')
-  .description('Rollback a previous organize or dedupe operation')
-  .action(async (transactionId: string) => {
-    await rollbackCommand(transactionId);
+  .description('Rollback a previous organize, dedupe or cleanup operation')
+  .option('--on-collision <policy>', `When a file's original location is taken: ${COLLISION_POLICIES.join(', ')}`, choiceOption(COLLISION_POLICIES, 'Collision policy'))
+  .action(async (transactionId: string, options: RollbackCommandOptions) => {
+    await rollbackCommand(transactionId, options);
   });
 
 // List rollbackable transactions
@@ -83,6 +245,67 @@ program
     await listRollbackableCommand();
   });
 
+// Plan commands
+const planCommand = program
+  .command('plan')
+  .description('Export dry-run plans for review and apply them later');
+
+planCommand
+  .command('export <transactionId>')
+  .description('Write a dry-run organize, dedupe or cleanup plan to an editable file')
+  .option('-f, --format <format>', `Plan file format: ${PLAN_FORMATS.join(', ')}`, choiceOption(PLAN_FORMATS, 'Format'), 'json')
+  .option('-o, --output <file>', 'Output file, defaults to plan-<id>.<format>')
+  .action(async (transactionId: string, options: PlanExportCommandOptions) => {
+    await planExportCommand(transactionId, options);
+  });
+
+planCommand
+  .command('apply <planFileOrTransactionId>')
+  .description('Apply a plan file or dry-run transaction, skipping files that changed since')
+  .option('--on-collision <policy>', `When the target file exists: ${COLLISION_POLICIES.join(', ')}`, choiceOption(COLLISION_POLICIES, 'Collision policy'))
+  .action(async (source: string, options: PlanApplyCommandOptions) => {
+    await planApplyCommand(source, options);
+  });
+
+// Similar images command
+program
+  .command('similar-images [path]')
+  .description('Report visually similar images from the latest scan (never deletes anything)')
+  .option('--scan <scanId>', 'Scan to read instead of the latest scan of the path')
+  .option('-t, --threshold <bits>', `Most differing bits out of 64 for images to count as similar (default: ${DEFAULT_SIMILARITY_THRESHOLD})`, thresholdOption)
+  .action(async (targetPath: string | undefined, options: SimilarImagesCommandOptions) => {
+    await similarImagesCommand(targetPath, options);
+  });
+
+// Similar documents command
+program
+  .command('similar-docs [path]')
+  .description('Report text files that are likely versions of the same document (never deletes anything)')
+  .option('--scan <scanId>', 'Scan to read instead of the latest scan of the path')
+  .option('-t, --threshold <similarity>', `Smallest estimated similarity from 0 to 1 for documents to count as versions (default: ${DEFAULT_TEXT_SIMILARITY})`, similarityOption)
+  .option('-c, --concurrency <n>', 'Number of documents to fingerprint in parallel', concurrencyOption)
+  .action(async (targetPath: string | undefined, options: SimilarDocsCommandOptions) => {
+    await similarDocsCommand(targetPath, options);
+  });
+
+// Stale and large files command
+addFilterOptions(program
+  .command('stale [path]')
+  .description('List files unused for a while and the largest files and folders, optionally archiving or trashing the stale files')
+  .option('--older-than <age>', 'Files unused for at least this long are stale, e.g. 30d, 6mo, 1y (default: 90d)', durationOption)
+  .option('--accessed', 'Judge by last access time (atime) where the file system records it, instead of last change', false)
+  .option('--sort <key>', `Order of the stale files: ${STALE_SORT_KEYS.join(', ')} (default: age)`, choiceOption(STALE_SORT_KEYS, 'Sort key'))
+  .option('--category <name>', 'Only files in this category (repeatable)', categoryOption)
+  .option('--top <n>', 'Number of largest files and folders to list (default: 10)', topOption)
+  .option('-r, --recursive', 'Include subfolders', true)
+  .option('--no-recursive', 'Only files directly in the folder')
+  .option('--action <action>', `Then do this with the stale files, as one transaction that rollback can undo: ${CLEANUP_ACTIONS.join(', ')}`, choiceOption(CLEANUP_ACTIONS, 'Action'))
+  .option('--archive-to <dir>', 'Archive folder for --action archive (default: Archive inside the path)')
+  .option('-d, --dry-run', 'With --action, save the plan without moving anything', false))
+  .action(async (targetPath: string | undefined, options: StaleCommandOptions) => {
+    await staleCommand(targetPath, options);
+  });
+
 // Report command
 program
   .command('report')
@@ -11,6 +11,8 @@ export interface EnvConfig {
   trashPath: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
   dashboardPort: number;
+  hashConcurrency: number;
+  configPath: string | null;
 }
 
 function getDefaultDownloadsPath(): string {
@@ -38,6 +40,8 @@ export const env: EnvConfig = {
   trashPath: process.env.TRASH_PATH || getDefaultTrashPath(),
   logLevel: (process.env.LOG_LEVEL as EnvConfig['logLevel']) || 'info',
   dashboardPort: parseInt(process.env.DASHBOARD_PORT || '3006', 10),
+  hashConcurrency: parseInt(process.env.HASH_CONCURRENCY || '4', 10) || 4,
+  configPath: process.env.DESKPILOT_CONFIG || null,
 };
 
 export default env;
@@ -1,2 +1,4 @@
 export { connectDB, disconnectDB, connectDBCached } from './db';
 export { env } from './env';
+export { findConfigFile, loadUserConfig, getUserConfig, setUserConfig, CONFIG_FILE_NAMES } from './userConfig';
+export type { UserConfig, CategoryConfig } from './userConfig';
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { env } from './env';
+
+export interface CategoryConfig {
+  extensions: string[];
+  color?: string;
+  emoji?: string;
+}
+
+/**
+ * Settings read from deskpilot.config.json or .deskpilotrc (both JSON)
+ */
+export interface UserConfig {
+  // When false, only the configured categories exist (plus Others)
+  extendDefaultCategories: boolean;
+  categories: Record<string, CategoryConfig>;
+  // Organize rules as written in the file; validated by the rules engine
+  rules: unknown[];
+  // Absolute folders whose copies the keep-preferred-path dedupe strategy keeps, best first
+  preferredPaths: string[];
+  // File the settings were loaded from, null when using defaults
+  source: string | null;
+}
+
+export const CONFIG_FILE_NAMES = ['deskpilot.config.json', '.deskpilotrc'];
+
+let cachedConfig: UserConfig | null = null;
+
+/**
+ * Find the config file: DESKPILOT_CONFIG, then the working directory, then the home directory
+ */
+export function findConfigFile(): string | null {
+  if (env.configPath) {
+    return path.resolve(env.configPath);
+  }
+
+  for (const dir of [process.cwd(), os.homedir()]) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+function normalizeExtension(ext: string): string {
+  const trimmed = ext.trim().toLowerCase();
+  return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+}
+
+function parseCategories(raw: unknown, source: string): Record<string, CategoryConfig> {
+  if (raw === undefined) return {};
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${source}: "categories" must be an object`);
+  }
+
+  const categories: Record<string, CategoryConfig> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, any>)) {
+    // "." and ".." would point organize at the target's own or parent folder
+    if (!name.trim() || /[\\/]/.test(name) || /^\.+$/.test(name.trim())) {
+      throw new Error(`Invalid config ${source}: category name "${name}" cannot be used as a folder name`);
+    }
+    if (typeof value !== 'object' || value === null || !Array.isArray(value.extensions)) {
+      throw new Error(`Invalid config ${source}: category "${name}" needs an "extensions" array`);
+    }
+
+    categories[name] = {
+      extensions: value.extensions.map((ext: unknown) => normalizeExtension(String(ext))),
+      color: typeof value.color === 'string' ? value.color : undefined,
+      emoji: typeof value.emoji === 'string' ? value.emoji : undefined,
+    };
+  }
+
+  return categories;
+}
+
+function parsePreferredPaths(raw: unknown, source: string): string[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || raw.some(entry => typeof entry !== 'string' || !entry.trim())) {
+    throw new Error(`Invalid config ${source}: "preferredPaths" must be an array of folder paths`);
+  }
+
+  // "~/Documents" is relative to the home directory, other relative paths to the config file
+  return raw.map((entry: string) => {
+    const trimmed = entry.trim();
+    if (trimmed === '~' || trimmed.startsWith('~/')) {
+      return path.join(os.homedir(), trimmed.slice(1));
+    }
+    return path.resolve(path.dirname(source), trimmed);
+  });
+}
+
+/**
+ * Read and validate a config file
+ */
+export function loadUserConfig(filePath: string | null = findConfigFile()): UserConfig {
+  if (!filePath) {
+    return { extendDefaultCategories: true, categories: {}, rules: [], preferredPaths: [], source: null };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to read config ${filePath}: ${error.message}`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid config ${filePath}: expected a JSON object`);
+  }
+
+  if (raw.rules !== undefined && !Array.isArray(raw.rules)) {
+    throw new Error(`Invalid config ${filePath}: "rules" must be an array`);
+  }
+
+  return {
+    extendDefaultCategories: raw.extendDefaultCategories !== false,
+    categories: parseCategories(raw.categories, filePath),
+    rules: raw.rules ?? [],
+    preferredPaths: parsePreferredPaths(raw.preferredPaths, filePath),
+    source: filePath,
+  };
+}
+
+/**
+ * Get the user config, loading it on first use
+ */
+export function getUserConfig(): UserConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadUserConfig();
+  }
+  return cachedConfig;
+}
+
+/**
+ * Replace the cached config (or clear it so the next call reloads from disk)
+ */
+export function setUserConfig(config: UserConfig | null): void {
+  cachedConfig = config;
+}
+
+export default {
+  findConfigFile,
+  loadUserConfig,
+  getUserConfig,
+  setUserConfig,
+};
@@ -5,12 +5,25 @@ export interface IFileRecord extends Document {
   fileName: string;
   filePath: string;
   originalPath: string;
-  hash: string;
+  partialHash?: string;
+  hash?: string;
+  // 64-bit dHash as hex, for finding visually similar images
+  perceptualHash?: string;
+  // MinHash signature (base64) of a text file, for finding versions of a document
+  minHash?: string;
   extension: string;
   category: string;
+  detectedType?: string;
+  mimeType?: string;
+  typeMismatch: boolean;
   size: number;
   isDuplicate: boolean;
   duplicateOf?: string;
+  device?: string;
+  inode?: string;
+  nlink?: number;
+  isSymlink?: boolean;
+  hardLinkOf?: string;
   createdAt: Date;
   modifiedAt: Date;
   fileCreatedAt: Date;
@@ -36,11 +49,21 @@ const FileRecordSchema = new Schema<IFileRecord>(
       type: String,
       required: true,
     },
+    partialHash: {
+      type: String,
+    },
     hash: {
       type: String,
-      required: true,
       index: true,
     },
+    perceptualHash: {
+      type: String,
+      default: null,
+    },
+    minHash: {
+      type: String,
+      default: null,
+    },
     extension: {
       type: String,
       default: '',
@@ -51,6 +74,18 @@ const FileRecordSchema = new Schema<IFileRecord>(
       required: true,
       index: true,
     },
+    detectedType: {
+      type: String,
+      default: null,
+    },
+    mimeType: {
+      type: String,
+      default: null,
+    },
+    typeMismatch: {
+      type: Boolean,
+      default: false,
+    },
     size: {
       type: Number,
       default: 0,
@@ -63,6 +98,24 @@ const FileRecordSchema = new Schema<IFileRecord>(
       type: String,
       default: null,
     },
+    device: {
+      type: String,
+    },
+    inode: {
+      type: String,
+    },
+    nlink: {
+      type: Number,
+      default: 1,
+    },
+    isSymlink: {
+      type: Boolean,
+      default: false,
+    },
+    hardLinkOf: {
+      type: String,
+      default: null,
+    },
     fileCreatedAt: {
       type: Date,
     },
@@ -77,6 +130,7 @@ const FileRecordSchema = new Schema<IFileRecord>(
 
 // Compound indexes for efficient querying
 FileRecordSchema.index({ scanId: 1, hash: 1 });
+FileRecordSchema.index({ scanId: 1, filePath: 1 });
 FileRecordSchema.index({ scanId: 1, category: 1 });
 FileRecordSchema.index({ scanId: 1, isDuplicate: 1 });
 FileRecordSchema.index({ createdAt: -1 });
@@ -1,18 +1,31 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IScanChanges {
+  reused: number;
+  rehashed: number;
+  added: number;
+  removed: number;
+}
+
 export interface IScan extends Document {
   scanId: string;
   scannedPath: string;
+  previousScanId?: string;
   totalFiles: number;
   totalSize: number;
   duplicatesCount: number;
   duplicatesSize: number;
+  bytesRead: number;
+  typeMismatchCount: number;
+  // Unfinished downloads and empty files
+  incompleteCount: number;
   categories: {
     [key: string]: {
       count: number;
       size: number;
     };
   };
+  changes?: IScanChanges;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,6 +42,10 @@ const ScanSchema = new Schema<IScan>(
       type: String,
       required: true,
     },
+    previousScanId: {
+      type: String,
+      default: null,
+    },
     totalFiles: {
       type: Number,
       default: 0,
@@ -45,10 +62,28 @@ const ScanSchema = new Schema<IScan>(
       type: Number,
       default: 0,
     },
+    bytesRead: {
+      type: Number,
+      default: 0,
+    },
+    typeMismatchCount: {
+      type: Number,
+      default: 0,
+    },
+    incompleteCount: {
+      type: Number,
+      default: 0,
+    },
     categories: {
       type: Schema.Types.Mixed,
       default: {},
     },
+    changes: {
+      reused: { type: Number },
+      rehashed: { type: Number },
+      added: { type: Number },
+      removed: { type: Number },
+    },
   },
   {
     timestamps: true,
@@ -58,6 +93,7 @@ const ScanSchema = new Schema<IScan>(
 // Indexes for efficient querying
 ScanSchema.index({ createdAt: -1 });
 ScanSchema.index({ scannedPath: 1 });
+ScanSchema.index({ scannedPath: 1, createdAt: -1 });
 
 export const Scan = mongoose.models.Scan || mongoose.model<IScan>('Scan', ScanSchema);
 
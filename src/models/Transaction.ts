@@ -1,22 +1,38 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
-export type TransactionType = 'organize' | 'dedupe' | 'rollback';
-export type ActionStatus = 'pending' | 'completed' | 'failed' | 'rolled_back';
+export type TransactionType = 'organize' | 'dedupe' | 'cleanup' | 'rollback';
+export type ActionStatus = 'pending' | 'completed' | 'failed' | 'skipped' | 'rolled_back';
+export type ActionCollision = 'renamed' | 'skipped' | 'overwritten' | 'deduplicated';
 
 export interface ITransactionAction {
   actionId: string;
-  type: 'move' | 'delete' | 'restore';
+  type: 'move' | 'rename' | 'delete' | 'link' | 'restore';
   from: string;
   to: string;
+  // Set on renames: the file name before the action
+  originalName?: string;
   status: ActionStatus;
   error?: string;
+  // How a collision at the target was resolved, if there was one
+  collision?: ActionCollision;
+  // Trash location of a file that was overwritten by this action
+  replacedPath?: string;
+  // Set on dedupe deletes: the copy kept in place of this one
+  keptPath?: string;
+  // Set on links: the requested mode while pending, the link made once completed
+  linkMode?: 'hardlink' | 'reflink' | 'auto';
   fileHash?: string;
   fileSize?: number;
+  // Modification time when the action was planned; dry runs check it instead of hashing up front
+  fileModifiedAt?: Date;
+  // Set when the kept file is a newer version of the document, not a copy: estimated similarity
+  similarity?: number;
 }
 
 export interface ITransactionSummary {
   movedCount: number;
   deletedCount: number;
+  linkedCount: number;
   restoredCount: number;
   failedCount: number;
   savedBytes: number;
@@ -33,10 +49,13 @@ export interface ITransaction extends Document {
   targetPath: string;
   dryRun: boolean;
   strategy?: string;
+  collisionPolicy?: string;
   createdAt: Date;
   completedAt?: Date;
   rolledBackAt?: Date;
   rollbackTransactionId?: string;
+  // Set on a dry run once a plan exported from it was applied as another transaction
+  appliedTransactionId?: string;
 }
 
 const TransactionActionSchema = new Schema<ITransactionAction>(
@@ -47,7 +66,7 @@ const TransactionActionSchema = new Schema<ITransactionAction>(
     },
     type: {
       type: String,
-      enum: ['move', 'delete', 'restore'],
+      enum: ['move', 'rename', 'delete', 'link', 'restore'],
       required: true,
     },
     from: {
@@ -58,21 +77,44 @@ const TransactionActionSchema = new Schema<ITransactionAction>(
       type: String,
       default: '',
     },
+    originalName: {
+      type: String,
+    },
     status: {
       type: String,
-      enum: ['pending', 'completed', 'failed', 'rolled_back'],
+      enum: ['pending', 'completed', 'failed', 'skipped', 'rolled_back'],
       default: 'pending',
     },
     error: {
       type: String,
       default: null,
     },
+    collision: {
+      type: String,
+      enum: ['renamed', 'skipped', 'overwritten', 'deduplicated'],
+    },
+    replacedPath: {
+      type: String,
+    },
+    keptPath: {
+      type: String,
+    },
+    linkMode: {
+      type: String,
+      enum: ['hardlink', 'reflink', 'auto'],
+    },
     fileHash: {
       type: String,
     },
     fileSize: {
       type: Number,
     },
+    fileModifiedAt: {
+      type: Date,
+    },
+    similarity: {
+      type: Number,
+    },
   },
   { _id: false }
 );
@@ -81,6 +123,7 @@ const TransactionSummarySchema = new Schema<ITransactionSummary>(
   {
     movedCount: { type: Number, default: 0 },
     deletedCount: { type: Number, default: 0 },
+    linkedCount: { type: Number, default: 0 },
     restoredCount: { type: Number, default: 0 },
     failedCount: { type: Number, default: 0 },
     savedBytes: { type: Number, default: 0 },
@@ -103,7 +146,7 @@ const TransactionSchema = new Schema<ITransaction>(
     },
     type: {
       type: String,
-      enum: ['organize', 'dedupe', 'rollback'],
+      enum: ['organize', 'dedupe', 'cleanup', 'rollback'],
       required: true,
     },
     status: {
@@ -120,6 +163,7 @@ const TransactionSchema = new Schema<ITransaction>(
       default: () => ({
         movedCount: 0,
         deletedCount: 0,
+        linkedCount: 0,
         restoredCount: 0,
         failedCount: 0,
         savedBytes: 0,
@@ -137,6 +181,9 @@ const TransactionSchema = new Schema<ITransaction>(
     strategy: {
       type: String,
     },
+    collisionPolicy: {
+      type: String,
+    },
     completedAt: {
       type: Date,
     },
@@ -146,6 +193,9 @@ const TransactionSchema = new Schema<ITransaction>(
     rollbackTransactionId: {
       type: String,
     },
+    appliedTransactionId: {
+      type: String,
+    },
   },
   {
     timestamps: true,
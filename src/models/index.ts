@@ -1,6 +1,6 @@
 export { Scan } from './Scan';
-export type { IScan } from './Scan';
+export type { IScan, IScanChanges } from './Scan';
 export { FileRecord } from './FileRecord';
 export type { IFileRecord } from './FileRecord';
 export { Transaction } from './Transaction';
-export type { ITransaction, ITransactionAction, ITransactionSummary, TransactionType, ActionStatus } from './Transaction';
+export type { ITransaction, ITransactionAction, ITransactionSummary, TransactionType, ActionStatus, ActionCollision } from './Transaction';
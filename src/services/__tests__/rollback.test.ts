@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../../config/env';
+import { Transaction, ITransaction, ITransactionAction } from '../../models';
+import { safeMove } from '../../utils/fsSafe';
+import { RollbackService } from '../rollback';
+
+let root: string;
+let originalTrashPath: string;
+let saved: ITransaction[];
+
+function write(relativePath: string, content: string): string {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function read(filePath: string): string {
+  return fs.readFileSync(filePath, 'utf8');
+}
+
+// Stand in for a stored transaction whose actions were all applied
+function mockStoredTransaction(actions: Array<Partial<ITransactionAction>>): { status: string; save: jest.Mock } {
+  const stored = {
+    transactionId: 'tx1',
+    type: 'organize',
+    status: 'completed',
+    dryRun: false,
+    targetPath: root,
+    actions: actions.map((action, index) => ({ actionId: `a${index}`, status: 'completed', ...action })),
+    save: jest.fn().mockResolvedValue(undefined),
+  };
+  jest.spyOn(Transaction, 'findOne').mockResolvedValue(stored as any);
+  return stored;
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'deskpilot-rollback-'));
+  originalTrashPath = env.trashPath;
+  env.trashPath = path.join(root, '.trash');
+  saved = [];
+  jest.spyOn(Transaction.prototype, 'save').mockImplementation(function (this: ITransaction) {
+    saved.push(this);
+    return Promise.resolve(this);
+  });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  env.trashPath = originalTrashPath;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('RollbackService', () => {
+  it('moves files back and marks the transaction rolled back', async () => {
+    const from = path.join(root, 'a.txt');
+    const to = write('Documents/a.txt', 'moved');
+    const stored = mockStoredTransaction([{ type: 'move', from, to }]);
+
+    const result = await new RollbackService().rollback('tx1');
+
+    expect(result.summary).toMatchObject({ totalActions: 1, restoredCount: 1, failedCount: 0 });
+    expect(read(from)).toBe('moved');
+    expect(fs.existsSync(to)).toBe(false);
+    expect(stored.status).toBe('rolled_back');
+    expect(stored.save).toHaveBeenCalled();
+    expect(saved[0].actions[0]).toMatchObject({ type: 'restore', from: to, to: from, status: 'completed' });
+  });
+
+  it('puts back the file an overwriting move replaced', async () => {
+    const from = write('a.txt', 'moved');
+    const to = write('Documents/a.txt', 'replaced');
+    const moved = await safeMove(from, to, 'overwrite');
+    mockStoredTransaction([{ type: 'move', from, to, collision: 'overwritten', replacedPath: moved.replacedPath }]);
+
+    const result = await new RollbackService().rollback('tx1');
+
+    expect(result.summary.restoredCount).toBe(1);
+    expect(read(from)).toBe('moved');
+    expect(read(to)).toBe('replaced');
+    expect(fs.existsSync(moved.replacedPath!)).toBe(false);
+  });
+
+  it('skips moves whose original location is taken, unless told how to resolve it', async () => {
+    const from = write('a.txt', 'newcomer');
+    const to = write('Documents/a.txt', 'moved');
+    mockStoredTransaction([{ type: 'move', from, to }]);
+
+    const skipped = await new RollbackService().rollback('tx1');
+    expect(skipped.summary.skippedCount).toBe(1);
+    expect(read(to)).toBe('moved');
+
+    mockStoredTransaction([{ type: 'move', from, to }]);
+    const overwritten = await new RollbackService().rollback('tx1', { collisionPolicy: 'overwrite' });
+    expect(overwritten.details[0]).toMatchObject({ status: 'restored', collision: 'overwritten' });
+    expect(read(from)).toBe('moved');
+    // The newcomer went to the trash and is recorded so this rollback can be undone too
+    const replacedPath = saved[saved.length - 1].actions[0].replacedPath!;
+    expect(read(replacedPath)).toBe('newcomer');
+  });
+
+  it('restores deleted files from the trash', async () => {
+    const from = path.join(root, 'a.txt');
+    const to = write('.trash/123_a.txt', 'deleted');
+    mockStoredTransaction([{ type: 'delete', from, to }]);
+
+    const result = await new RollbackService().rollback('tx1');
+
+    expect(result.summary.restoredCount).toBe(1);
+    expect(read(from)).toBe('deleted');
+  });
+
+  it('turns links back into independent files', async () => {
+    const kept = write('a.txt', 'content');
+    const linked = path.join(root, 'b.txt');
+    fs.linkSync(kept, linked);
+    mockStoredTransaction([
+      { type: 'link', from: linked, to: kept, linkMode: 'hardlink' },
+      { type: 'link', from: path.join(root, 'gone.txt'), to: kept, linkMode: 'hardlink' },
+    ]);
+
+    const result = await new RollbackService().rollback('tx1');
+
+    expect(result.summary).toMatchObject({ restoredCount: 1, skippedCount: 1 });
+    expect(result.details.map(d => d.status)).toEqual(['skipped', 'restored']);
+    expect(fs.statSync(linked).ino).not.toBe(fs.statSync(kept).ino);
+    expect(read(linked)).toBe('content');
+    expect(read(kept)).toBe('content');
+    // Links are undone in place
+    expect(saved[0].actions[1]).toMatchObject({ from: linked, to: linked });
+  });
+
+  it('refuses dry runs and transactions that were already rolled back', async () => {
+    jest.spyOn(Transaction, 'findOne').mockResolvedValue({ status: 'completed', dryRun: true } as any);
+    await expect(new RollbackService().rollback('tx1')).rejects.toThrow('Cannot rollback a dry-run transaction: tx1');
+
+    jest.spyOn(Transaction, 'findOne').mockResolvedValue({ status: 'rolled_back', dryRun: false } as any);
+    await expect(new RollbackService().rollback('tx1')).rejects.toThrow('Transaction has already been rolled back: tx1');
+
+    jest.spyOn(Transaction, 'findOne').mockResolvedValue(null);
+    await expect(new RollbackService().rollback('tx1')).rejects.toThrow('Transaction not found: tx1');
+  });
+});
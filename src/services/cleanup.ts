@@ -0,0 +1,287 @@
+import * as path from 'path';
+import { Transaction, ITransactionAction } from '../models';
+import {
+  logger,
+  getAllFiles,
+  getFileInfo,
+  formatBytes,
+  formatDuration,
+  generateId,
+  generateShortId,
+  directoryExists,
+  ensureDirectory,
+  safeDelete,
+  safeMove,
+  isIncompleteFile,
+  WalkOptions,
+} from '../utils';
+import { env } from '../config';
+
+// Partial downloads younger than this may still be in progress
+export const DEFAULT_CLEANUP_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * What happens to the selected files:
+ * - trash: move them to the DeskPilot trash
+ * - archive: move them into an archive folder, keeping their relative paths
+ */
+export type CleanupAction = 'trash' | 'archive';
+
+export const CLEANUP_ACTIONS: CleanupAction[] = ['trash', 'archive'];
+
+// Archive folder inside the cleaned-up folder when none is given
+export const DEFAULT_ARCHIVE_FOLDER = 'Archive';
+
+export interface CleanupOptions extends WalkOptions {
+  // Select unfinished downloads (.crdownload, .part, ...) and empty files
+  incomplete?: boolean;
+  // Only files left untouched for at least this many milliseconds (default: 7 days)
+  olderThan?: number;
+  dryRun?: boolean;
+}
+
+export interface CleanupFilesOptions {
+  action?: CleanupAction;
+  // Where archived files go; defaults to an Archive folder inside the target
+  archivePath?: string;
+  // Age the files were selected by, recorded on the result
+  olderThan?: number;
+  dryRun?: boolean;
+}
+
+/**
+ * A file selected for cleanup, as found when the folder was read
+ */
+export interface CleanupCandidate {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+  untouchedMs: number;
+}
+
+export interface CleanupFile extends CleanupCandidate {
+  // Set for archived files: where the file goes
+  archivedTo?: string;
+  status: 'pending' | 'completed' | 'skipped' | 'failed';
+  error?: string;
+}
+
+export interface CleanupResult {
+  transactionId: string;
+  targetPath: string;
+  dryRun: boolean;
+  action: CleanupAction;
+  archivePath?: string;
+  olderThan: number;
+  files: CleanupFile[];
+  summary: {
+    totalFiles: number;
+    deletedCount: number;
+    archivedCount: number;
+    skippedCount: number;
+    failedCount: number;
+    savedBytes: number;
+  };
+}
+
+export class CleanupService {
+  private onProgress?: (current: number, total: number, file: string) => void;
+
+  constructor(onProgress?: (current: number, total: number, file: string) => void) {
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Move stale incomplete downloads and empty files to the trash. Every
+   * removal is recorded in a transaction, so a cleanup can be rolled back.
+   */
+  async cleanup(dirPath: string, options: CleanupOptions = {}): Promise<CleanupResult> {
+    const { incomplete = false, olderThan = DEFAULT_CLEANUP_AGE, dryRun = false, ...walkOptions } = options;
+
+    if (!incomplete) {
+      throw new Error('Nothing to clean up: choose what to remove, e.g. incomplete downloads');
+    }
+    if (!Number.isFinite(olderThan) || olderThan < 0) {
+      throw new Error('Age must be a positive duration');
+    }
+    if (!directoryExists(dirPath)) {
+      throw new Error(`Directory does not exist: ${dirPath}`);
+    }
+
+    logger.info(`Starting cleanup: ${dirPath} (older than: ${formatDuration(olderThan)}, dry-run: ${dryRun})`);
+
+    // Non-recursive by default, like organize
+    const filePaths = await getAllFiles(dirPath, {
+      ...walkOptions,
+      recursive: walkOptions.recursive ?? false,
+    });
+
+    const now = Date.now();
+    const candidates: CleanupCandidate[] = [];
+    for (const filePath of filePaths) {
+      const info = getFileInfo(filePath);
+      if (!info || !info.isFile || !isIncompleteFile(filePath, info.size)) continue;
+
+      const untouchedMs = now - info.modifiedAt.getTime();
+      if (untouchedMs < olderThan) continue;
+
+      candidates.push({ path: filePath, size: info.size, modifiedAt: info.modifiedAt, untouchedMs });
+    }
+    candidates.sort((a, b) => b.untouchedMs - a.untouchedMs);
+
+    logger.info(`Found ${candidates.length} stale incomplete files`);
+
+    return this.cleanupFiles(dirPath, candidates, { action: 'trash', olderThan, dryRun });
+  }
+
+  /**
+   * Trash or archive files chosen elsewhere, such as a stale file report, as
+   * one transaction. Files that changed since they were chosen are skipped.
+   */
+  async cleanupFiles(dirPath: string, candidates: CleanupCandidate[], options: CleanupFilesOptions = {}): Promise<CleanupResult> {
+    const { action = 'trash', olderThan = 0, dryRun = false } = options;
+    const archivePath = action === 'archive'
+      ? path.resolve(options.archivePath ?? path.join(dirPath, DEFAULT_ARCHIVE_FOLDER))
+      : undefined;
+
+    if (!CLEANUP_ACTIONS.includes(action)) {
+      throw new Error(`Cleanup action must be one of: ${CLEANUP_ACTIONS.join(', ')}`);
+    }
+
+    // Files already in the archive stay there
+    const files: CleanupFile[] = candidates
+      .filter(candidate => !archivePath || !this.isInside(candidate.path, archivePath))
+      .map(candidate => ({
+        ...candidate,
+        archivedTo: archivePath ? path.join(archivePath, path.relative(dirPath, candidate.path)) : undefined,
+        status: 'pending',
+      }));
+
+    const transactionId = generateId();
+    logger.info(`Cleaning up ${files.length} files in ${dirPath} (ID: ${transactionId}, action: ${action}, dry-run: ${dryRun})`);
+
+    const actions: ITransactionAction[] = files.map(file => ({
+      actionId: generateShortId(),
+      type: file.archivedTo ? 'move' : 'delete',
+      from: file.path,
+      to: file.archivedTo ?? path.join(env.trashPath, path.basename(file.path)),
+      status: 'pending',
+      fileSize: file.size,
+      fileModifiedAt: file.modifiedAt,
+    }));
+
+    let deletedCount = 0;
+    let archivedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+    let savedBytes = 0;
+
+    if (!dryRun) {
+      if (archivePath && files.length > 0) {
+        ensureDirectory(archivePath);
+      }
+
+      for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+
+        if (this.onProgress) {
+          this.onProgress(i + 1, files.length, path.basename(file.path));
+        }
+
+        // A download that resumed, or a file edited since it was chosen, is no longer stale
+        const current = getFileInfo(file.path);
+        if (current && (current.size !== file.size || current.modifiedAt.getTime() !== file.modifiedAt.getTime())) {
+          skippedCount++;
+          file.status = actions[i].status = 'skipped';
+          file.error = actions[i].error = 'File changed since the cleanup started';
+          continue;
+        }
+
+        try {
+          if (file.archivedTo) {
+            const result = await safeMove(file.path, file.archivedTo, 'rename');
+            if (result.success) {
+              archivedCount++;
+              file.status = actions[i].status = 'completed';
+              file.archivedTo = actions[i].to = result.to;
+              actions[i].collision = result.collision;
+            } else {
+              failedCount++;
+              file.status = actions[i].status = 'failed';
+              file.error = actions[i].error = result.error;
+            }
+          } else {
+            const result = await safeDelete(file.path);
+            if (result.success) {
+              deletedCount++;
+              savedBytes += file.size;
+              file.status = actions[i].status = 'completed';
+              actions[i].to = result.trashPath ?? actions[i].to;
+            } else {
+              failedCount++;
+              file.status = actions[i].status = 'failed';
+              file.error = actions[i].error = result.error;
+            }
+          }
+        } catch (error: any) {
+          failedCount++;
+          file.status = actions[i].status = 'failed';
+          file.error = actions[i].error = error.message;
+        }
+      }
+    }
+
+    const transaction = new Transaction({
+      transactionId,
+      type: 'cleanup',
+      status: dryRun ? 'pending' : (failedCount === 0 ? 'completed' : 'partially_completed'),
+      actions,
+      summary: {
+        movedCount: archivedCount,
+        deletedCount,
+        linkedCount: 0,
+        restoredCount: 0,
+        failedCount,
+        savedBytes,
+        totalProcessed: files.length,
+      },
+      targetPath: dirPath,
+      dryRun,
+      completedAt: dryRun ? undefined : new Date(),
+    });
+    await transaction.save();
+
+    if (dryRun) {
+      logger.info(`Dry run completed: ${files.length} files would be ${action === 'archive' ? 'archived' : 'moved to trash'}`);
+    } else if (action === 'archive') {
+      logger.success(`Cleanup completed: ${archivedCount} files archived to ${archivePath}, ${skippedCount} skipped, ${failedCount} failed`);
+    } else {
+      logger.success(`Cleanup completed: ${deletedCount} files moved to trash (${formatBytes(savedBytes)}), ${skippedCount} skipped, ${failedCount} failed`);
+    }
+
+    return {
+      transactionId,
+      targetPath: dirPath,
+      dryRun,
+      action,
+      archivePath,
+      olderThan,
+      files,
+      summary: {
+        totalFiles: files.length,
+        deletedCount,
+        archivedCount,
+        skippedCount,
+        failedCount,
+        savedBytes,
+      },
+    };
+  }
+
+  private isInside(filePath: string, dirPath: string): boolean {
+    const relative = path.relative(dirPath, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
+
+export default CleanupService;
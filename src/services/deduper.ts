@@ -1,26 +1,139 @@
 import * as path from 'path';
-import { Transaction, ITransaction, ITransactionAction, FileRecord } from '../models';
+import { Transaction, ITransaction, ITransactionAction, FileRecord, IFileRecord, Scan } from '../models';
 import {
   logger,
-  calculateFileHash,
-  getAllFiles,
-  getFileInfo,
+  findDuplicateSets,
+  collapseHardLinks,
+  reclaimableSize,
+  walkFiles,
   formatBytes,
   generateId,
   generateShortId,
   directoryExists,
   safeDelete,
   safeMove,
+  replaceWithLink,
+  LinkMode,
   ensureDirectory,
+  stripCopySuffix,
+  statFileInfo,
+  calculateFileHash,
+  compareFiles,
+  computeDirectoryHashes,
+  findDuplicateDirectories,
+  compareDirectories,
+  calculateMinHash,
+  estimateSimilarity,
+  clusterBySimilarity,
+  runWithConcurrency,
+  TEXT_SIMILARITY_EXTENSIONS,
+  WalkOptions,
 } from '../utils';
-import { env } from '../config';
+import { env, getUserConfig } from '../config';
+import type { HardLinkGroup } from './scanner';
+
+export type DedupeStrategy =
+  | 'keep-latest'
+  | 'keep-oldest'
+  | 'keep-largest'
+  | 'keep-preferred-path'
+  | 'keep-shortest-path'
+  | 'keep-shortest-name'
+  | 'keep-cleanest-name'
+  | 'keep-shallowest';
+
+export const DEDUPE_STRATEGIES: DedupeStrategy[] = [
+  'keep-latest',
+  'keep-oldest',
+  'keep-largest',
+  'keep-preferred-path',
+  'keep-shortest-path',
+  'keep-shortest-name',
+  'keep-cleanest-name',
+  'keep-shallowest',
+];
+
+/**
+ * Parse a strategy chain such as "keep-preferred-path,keep-oldest"; later
+ * strategies break ties left by earlier ones
+ */
+export function parseDedupeStrategies(value: string | string[]): DedupeStrategy[] {
+  const names = (Array.isArray(value) ? value : value.split(','))
+    .map(name => String(name).trim())
+    .filter(Boolean);
+
+  if (names.length === 0) {
+    throw new Error('At least one strategy is required');
+  }
 
-export type DedupeStrategy = 'keep-latest' | 'keep-oldest' | 'keep-largest';
+  for (const name of names) {
+    if (!DEDUPE_STRATEGIES.includes(name as DedupeStrategy)) {
+      throw new Error(`Unknown strategy "${name}". Valid strategies: ${DEDUPE_STRATEGIES.join(', ')}`);
+    }
+  }
 
-export interface DedupeOptions {
+  return names as DedupeStrategy[];
+}
+
+function isInside(filePath: string, dirPath: string): boolean {
+  const relative = path.relative(dirPath, filePath);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+type DedupeCandidate = {
+  path: string;
+  size: number;
+  createdAt: Date;
+  modifiedAt: Date;
+  device: string;
+  inode: string;
+  nlink: number;
+  partialHash?: string;
+  hash?: string;
+  // Set for files in a reference library, which are never removed
+  isReference?: boolean;
+  // Set for a whole folder, removed as a single action
+  isDirectory?: boolean;
+  // MinHash signature, for text files compared as versions of a document
+  minHash?: string;
+};
+
+// Stored file record as read back to reuse its hashes
+type StoredHashRecord = Pick<IFileRecord, 'filePath' | 'partialHash' | 'hash' | 'size' | 'fileModifiedAt'>;
+
+// Stored file record of a duplicate group from a scan
+type StoredDuplicateRecord = Pick<IFileRecord, 'filePath' | 'duplicateOf' | 'hash' | 'size' | 'fileModifiedAt'>;
+
+type FileComparator = (
+  a: { path: string; size: number; createdAt: Date; modifiedAt: Date },
+  b: { path: string; size: number; createdAt: Date; modifiedAt: Date }
+) => number;
+
+export interface DedupeOptions extends WalkOptions {
   dryRun?: boolean;
-  strategy?: DedupeStrategy;
+  // One strategy or a chain of them, applied in order
+  strategy?: DedupeStrategy | DedupeStrategy[];
+  // Folders for keep-preferred-path, best first; defaults to preferredPaths in the config file
+  preferredPaths?: string[];
   moveToTrash?: boolean;
+  // Replace duplicates with links to the kept file instead of removing them
+  link?: LinkMode;
+  // Reference folders: only files with a copy in them are removed, and nothing in them is touched
+  against?: string[];
+  // Build duplicate groups from a stored scan instead of walking and hashing again
+  scanId?: string;
+  // Compare every duplicate byte for byte with the kept copy before removing it,
+  // instead of re-hashing only files whose size or mtime changed
+  paranoid?: boolean;
+  // Also find identical folders and trash each redundant one as a single action
+  directories?: boolean;
+  // Also group text files at least this similar (0 to 1) as versions of one
+  // document and keep the newest; needs a dry run or review
+  similarDocuments?: number;
+  concurrency?: number;
+  // Called for each duplicate group before anything is removed, with the strategy's
+  // choice marked as kept; returns the path to keep, or null to leave the group alone
+  review?: (group: DuplicateInfo, index: number, total: number) => Promise<string | null>;
 }
 
 export interface DuplicateInfo {
@@ -31,20 +144,46 @@ export interface DuplicateInfo {
     createdAt: Date;
     modifiedAt: Date;
     isKept: boolean;
+    // Set for the copy in a reference library
+    isReference?: boolean;
   }[];
   wastedSize: number;
+  // Set when the group is made of whole folders
+  isDirectory?: boolean;
+  // Set for likely versions of one document: lowest estimated similarity to the kept file
+  similarity?: number;
+  // Set when review left the group untouched
+  skipped?: boolean;
 }
 
 export interface DedupeResult {
   transactionId: string;
   targetPath: string;
   dryRun: boolean;
-  strategy: DedupeStrategy;
+  strategy: DedupeStrategy[];
+  // Set when duplicates are replaced by links instead of removed
+  link?: LinkMode;
+  // Reference folders the target was compared against
+  against?: string[];
+  // How reference files were hashed: reused from earlier scans or read now
+  referenceStats?: {
+    filesCompared: number;
+    hashesReused: number;
+  };
+  // Scan the duplicate groups were read from
+  scanId?: string;
+  // Files left out because they changed or disappeared since that scan
+  staleFiles?: number;
   duplicates: DuplicateInfo[];
+  hardLinkGroups: HardLinkGroup[];
   summary: {
     totalDuplicateGroups: number;
     totalDuplicateFiles: number;
+    skippedGroups: number;
+    // Groups left untouched because a copy changed between hashing and removal
+    driftedGroups: number;
     deletedCount: number;
+    linkedCount: number;
     failedCount: number;
     savedBytes: number;
   };
@@ -64,7 +203,17 @@ export class DedupeService {
     const { 
       dryRun = false, 
       strategy = 'keep-latest',
-      moveToTrash = true 
+      preferredPaths = getUserConfig().preferredPaths,
+      moveToTrash = true,
+      link,
+      against = [],
+      scanId,
+      paranoid = false,
+      directories = false,
+      similarDocuments,
+      concurrency,
+      review,
+      ...walkOptions
     } = options;
 
     // Validate directory
@@ -72,133 +221,288 @@ export class DedupeService {
       throw new Error(`Directory does not exist: ${dirPath}`);
     }
 
-    const transactionId = generateId();
-    logger.info(`Starting dedupe: ${dirPath} (ID: ${transactionId}, strategy: ${strategy}, dry-run: ${dryRun})`);
-
-    // Get all files and calculate hashes
-    const filePaths = await getAllFiles(dirPath, true);
-    const totalFiles = filePaths.length;
-    
-    logger.info(`Found ${totalFiles} files to analyze`);
-
-    // Build hash map
-    const hashMap: Map<string, Array<{
-      path: string;
-      size: number;
-      createdAt: Date;
-      modifiedAt: Date;
-    }>> = new Map();
-
-    for (let i = 0; i < filePaths.length; i++) {
-      const filePath = filePaths[i];
-      
-      if (this.onProgress) {
-        this.onProgress(i + 1, totalFiles, path.basename(filePath));
+    const referenceDirs = against.map(dir => path.resolve(dir));
+    for (const dir of referenceDirs) {
+      if (!directoryExists(dir)) {
+        throw new Error(`Reference directory does not exist: ${dir}`);
+      }
+      if (path.resolve(dirPath) === dir || isInside(path.resolve(dirPath), dir)) {
+        throw new Error(`Reference directory cannot contain the directory being deduplicated: ${dir}`);
+      }
+    }
+    if (scanId && referenceDirs.length > 0) {
+      throw new Error('A stored scan cannot be combined with reference folders');
+    }
+    if (directories && (link || scanId || referenceDirs.length > 0)) {
+      throw new Error('Duplicate folders cannot be combined with links, stored scans or reference folders');
+    }
+    if (similarDocuments !== undefined) {
+      if (!(similarDocuments > 0 && similarDocuments <= 1)) {
+        throw new Error('Document similarity must be a number above 0 and at most 1');
+      }
+      if (link || scanId || referenceDirs.length > 0) {
+        throw new Error('Similar documents cannot be combined with links, stored scans or reference folders');
       }
+      // Versions differ in content, so the newest is never assumed to cover them unseen
+      if (!dryRun && !review) {
+        throw new Error('Similar documents are only removed after review: use a dry run and apply its plan, or review each group');
+      }
+    }
+    if (referenceDirs.length > 0 && link && link !== 'reflink') {
+      // A hard link would let later edits to the duplicate change the library file
+      throw new Error('Only reflinks can be used with a reference library, so its files stay independent');
+    }
 
-      try {
-        const fileInfo = getFileInfo(filePath);
-        if (!fileInfo || !fileInfo.isFile) continue;
+    const strategies = Array.isArray(strategy) ? strategy : [strategy];
+    if (strategies.includes('keep-preferred-path') && preferredPaths.length === 0) {
+      // Without preferred folders every copy ranks the same, so the next strategy decides
+      if (strategies.every(s => s === 'keep-preferred-path')) {
+        throw new Error('The keep-preferred-path strategy needs at least one preferred path');
+      }
+      logger.warn('No preferred paths configured: keep-preferred-path falls through to the next strategy');
+    }
+    const compare = this.getComparator(strategies, preferredPaths);
 
-        const hash = await calculateFileHash(filePath);
+    const transactionId = generateId();
+    logger.info(`Starting dedupe: ${dirPath} (ID: ${transactionId}, strategy: ${strategies.join(' > ')}, dry-run: ${dryRun})`);
+
+    // Collect file metadata
+    const candidates: DedupeCandidate[] = [];
+    let scanGroups: DedupeCandidate[][] = [];
+    let staleFiles: number | undefined;
+
+    if (scanId) {
+      const loaded = await this.loadScanGroups(scanId, path.resolve(dirPath));
+      scanGroups = loaded.groups;
+      staleFiles = loaded.staleFiles;
+      candidates.push(...scanGroups.flat());
+    } else {
+      for await (const fileInfo of walkFiles(dirPath, { recursive: true, ...walkOptions })) {
+        // A reference library inside the target is only ever compared against
+        if (referenceDirs.some(dir => isInside(fileInfo.path, dir))) continue;
 
-        if (!hashMap.has(hash)) {
-          hashMap.set(hash, []);
-        }
-        
-        hashMap.get(hash)!.push({
-          path: filePath,
+        candidates.push({
+          path: fileInfo.path,
           size: fileInfo.size,
           createdAt: fileInfo.createdAt,
           modifiedAt: fileInfo.modifiedAt,
+          device: fileInfo.device,
+          inode: fileInfo.inode,
+          nlink: fileInfo.nlink,
         });
-      } catch (error) {
-        logger.warn(`Error processing file: ${filePath}`, error);
       }
     }
 
+    logger.info(`Found ${candidates.length} files to analyze`);
+
+    // Paths sharing an inode are one file on disk: removing either frees nothing
+    const { unique, linkGroups } = collapseHardLinks(candidates);
+    const hardLinkGroups: HardLinkGroup[] = linkGroups.map(group => ({
+      device: group[0].device,
+      inode: group[0].inode,
+      size: group[0].size,
+      files: group.map(f => f.path),
+    }));
+
+    let groups: DedupeCandidate[][];
+    let referenceStats: DedupeResult['referenceStats'];
+
+    if (scanId) {
+      // Groups are already known from the scan; only drop extra paths to the same inode
+      const kept = new Set(unique);
+      groups = scanGroups
+        .map(group => group.filter(f => kept.has(f)))
+        .filter(group => group.length > 1);
+    } else if (referenceDirs.length > 0) {
+      const matched = await this.findReferenceMatches(unique, referenceDirs, { ...walkOptions, concurrency });
+      groups = matched.groups;
+      referenceStats = matched.stats;
+    } else {
+      // Hash only files that share a size, then a partial hash
+      const { groups: found, stats } = await findDuplicateSets(unique, { concurrency, onProgress: this.onProgress });
+      logger.debug(`Dedupe read ${formatBytes(stats.bytesRead)} to compare ${candidates.length} files`);
+      groups = found;
+    }
+
+    // Identical folders come first, so files inside a removed folder are not handled again
+    if (directories) {
+      groups = [...await this.findDuplicateDirectoryGroups(dirPath, candidates, linkGroups), ...groups];
+    }
+    // Versions of a document come last, once exact copies are planned
+    const versionGroups = new Set<DedupeCandidate[]>();
+    if (similarDocuments !== undefined) {
+      for (const group of await this.findDocumentVersions(unique, similarDocuments, concurrency)) {
+        versionGroups.add(group);
+        groups.push(group);
+      }
+    }
+    const removedDirs: string[] = [];
+    const removedPaths = new Set<string>();
+
     // Find duplicates and determine which to keep
     const duplicates: DuplicateInfo[] = [];
     const actions: ITransactionAction[] = [];
+    // Each group's actions with the files they act on, verified together before running
+    const plannedGroups: Array<{
+      hash: string;
+      kept: DedupeCandidate;
+      toRemove: DedupeCandidate[];
+      actions: ITransactionAction[];
+      isVersionGroup: boolean;
+    }> = [];
+    // Every file seen, to trust hashes of unchanged files when checking folders
+    const knownFiles = new Map(candidates.map(f => [f.path, f]));
     let totalDuplicateFiles = 0;
+    let skippedGroups = 0;
     let savedBytes = 0;
 
-    for (const [hash, files] of hashMap.entries()) {
-      if (files.length <= 1) continue;
+    for (let g = 0; g < groups.length; g++) {
+      const files = groups[g].filter(f => !removedPaths.has(f.path) && !removedDirs.some(dir => isInside(f.path, dir)));
+      if (files.length < 2) continue;
+      const isVersionGroup = versionGroups.has(groups[g]);
+      // Versions of a document have no shared hash
+      const hash = isVersionGroup ? '' : files[0].hash!;
+
+      // Sort based on strategy; a reference copy always comes first, and the newest version
+      let sorted = isVersionGroup
+        ? [...files].sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime() || compare(a, b))
+        : [...files].sort((a, b) => Number(!!b.isReference) - Number(!!a.isReference) || compare(a, b));
+
+      // Let the reviewer override which copy is kept, or skip the group
+      if (review) {
+        const keepPath = await review(this.toDuplicateInfo(hash, sorted, sorted.slice(1).filter(f => !f.isReference), isVersionGroup), g, groups.length);
+        if (keepPath === null) {
+          skippedGroups++;
+          duplicates.push({ ...this.toDuplicateInfo(hash, sorted, [], isVersionGroup), skipped: true });
+          continue;
+        }
+
+        const chosen = sorted.find(f => f.path === keepPath);
+        if (!chosen) {
+          throw new Error(`Reviewed copy is not part of its duplicate group: ${keepPath}`);
+        }
+        sorted = [chosen, ...sorted.filter(f => f !== chosen)];
+      }
 
-      // Sort based on strategy
-      const sorted = this.sortByStrategy(files, strategy);
       const kept = sorted[0];
-      const toRemove = sorted.slice(1);
+      const toRemove = sorted.slice(1).filter(f => !f.isReference);
 
-      const duplicateInfo: DuplicateInfo = {
-        hash,
-        files: sorted.map((f, idx) => ({
-          ...f,
-          isKept: idx === 0,
-        })),
-        wastedSize: toRemove.reduce((sum, f) => sum + f.size, 0),
-      };
+      const duplicateInfo = this.toDuplicateInfo(hash, sorted, toRemove, isVersionGroup);
+      if (kept.isDirectory) {
+        removedDirs.push(...toRemove.map(f => f.path));
+      }
+      for (const file of toRemove) {
+        removedPaths.add(file.path);
+      }
 
       duplicates.push(duplicateInfo);
       totalDuplicateFiles += toRemove.length;
       savedBytes += duplicateInfo.wastedSize;
 
-      // Create actions for removal
-      for (const file of toRemove) {
-        actions.push({
-          actionId: generateShortId(),
-          type: 'delete',
-          from: file.path,
-          to: moveToTrash ? path.join(env.trashPath, path.basename(file.path)) : '',
-          status: 'pending',
-          fileHash: hash,
-          fileSize: file.size,
-        });
+      // A version's own hash lets a plan check it is still the file that was reviewed
+      if (isVersionGroup) {
+        for (const file of toRemove) {
+          file.hash ??= await calculateFileHash(file.path).catch(() => undefined);
+        }
       }
+
+      // Create actions for removal, or for linking to the kept file
+      const groupActions: ITransactionAction[] = toRemove.map(file => ({
+        actionId: generateShortId(),
+        type: link ? 'link' : 'delete',
+        from: file.path,
+        to: link ? kept.path : moveToTrash ? path.join(env.trashPath, path.basename(file.path)) : '',
+        status: 'pending',
+        keptPath: kept.path,
+        linkMode: link,
+        // A folder's hash is not a file hash and cannot be checked like one
+        fileHash: file.isDirectory ? undefined : isVersionGroup ? file.hash : hash,
+        fileSize: file.size,
+        similarity: isVersionGroup ? estimateSimilarity(kept.minHash!, file.minHash!) : undefined,
+      }));
+      actions.push(...groupActions);
+      plannedGroups.push({ hash, kept, toRemove, actions: groupActions, isVersionGroup });
     }
 
     // Execute if not dry run
     let deletedCount = 0;
+    let linkedCount = 0;
     let failedCount = 0;
+    let driftedGroups = 0;
 
     if (!dryRun && actions.length > 0) {
-      if (moveToTrash) {
+      if (moveToTrash && !link) {
         ensureDirectory(env.trashPath);
       }
 
-      for (let i = 0; i < actions.length; i++) {
-        const action = actions[i];
-        
-        if (this.onProgress) {
-          this.onProgress(i + 1, actions.length, path.basename(action.from));
+      let current = 0;
+      for (const group of plannedGroups) {
+        // Files may have changed since they were hashed; leave the whole group alone if so
+        const drift = await (group.kept.isDirectory
+          ? this.verifyDirectoryGroup(group.kept, group.toRemove, knownFiles, paranoid)
+          : group.isVersionGroup
+            ? this.verifyVersionGroup(group.kept, group.toRemove)
+            : this.verifyGroup(group.hash, group.kept, group.toRemove, paranoid))
+          .catch((error: any) => `files could not be read (${error.message})`);
+        if (drift) {
+          driftedGroups++;
+          for (const action of group.actions) {
+            failedCount++;
+            action.status = 'failed';
+            action.error = `Verification failed: ${drift}; group left untouched`;
+          }
+          current += group.actions.length;
+          logger.warn(`Skipped duplicate group of ${group.kept.path}: ${drift}`);
+          continue;
         }
 
-        try {
-          const result = await safeDelete(action.from, moveToTrash);
-          
-          if (result.success) {
-            deletedCount++;
-            actions[i].status = 'completed';
-            // Store the actual trash path for rollback
-            if (result.trashPath) {
-              actions[i].to = result.trashPath;
+        for (const action of group.actions) {
+          current++;
+          if (this.onProgress) {
+            this.onProgress(current, actions.length, path.basename(action.from));
+          }
+
+          try {
+            if (link) {
+              // Files that cannot be linked (e.g. on another device) are left untouched
+              const result = await replaceWithLink(action.from, action.to, link);
+              if (result.success) {
+                linkedCount++;
+                action.status = 'completed';
+                action.linkMode = result.linkType;
+              } else {
+                failedCount++;
+                action.status = 'failed';
+                action.error = `${result.error}; file left in place`;
+              }
+              continue;
             }
-          } else {
+
+            const result = await safeDelete(action.from, moveToTrash);
+
+            if (result.success) {
+              deletedCount++;
+              action.status = 'completed';
+              // Store the actual trash path for rollback
+              if (result.trashPath) {
+                action.to = result.trashPath;
+              }
+            } else {
+              failedCount++;
+              action.status = 'failed';
+              action.error = result.error;
+            }
+          } catch (error: any) {
             failedCount++;
-            actions[i].status = 'failed';
-            actions[i].error = result.error;
+            action.status = 'failed';
+            action.error = error.message;
           }
-        } catch (error: any) {
-          failedCount++;
-          actions[i].status = 'failed';
-          actions[i].error = error.message;
         }
       }
     }
 
     // Save transaction to database
-    const actualSavedBytes = dryRun ? 0 : (savedBytes * (deletedCount / (actions.length || 1)));
+    const actualSavedBytes = dryRun ? 0 : (savedBytes * ((deletedCount + linkedCount) / (actions.length || 1)));
     
     const transaction = new Transaction({
       transactionId,
@@ -208,6 +512,7 @@ export class DedupeService {
       summary: {
         movedCount: 0,
         deletedCount,
+        linkedCount,
         restoredCount: 0,
         failedCount,
         savedBytes: Math.round(actualSavedBytes),
@@ -215,7 +520,8 @@ export class DedupeService {
       },
       targetPath: dirPath,
       dryRun,
-      strategy,
+      strategy: strategies.join(','),
+      scanId,
       completedAt: dryRun ? undefined : new Date(),
     });
     await transaction.save();
@@ -224,12 +530,21 @@ export class DedupeService {
       transactionId,
       targetPath: dirPath,
       dryRun,
-      strategy,
+      strategy: strategies,
+      link,
+      against: referenceDirs.length > 0 ? referenceDirs : undefined,
+      referenceStats,
+      scanId,
+      staleFiles,
       duplicates,
+      hardLinkGroups,
       summary: {
         totalDuplicateGroups: duplicates.length,
         totalDuplicateFiles,
+        skippedGroups,
+        driftedGroups,
         deletedCount,
+        linkedCount,
         failedCount,
         savedBytes: dryRun ? savedBytes : Math.round(actualSavedBytes),
       },
@@ -238,37 +553,446 @@ export class DedupeService {
     if (dryRun) {
       logger.info(`Dry run completed: ${totalDuplicateFiles} duplicates found (${formatBytes(savedBytes)} can be saved)`);
     } else {
-      logger.success(`Dedupe completed: ${deletedCount} files removed, ${formatBytes(actualSavedBytes)} saved`);
+      logger.success(`Dedupe completed: ${link ? `${linkedCount} files linked` : `${deletedCount} files removed`}, ${formatBytes(actualSavedBytes)} saved`);
     }
 
     return result;
   }
 
   /**
-   * Sort files based on the deduplication strategy
+   * Check that a group is still what was hashed: the kept copy and every
+   * duplicate must exist with their recorded size. Files whose mtime moved are
+   * hashed again; in paranoid mode every duplicate is also compared byte for
+   * byte with the kept copy. Returns why the group drifted, or null.
    */
-  private sortByStrategy(
-    files: Array<{ path: string; size: number; createdAt: Date; modifiedAt: Date }>,
-    strategy: DedupeStrategy
-  ): typeof files {
-    const sorted = [...files];
+  private async verifyGroup(
+    hash: string,
+    kept: DedupeCandidate,
+    toRemove: DedupeCandidate[],
+    paranoid: boolean
+  ): Promise<string | null> {
+    for (const file of [kept, ...toRemove]) {
+      const label = file === kept ? 'kept copy' : 'duplicate';
+      const info = await statFileInfo(file.path);
+      if (!info || !info.isFile) {
+        return `${label} ${file.path} no longer exists`;
+      }
+      if (info.size !== file.size) {
+        return `${label} ${file.path} changed size since it was hashed`;
+      }
+      if (info.modifiedAt.getTime() !== file.modifiedAt.getTime() && await calculateFileHash(file.path) !== hash) {
+        return `${label} ${file.path} changed content since it was hashed`;
+      }
+    }
+
+    if (paranoid) {
+      for (const file of toRemove) {
+        if (!await compareFiles(file.path, kept.path)) {
+          return `${file.path} differs from the kept copy ${kept.path}`;
+        }
+      }
+    }
 
+    return null;
+  }
+
+  /**
+   * Check that every version of a document is still as it was reviewed. Their
+   * contents differ, so any change in size or mtime counts as drift.
+   */
+  private async verifyVersionGroup(kept: DedupeCandidate, toRemove: DedupeCandidate[]): Promise<string | null> {
+    for (const file of [kept, ...toRemove]) {
+      const label = file === kept ? 'kept version' : 'version';
+      const info = await statFileInfo(file.path);
+      if (!info || !info.isFile) {
+        return `${label} ${file.path} no longer exists`;
+      }
+      if (info.size !== file.size || info.modifiedAt.getTime() !== file.modifiedAt.getTime()) {
+        return `${label} ${file.path} changed since it was compared`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Group text files that are likely versions of the same document by the
+   * MinHash similarity of their word shingles. Exact copies stay in the
+   * clusters; any already planned for removal are left out when planning.
+   */
+  private async findDocumentVersions(
+    candidates: DedupeCandidate[],
+    threshold: number,
+    concurrency?: number
+  ): Promise<DedupeCandidate[][]> {
+    const textFiles = candidates.filter(f => TEXT_SIMILARITY_EXTENSIONS.includes(path.extname(f.path).toLowerCase()));
+
+    let current = 0;
+    await runWithConcurrency(textFiles, concurrency ?? env.hashConcurrency, async (file) => {
+      current++;
+      this.onProgress?.(current, textFiles.length, path.basename(file.path));
+      file.minHash = await calculateMinHash(file.path) ?? undefined;
+    });
+
+    const clusters = clusterBySimilarity(textFiles.filter(f => f.minHash), f => f.minHash!, threshold);
+
+    logger.info(`Found ${clusters.length} groups of likely document versions among ${textFiles.length} text files`);
+    return clusters;
+  }
+
+  /**
+   * Check that every folder to remove still matches the kept folder. The
+   * whole tree is compared, including hidden and excluded files, symlinks and
+   * empty folders. Files hashed earlier and unchanged since are trusted unless
+   * paranoid; everything else is compared byte for byte.
+   */
+  private async verifyDirectoryGroup(
+    kept: DedupeCandidate,
+    toRemove: DedupeCandidate[],
+    knownFiles: Map<string, DedupeCandidate>,
+    paranoid: boolean
+  ): Promise<string | null> {
+    const isUnchanged = async (file: DedupeCandidate | undefined) => {
+      const info = file ? await statFileInfo(file.path) : null;
+      return !!info && info.modifiedAt.getTime() === file!.modifiedAt.getTime();
+    };
+    const sameContent = async (fileA: string, fileB: string) => {
+      const a = knownFiles.get(fileA);
+      const b = knownFiles.get(fileB);
+      if (!paranoid && a?.hash && a.hash === b?.hash && await isUnchanged(a) && await isUnchanged(b)) {
+        return true;
+      }
+      return compareFiles(fileA, fileB);
+    };
+
+    if (!directoryExists(kept.path)) {
+      return `kept folder ${kept.path} no longer exists`;
+    }
+    for (const dir of toRemove) {
+      if (!directoryExists(dir.path)) {
+        return `folder ${dir.path} no longer exists`;
+      }
+      const difference = await compareDirectories(kept.path, dir.path, sameContent);
+      if (difference) {
+        return difference;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Turn identical folders under dirPath into duplicate groups of folder
+   * candidates, largest first. Hard links take their representative's hash.
+   */
+  private async findDuplicateDirectoryGroups(
+    dirPath: string,
+    candidates: DedupeCandidate[],
+    linkGroups: DedupeCandidate[][]
+  ): Promise<DedupeCandidate[][]> {
+    for (const [representative, ...links] of linkGroups) {
+      for (const file of links) {
+        file.hash = representative.hash;
+      }
+    }
+
+    const duplicateDirs = findDuplicateDirectories(computeDirectoryHashes(dirPath, candidates))
+      .sort((a, b) => b[0].size - a[0].size);
+
+    const groups: DedupeCandidate[][] = [];
+    for (const group of duplicateDirs) {
+      const dirs: DedupeCandidate[] = [];
+      for (const dir of group) {
+        const info = await statFileInfo(dir.path);
+        if (!info) continue;
+        dirs.push({
+          path: dir.path,
+          size: dir.size,
+          createdAt: info.createdAt,
+          modifiedAt: info.modifiedAt,
+          device: info.device,
+          inode: info.inode,
+          // Counted as one link so the folder's size is reported as reclaimable
+          nlink: 1,
+          hash: dir.hash,
+          isDirectory: true,
+        });
+      }
+      if (dirs.length > 1) {
+        groups.push(dirs);
+      }
+    }
+
+    logger.info(`Found ${groups.length} groups of identical folders`);
+    return groups;
+  }
+
+  /**
+   * Describe a duplicate group; every file not in toRemove is kept
+   */
+  private toDuplicateInfo(
+    hash: string,
+    files: DedupeCandidate[],
+    toRemove: DedupeCandidate[],
+    isVersionGroup: boolean = false
+  ): DuplicateInfo {
+    return {
+      hash,
+      files: files.map(f => ({
+        path: f.path,
+        size: f.size,
+        createdAt: f.createdAt,
+        modifiedAt: f.modifiedAt,
+        isKept: !toRemove.includes(f),
+        isReference: f.isReference,
+      })),
+      wastedSize: toRemove.reduce((sum, f) => sum + reclaimableSize(f), 0),
+      isDirectory: files[0].isDirectory,
+      similarity: isVersionGroup
+        ? Math.min(...files.slice(1).map(f => estimateSimilarity(files[0].minHash!, f.minHash!)))
+        : undefined,
+    };
+  }
+
+  /**
+   * Rebuild the duplicate groups a scan recorded under dirPath from their
+   * duplicateOf links. Nothing is hashed again: each file is only checked to
+   * still have the size and mtime it had when scanned, and changed or missing
+   * files are left out.
+   */
+  private async loadScanGroups(
+    scanId: string,
+    dirPath: string
+  ): Promise<{ groups: DedupeCandidate[][]; staleFiles: number }> {
+    const scan = await Scan.findOne({ scanId });
+    if (!scan) {
+      throw new Error(`Scan not found: ${scanId}`);
+    }
+    if (dirPath !== scan.scannedPath && !isInside(dirPath, scan.scannedPath)) {
+      throw new Error(`${dirPath} is not inside the scanned folder ${scan.scannedPath}`);
+    }
+
+    const inTarget = (filePath: string) => dirPath === scan.scannedPath || isInside(filePath, dirPath);
+    const originals: string[] = (await FileRecord.distinct('duplicateOf', { scanId, isDuplicate: true }))
+      .filter(Boolean);
+
+    const groups: DedupeCandidate[][] = [];
+    let staleFiles = 0;
+    const batchSize = 500;
+
+    for (let i = 0; i < originals.length; i += batchSize) {
+      const batch = originals.slice(i, i + batchSize);
+      const records = await FileRecord.find({
+        scanId,
+        $or: [{ filePath: { $in: batch } }, { duplicateOf: { $in: batch } }],
+      })
+        .select('filePath duplicateOf hash size fileModifiedAt')
+        .lean<StoredDuplicateRecord[]>();
+
+      const byOriginal: Map<string, StoredDuplicateRecord[]> = new Map();
+      for (const record of records) {
+        // A group may span folders; only the copies under dirPath take part
+        if (!inTarget(record.filePath)) continue;
+        const key = record.duplicateOf || record.filePath;
+        byOriginal.set(key, [...(byOriginal.get(key) ?? []), record]);
+      }
+
+      for (const groupRecords of byOriginal.values()) {
+        if (groupRecords.length < 2) continue;
+
+        const group: DedupeCandidate[] = [];
+        for (const record of groupRecords) {
+          const info = await statFileInfo(record.filePath);
+          const unchanged = info && info.isFile && record.hash && info.size === record.size
+            && record.fileModifiedAt && new Date(record.fileModifiedAt).getTime() === info.modifiedAt.getTime();
+          if (!info || !unchanged) {
+            staleFiles++;
+            continue;
+          }
+          group.push({
+            path: info.path,
+            size: info.size,
+            createdAt: info.createdAt,
+            modifiedAt: info.modifiedAt,
+            device: info.device,
+            inode: info.inode,
+            nlink: info.nlink,
+            hash: record.hash,
+          });
+        }
+
+        if (group.length > 1) {
+          groups.push(group);
+        }
+      }
+    }
+
+    if (staleFiles > 0) {
+      logger.warn(`${staleFiles} files changed or disappeared since scan ${scanId} and were left out`);
+    }
+
+    return { groups, staleFiles };
+  }
+
+  /**
+   * Match target files against reference folders. Only sizes found on both
+   * sides are hashed, and reference hashes are reused from the latest scan
+   * covering each folder when the file's size and mtime are unchanged.
+   * Returns groups of one reference file followed by its target copies.
+   */
+  private async findReferenceMatches(
+    targets: DedupeCandidate[],
+    referenceDirs: string[],
+    options: WalkOptions & { concurrency?: number }
+  ): Promise<{ groups: DedupeCandidate[][]; stats: NonNullable<DedupeResult['referenceStats']> }> {
+    const { concurrency, ...walkOptions } = options;
+    const targetSizes = new Set(targets.map(f => f.size));
+    const seen = new Set<string>();
+    let hashesReused = 0;
+
+    const references: DedupeCandidate[] = [];
+    for (const dir of referenceDirs) {
+      const dirFiles: DedupeCandidate[] = [];
+      for await (const fileInfo of walkFiles(dir, { ...walkOptions, recursive: true })) {
+        if (!targetSizes.has(fileInfo.size) || seen.has(fileInfo.path)) continue;
+        seen.add(fileInfo.path);
+        dirFiles.push({
+          path: fileInfo.path,
+          size: fileInfo.size,
+          createdAt: fileInfo.createdAt,
+          modifiedAt: fileInfo.modifiedAt,
+          device: fileInfo.device,
+          inode: fileInfo.inode,
+          nlink: fileInfo.nlink,
+          isReference: true,
+        });
+      }
+      hashesReused += await this.reuseScanHashes(dir, dirFiles);
+      references.push(...dirFiles);
+    }
+
+    const referenceSizes = new Set(references.map(f => f.size));
+    const comparable = [...references, ...targets.filter(f => referenceSizes.has(f.size))];
+    logger.info(`Comparing against ${references.length} reference files (${hashesReused} hashes reused from earlier scans)`);
+
+    const { groups: found, stats } = await findDuplicateSets(comparable, { concurrency, onProgress: this.onProgress });
+    logger.debug(`Dedupe read ${formatBytes(stats.bytesRead)} to compare against the reference library`);
+
+    // Keep groups with copies on both sides, with a single reference copy each
+    const groups: DedupeCandidate[][] = [];
+    for (const group of found) {
+      const reference = group.find(f => f.isReference);
+      // A hard link to the reference file is the same data, so removing it frees nothing
+      const copies = reference
+        ? group.filter(f => !f.isReference && !(f.device === reference.device && f.inode === reference.inode))
+        : [];
+      if (reference && copies.length > 0) {
+        groups.push([reference, ...copies]);
+      }
+    }
+
+    return { groups, stats: { filesCompared: references.length, hashesReused } };
+  }
+
+  /**
+   * Fill in hashes from the most recent scan of a folder or one of its parents.
+   * Returns how many files got their hashes from the scan.
+   */
+  private async reuseScanHashes(dirPath: string, files: DedupeCandidate[]): Promise<number> {
+    const ancestors: string[] = [];
+    for (let dir = dirPath; ; dir = path.dirname(dir)) {
+      ancestors.push(dir);
+      if (path.dirname(dir) === dir) break;
+    }
+
+    const lastScan = await Scan.findOne({ scannedPath: { $in: ancestors } }).sort({ createdAt: -1 });
+    if (!lastScan) return 0;
+
+    let reused = 0;
+    const batchSize = 500;
+    for (let i = 0; i < files.length; i += batchSize) {
+      const batch = files.slice(i, i + batchSize);
+      const records = await FileRecord.find({
+        scanId: lastScan.scanId,
+        filePath: { $in: batch.map(f => f.path) },
+        hash: { $exists: true, $ne: null },
+      })
+        .select('filePath partialHash hash size fileModifiedAt')
+        .lean<StoredHashRecord[]>();
+
+      const byPath: Map<string, StoredHashRecord> = new Map(records.map(r => [r.filePath, r]));
+      for (const file of batch) {
+        const record = byPath.get(file.path);
+        // Only trust the stored hash when the file has not changed since
+        if (record && record.size === file.size && record.fileModifiedAt
+          && new Date(record.fileModifiedAt).getTime() === file.modifiedAt.getTime()) {
+          file.partialHash = record.partialHash || undefined;
+          file.hash = record.hash;
+          reused++;
+        }
+      }
+    }
+
+    return reused;
+  }
+
+  /**
+   * Build a comparator that puts the file to keep first: each strategy in the
+   * chain only decides when the ones before it tie
+   */
+  private getComparator(strategies: DedupeStrategy[], preferredPaths: string[]): FileComparator {
+    const comparators = strategies.map(strategy => this.getStrategyComparator(strategy, preferredPaths));
+
+    return (a, b) => {
+      for (const compare of comparators) {
+        const result = compare(a, b);
+        if (result !== 0) return result;
+      }
+      return 0;
+    };
+  }
+
+  /**
+   * Comparator for a single deduplication strategy
+   */
+  private getStrategyComparator(strategy: DedupeStrategy, preferredPaths: string[]): FileComparator {
     switch (strategy) {
       case 'keep-latest':
         // Keep the most recently modified file
-        sorted.sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
-        break;
+        return (a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime();
       case 'keep-oldest':
         // Keep the oldest file (original)
-        sorted.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-        break;
+        return (a, b) => a.createdAt.getTime() - b.createdAt.getTime();
       case 'keep-largest':
         // Keep the largest file (might have better quality)
-        sorted.sort((a, b) => b.size - a.size);
-        break;
+        return (a, b) => b.size - a.size;
+      case 'keep-preferred-path': {
+        // Keep the copy in the earliest listed folder; files outside all of them rank last
+        const rank = (filePath: string) => {
+          const index = preferredPaths.findIndex(dir => {
+            const relative = path.relative(path.resolve(dir), filePath);
+            return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+          });
+          return index === -1 ? preferredPaths.length : index;
+        };
+        return (a, b) => rank(a.path) - rank(b.path);
+      }
+      case 'keep-shortest-path':
+        return (a, b) => a.path.length - b.path.length;
+      case 'keep-shortest-name':
+        return (a, b) => path.basename(a.path).length - path.basename(b.path).length;
+      case 'keep-cleanest-name': {
+        // Prefer names without copy suffixes such as " (1)" or " - Copy"
+        const isCopy = (filePath: string) => {
+          const name = path.parse(filePath).name;
+          return stripCopySuffix(name) !== name ? 1 : 0;
+        };
+        return (a, b) => isCopy(a.path) - isCopy(b.path);
+      }
+      case 'keep-shallowest':
+        // Keep the copy with the fewest directory levels
+        return (a, b) => a.path.split(path.sep).length - b.path.split(path.sep).length;
     }
-
-    return sorted;
   }
 
   /**
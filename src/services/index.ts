@@ -1,10 +1,30 @@
 export { ScannerService } from './scanner';
-export type { ScanOptions, ScanResult, ScannedFile, DuplicateGroup } from './scanner';
-export { OrganizerService } from './organizer';
-export type { OrganizeOptions, OrganizePlan, OrganizeResult } from './organizer';
-export { DedupeService } from './deduper';
+export type { ScanOptions, ScanResult, ScanChanges, ScannedFile, DuplicateGroup, DirectoryDuplicateGroup, CopySiblingGroup, HardLinkGroup, TypeMismatch, IncompleteFile } from './scanner';
+export { OrganizerService, ORGANIZE_LAYOUTS } from './organizer';
+export type { OrganizeOptions, OrganizePlan, OrganizeResult, OrganizeLayout, CollapsedCopies } from './organizer';
+export { DedupeService, DEDUPE_STRATEGIES, parseDedupeStrategies } from './deduper';
 export type { DedupeOptions, DedupeStrategy, DuplicateInfo, DedupeResult } from './deduper';
+export { CleanupService, DEFAULT_CLEANUP_AGE, CLEANUP_ACTIONS, DEFAULT_ARCHIVE_FOLDER } from './cleanup';
+export type { CleanupOptions, CleanupFilesOptions, CleanupAction, CleanupCandidate, CleanupFile, CleanupResult } from './cleanup';
 export { RollbackService } from './rollback';
-export type { RollbackResult } from './rollback';
+export type { RollbackResult, RollbackOptions } from './rollback';
 export { ReporterService } from './reporter';
 export type { ReportData } from './reporter';
+export { InsightsService, DEFAULT_SIMILARITY_THRESHOLD, DEFAULT_STALE_AGE, STALE_BASES, STALE_SORT_KEYS } from './insights';
+export type {
+  InsightOptions,
+  SimilarImagesOptions,
+  SimilarImageGroup,
+  SimilarImagesResult,
+  SimilarDocumentsOptions,
+  DocumentCluster,
+  SimilarDocumentsResult,
+  StaleBasis,
+  StaleSortKey,
+  StaleFilesOptions,
+  StaleFile,
+  LargeFolder,
+  StaleFilesResult,
+} from './insights';
+export { PlanService } from './planner';
+export type { ApplyPlanOptions, ApplyPlanResult } from './planner';
@@ -0,0 +1,495 @@
+import * as path from 'path';
+import { Types } from 'mongoose';
+import { Scan, IScan, FileRecord, IFileRecord } from '../models';
+import { env } from '../config';
+import {
+  logger,
+  runWithConcurrency,
+  statFileInfo,
+  calculatePerceptualHash,
+  hammingDistance,
+  clusterByDistance,
+  PERCEPTUAL_HASH_TYPES,
+  calculateMinHash,
+  estimateSimilarity,
+  clusterBySimilarity,
+  TEXT_SIMILARITY_EXTENSIONS,
+  DEFAULT_TEXT_SIMILARITY,
+  walkFiles,
+  formatDuration,
+  resolveCategory,
+  getAllCategories,
+  directoryExists,
+  FileCategory,
+  WalkOptions,
+} from '../utils';
+
+export interface InsightOptions {
+  // Scan to read; defaults to the latest scan of the folder
+  scanId?: string;
+}
+
+export interface SimilarImagesOptions extends InsightOptions {
+  // Most differing bits (out of 64) for two images to count as similar
+  threshold?: number;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 10;
+
+export interface SimilarImageGroup {
+  files: Array<{
+    path: string;
+    size: number;
+    perceptualHash: string;
+    // Bits that differ from the first file in the group
+    distance: number;
+  }>;
+  // Largest distance between the first file and any other
+  maxDistance: number;
+}
+
+export interface SimilarImagesResult {
+  scanId: string;
+  scannedPath: string;
+  threshold: number;
+  imagesCompared: number;
+  // Images hashed now because the scan had no perceptual hash for them
+  hashesComputed: number;
+  // Images left out because their format is not decoded, by detected type (e.g. webp)
+  unsupportedImages: Record<string, number>;
+  groups: SimilarImageGroup[];
+}
+
+export interface SimilarDocumentsOptions extends InsightOptions {
+  concurrency?: number;
+  // Smallest estimated share of shared text (0 to 1) for two documents to match
+  threshold?: number;
+}
+
+export interface DocumentCluster {
+  // Newest first
+  files: Array<{
+    path: string;
+    size: number;
+    modifiedAt: Date;
+    // Estimated similarity to the newest file
+    similarity: number;
+  }>;
+  // Lowest similarity between the newest file and any other
+  similarity: number;
+}
+
+export interface SimilarDocumentsResult {
+  scanId: string;
+  scannedPath: string;
+  threshold: number;
+  documentsCompared: number;
+  // Documents fingerprinted now because the scan had no signature for them
+  signaturesComputed: number;
+  clusters: DocumentCluster[];
+}
+
+/**
+ * Which timestamp says a file is still in use:
+ * - modified: the last change to its content
+ * - accessed: the last read (atime), or the last change when that is later,
+ *   since many systems update atime rarely or not at all
+ */
+export type StaleBasis = 'modified' | 'accessed';
+
+export const STALE_BASES: StaleBasis[] = ['modified', 'accessed'];
+
+export type StaleSortKey = 'age' | 'size' | 'name';
+
+export const STALE_SORT_KEYS: StaleSortKey[] = ['age', 'size', 'name'];
+
+export const DEFAULT_STALE_AGE = 90 * 24 * 60 * 60 * 1000;
+
+export interface StaleFilesOptions extends WalkOptions {
+  // Files unused for at least this many milliseconds are stale (default: 90 days)
+  olderThan?: number;
+  basis?: StaleBasis;
+  // Order of the stale file list; the largest lists are always by size
+  sortBy?: StaleSortKey;
+  // Only files in these categories
+  categories?: FileCategory[];
+  // Length of the largest file and folder lists
+  top?: number;
+}
+
+export interface StaleFile {
+  path: string;
+  size: number;
+  category: FileCategory;
+  modifiedAt: Date;
+  accessedAt: Date;
+  // Time since the file was last used, by the chosen basis
+  idleMs: number;
+}
+
+export interface LargeFolder {
+  path: string;
+  // Total of the matching files anywhere below the folder
+  size: number;
+  fileCount: number;
+}
+
+export interface StaleFilesResult {
+  targetPath: string;
+  olderThan: number;
+  basis: StaleBasis;
+  sortBy: StaleSortKey;
+  categories?: FileCategory[];
+  filesChecked: number;
+  staleFiles: StaleFile[];
+  staleBytes: number;
+  largestFiles: StaleFile[];
+  largestFolders: LargeFolder[];
+}
+
+// Stored file records as read for the similarity reports
+interface ImageRecord extends Pick<IFileRecord, 'filePath' | 'size' | 'hash' | 'perceptualHash' | 'fileModifiedAt'> {
+  _id: Types.ObjectId;
+  // Always set: images are selected by detected type
+  detectedType: string;
+}
+
+interface DocumentRecord extends Pick<IFileRecord, 'filePath' | 'size' | 'hash' | 'minHash' | 'fileModifiedAt'> {
+  _id: Types.ObjectId;
+}
+
+type HashedImage = ImageRecord & { perceptualHash: string };
+type HashedDocument = DocumentRecord & { minHash: string };
+
+export class InsightsService {
+  private onProgress?: (current: number, total: number, file: string) => void;
+
+  constructor(onProgress?: (current: number, total: number, file: string) => void) {
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Group visually similar images from a stored scan. Missing perceptual
+   * hashes are computed and saved on the file records. Exact copies are
+   * reported by dedupe, so only one path per content hash takes part, and
+   * groups are returned for review only: nothing is removed. Only JPEG and
+   * PNG are decoded; other images are counted as unsupported.
+   */
+  async findSimilarImages(dirPath: string, options: SimilarImagesOptions = {}): Promise<SimilarImagesResult> {
+    const { threshold = DEFAULT_SIMILARITY_THRESHOLD } = options;
+    if (!Number.isInteger(threshold) || threshold < 0 || threshold > 64) {
+      throw new Error('Threshold must be a whole number of bits from 0 to 64');
+    }
+
+    const scan = await this.resolveScan(dirPath, options.scanId);
+    const records = (await FileRecord.find({
+      scanId: scan.scanId,
+      detectedType: { $in: PERCEPTUAL_HASH_TYPES },
+    })
+      .select('filePath size hash perceptualHash detectedType fileModifiedAt')
+      .lean<ImageRecord[]>())
+      .filter(record => this.isInside(record.filePath, dirPath));
+
+    const unsupportedImages: Record<string, number> = {};
+    const unsupported = FileRecord.find({
+      scanId: scan.scanId,
+      category: 'Images',
+      detectedType: { $exists: true, $nin: PERCEPTUAL_HASH_TYPES },
+    })
+      .select('filePath detectedType')
+      .lean<Array<{ filePath: string; detectedType: string }>>()
+      .cursor();
+    for await (const record of unsupported as AsyncIterable<{ filePath: string; detectedType: string }>) {
+      if (this.isInside(record.filePath, dirPath)) {
+        unsupportedImages[record.detectedType] = (unsupportedImages[record.detectedType] ?? 0) + 1;
+      }
+    }
+
+    // Hash images the scan did not, if they are unchanged since. Decoding
+    // needs far more memory than reading, so images are hashed one at a time.
+    const missing = records.filter(record => !record.perceptualHash);
+    let hashesComputed = 0;
+    for (let i = 0; i < missing.length; i++) {
+      const record = missing[i];
+      this.onProgress?.(i + 1, missing.length, path.basename(record.filePath));
+
+      const info = await statFileInfo(record.filePath);
+      if (!info || info.size !== record.size || info.modifiedAt.getTime() !== new Date(record.fileModifiedAt).getTime()) {
+        continue;
+      }
+      const perceptualHash = await calculatePerceptualHash(record.filePath, record.detectedType);
+      if (perceptualHash) {
+        record.perceptualHash = perceptualHash;
+        hashesComputed++;
+        await FileRecord.updateOne({ _id: record._id }, { $set: { perceptualHash } });
+      }
+    }
+
+    // One path per content hash: exact copies belong to the duplicate report
+    const seenContent = new Set<string>();
+    const images = records.filter((record): record is HashedImage => {
+      if (!record.perceptualHash) return false;
+      if (!record.hash) return true;
+      if (seenContent.has(record.hash)) return false;
+      seenContent.add(record.hash);
+      return true;
+    });
+
+    const groups = this.groupSimilar(images, threshold);
+    logger.info(`Compared ${images.length} images: ${groups.length} groups of similar images (threshold ${threshold} bits)`);
+
+    return {
+      scanId: scan.scanId,
+      scannedPath: scan.scannedPath,
+      threshold,
+      imagesCompared: images.length,
+      hashesComputed,
+      unsupportedImages,
+      groups,
+    };
+  }
+
+  /**
+   * Cluster text, markdown, CSV and source files that are likely versions of
+   * the same document, using MinHash signatures of their word shingles.
+   * Missing signatures are computed and saved on the file records. As with
+   * images, exact copies are left to dedupe and nothing is removed here.
+   */
+  async findSimilarDocuments(dirPath: string, options: SimilarDocumentsOptions = {}): Promise<SimilarDocumentsResult> {
+    const { threshold = DEFAULT_TEXT_SIMILARITY, concurrency = env.hashConcurrency } = options;
+    if (!(threshold > 0 && threshold <= 1)) {
+      throw new Error('Threshold must be a number above 0 and at most 1');
+    }
+
+    const scan = await this.resolveScan(dirPath, options.scanId);
+    const records = (await FileRecord.find({
+      scanId: scan.scanId,
+      extension: { $in: TEXT_SIMILARITY_EXTENSIONS },
+    })
+      .select('filePath size hash minHash fileModifiedAt')
+      .lean<DocumentRecord[]>())
+      .filter(record => this.isInside(record.filePath, dirPath));
+
+    // Fingerprint documents the scan did not, if they are unchanged since
+    const missing = records.filter(record => !record.minHash);
+    let signaturesComputed = 0;
+    let current = 0;
+    await runWithConcurrency(missing, concurrency, async (record) => {
+      current++;
+      this.onProgress?.(current, missing.length, path.basename(record.filePath));
+
+      const info = await statFileInfo(record.filePath);
+      if (!info || info.size !== record.size || info.modifiedAt.getTime() !== new Date(record.fileModifiedAt).getTime()) {
+        return;
+      }
+      const minHash = await calculateMinHash(record.filePath);
+      if (minHash) {
+        record.minHash = minHash;
+        signaturesComputed++;
+        await FileRecord.updateOne({ _id: record._id }, { $set: { minHash } });
+      }
+    });
+
+    // One path per content hash: exact copies belong to the duplicate report
+    const seenContent = new Set<string>();
+    const documents = records.filter((record): record is HashedDocument => {
+      if (!record.minHash) return false;
+      if (!record.hash) return true;
+      if (seenContent.has(record.hash)) return false;
+      seenContent.add(record.hash);
+      return true;
+    });
+
+    const clusters = clusterBySimilarity(documents, record => record.minHash, threshold)
+      .map(members => this.toDocumentCluster(members.map(record => ({
+        path: record.filePath,
+        size: record.size,
+        modifiedAt: new Date(record.fileModifiedAt),
+        minHash: record.minHash,
+      }))))
+      .sort((a, b) => b.files.length - a.files.length);
+    logger.info(`Compared ${documents.length} documents: ${clusters.length} clusters of likely versions (threshold ${threshold})`);
+
+    return {
+      scanId: scan.scanId,
+      scannedPath: scan.scannedPath,
+      threshold,
+      documentsCompared: documents.length,
+      signaturesComputed,
+      clusters,
+    };
+  }
+
+  /**
+   * List files unused for a while, and the largest files and folders, under
+   * a path. Unlike the other insights this reads the file system directly:
+   * scans do not record access times, and sizes should be current before
+   * anything is archived or trashed. Nothing is changed here.
+   */
+  async findStaleFiles(dirPath: string, options: StaleFilesOptions = {}): Promise<StaleFilesResult> {
+    const {
+      olderThan = DEFAULT_STALE_AGE,
+      basis = 'modified',
+      sortBy = 'age',
+      categories,
+      top = 10,
+      ...walkOptions
+    } = options;
+
+    if (!Number.isFinite(olderThan) || olderThan < 0) {
+      throw new Error('Age must be a positive duration');
+    }
+    if (!STALE_BASES.includes(basis)) {
+      throw new Error(`Basis must be one of: ${STALE_BASES.join(', ')}`);
+    }
+    if (!STALE_SORT_KEYS.includes(sortBy)) {
+      throw new Error(`Sort key must be one of: ${STALE_SORT_KEYS.join(', ')}`);
+    }
+    if (!Number.isInteger(top) || top < 1) {
+      throw new Error('Top must be a positive whole number');
+    }
+    const unknown = categories?.filter(category => !getAllCategories().includes(category)) ?? [];
+    if (unknown.length > 0) {
+      throw new Error(`Unknown categories: ${unknown.join(', ')}. Categories are: ${getAllCategories().join(', ')}`);
+    }
+    if (!directoryExists(dirPath)) {
+      throw new Error(`Directory does not exist: ${dirPath}`);
+    }
+
+    // Only stale files and the largest few are kept, not every file walked
+    const now = Date.now();
+    const staleFiles: StaleFile[] = [];
+    const largestFiles: StaleFile[] = [];
+    const folders: Map<string, LargeFolder> = new Map();
+    let current = 0;
+    let filesChecked = 0;
+
+    for await (const info of walkFiles(dirPath, walkOptions)) {
+      // The number of files is unknown while walking
+      current++;
+      this.onProgress?.(current, 0, info.name);
+
+      const category = resolveCategory(info.path, null, info.size);
+      if (categories && !categories.includes(category)) continue;
+
+      const lastUsed = basis === 'accessed'
+        ? Math.max(info.accessedAt.getTime(), info.modifiedAt.getTime())
+        : info.modifiedAt.getTime();
+      const file: StaleFile = {
+        path: info.path,
+        size: info.size,
+        category,
+        modifiedAt: info.modifiedAt,
+        accessedAt: info.accessedAt,
+        idleMs: Math.max(0, now - lastUsed),
+      };
+      filesChecked++;
+      if (file.idleMs >= olderThan) {
+        staleFiles.push(file);
+      }
+      if (largestFiles.length < top || file.size > largestFiles[largestFiles.length - 1].size) {
+        const index = largestFiles.findIndex(other => other.size < file.size);
+        largestFiles.splice(index === -1 ? largestFiles.length : index, 0, file);
+        largestFiles.length = Math.min(largestFiles.length, top);
+      }
+
+      // Count the file towards every folder between it and the target
+      for (let dir = path.dirname(info.path); this.isInside(dir, dirPath) && dir !== dirPath; dir = path.dirname(dir)) {
+        const folder = folders.get(dir);
+        if (folder) {
+          folder.size += info.size;
+          folder.fileCount++;
+        } else {
+          folders.set(dir, { path: dir, size: info.size, fileCount: 1 });
+        }
+      }
+    }
+
+    const bySize = (a: { size: number }, b: { size: number }) => b.size - a.size;
+    staleFiles.sort(sortBy === 'size' ? bySize : sortBy === 'name' ? (a, b) => a.path.localeCompare(b.path) : (a, b) => b.idleMs - a.idleMs);
+    const staleBytes = staleFiles.reduce((sum, file) => sum + file.size, 0);
+
+    logger.info(`Checked ${filesChecked} files: ${staleFiles.length} unused for ${formatDuration(olderThan)} or more`);
+
+    return {
+      targetPath: dirPath,
+      olderThan,
+      basis,
+      sortBy,
+      categories,
+      filesChecked,
+      staleFiles,
+      staleBytes,
+      largestFiles,
+      largestFolders: [...folders.values()].sort(bySize).slice(0, top),
+    };
+  }
+
+  /**
+   * Order a cluster newest first and score each file against the newest
+   */
+  private toDocumentCluster(members: Array<{ path: string; size: number; modifiedAt: Date; minHash: string }>): DocumentCluster {
+    const sorted = [...members].sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime());
+    const files = sorted.map(member => ({
+      path: member.path,
+      size: member.size,
+      modifiedAt: member.modifiedAt,
+      similarity: estimateSimilarity(sorted[0].minHash, member.minHash),
+    }));
+    return { files, similarity: Math.min(...files.map(f => f.similarity)) };
+  }
+
+  /**
+   * Link images within the threshold and return the connected groups, largest first
+   */
+  private groupSimilar(images: HashedImage[], threshold: number): SimilarImageGroup[] {
+    return clusterByDistance(images, image => image.perceptualHash, threshold)
+      .map(members => {
+        // Largest file first: usually the least compressed version
+        members.sort((a, b) => b.size - a.size);
+        const files = members.map(member => ({
+          path: member.filePath,
+          size: member.size,
+          perceptualHash: member.perceptualHash,
+          distance: hammingDistance(members[0].perceptualHash, member.perceptualHash),
+        }));
+        return { files, maxDistance: Math.max(...files.map(f => f.distance)) };
+      })
+      .sort((a, b) => b.files.length - a.files.length);
+  }
+
+  /**
+   * The given scan, or the latest scan of dirPath or a folder above it
+   */
+  private async resolveScan(dirPath: string, scanId?: string): Promise<IScan> {
+    if (scanId) {
+      const scan = await Scan.findOne({ scanId });
+      if (!scan) {
+        throw new Error(`Scan not found: ${scanId}`);
+      }
+      if (!this.isInside(dirPath, scan.scannedPath)) {
+        throw new Error(`${dirPath} is not inside the scanned folder ${scan.scannedPath}`);
+      }
+      return scan;
+    }
+
+    const ancestors: string[] = [];
+    for (let dir = dirPath; ; dir = path.dirname(dir)) {
+      ancestors.push(dir);
+      if (path.dirname(dir) === dir) break;
+    }
+
+    const scan = await Scan.findOne({ scannedPath: { $in: ancestors } }).sort({ createdAt: -1 });
+    if (!scan) {
+      throw new Error(`No scan found for ${dirPath}. Run "deskpilot scan" first`);
+    }
+    return scan;
+  }
+
+  private isInside(filePath: string, dirPath: string): boolean {
+    const relative = path.relative(dirPath, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
+
+export default InsightsService;
@@ -3,6 +3,9 @@ import { Transaction, ITransaction, ITransactionAction } from '../models';
 import {
   logger,
   categorizeFile,
+  detectFileType,
+  resolveCategory,
+  INCOMPLETE_CATEGORY,
   getAllFiles,
   getFileInfo,
   formatBytes,
@@ -11,21 +14,75 @@ import {
   directoryExists,
   ensureDirectory,
   safeMove,
+  safeDelete,
+  calculateFileHash,
+  groupCopySiblings,
+  runWithConcurrency,
   FileCategory,
   getAllCategories,
+  getConfiguredRules,
+  findMatchingRule,
+  renderDestination,
+  OrganizeRule,
+  RuleSubject,
+  getFileDate,
+  DateSource,
+  renderFileName,
+  CollisionPolicy,
+  CollisionOutcome,
+  WalkOptions,
 } from '../utils';
+import { env } from '../config';
 
-export interface OrganizeOptions {
+export type OrganizeLayout = 'flat' | 'by-year' | 'by-year-month' | 'by-category-then-date';
+
+export const ORGANIZE_LAYOUTS: OrganizeLayout[] = ['flat', 'by-year', 'by-year-month', 'by-category-then-date'];
+
+export interface OrganizeOptions extends WalkOptions {
   dryRun?: boolean;
-  recursive?: boolean;
+  // Folder layout for files no rule matched
+  layout?: OrganizeLayout;
+  // Where the date for date-based layouts and rule templates comes from
+  dateSource?: DateSource;
+  // Overrides the rules from the config file
+  rules?: OrganizeRule[];
+  // Rename template for files whose rule has none, e.g. "{date:yyyy-MM-dd}_{slug(name)}{ext}"
+  renameTemplate?: string;
+  // What to do when the target file already exists
+  collisionPolicy?: CollisionPolicy;
+  // Trash byte-identical copies such as "report (1).pdf" and give the copy
+  // that stays its clean name when no other version is left
+  collapseCopies?: boolean;
+  // Called for each planned move; files it declines stay where they are
+  review?: (item: OrganizePlan) => Promise<boolean>;
 }
 
 export interface OrganizePlan {
   from: string;
   to: string;
   category: FileCategory;
+  // Set when the category comes from the file content rather than its extension
+  detectedType?: string;
+  // Name of the rule that chose the destination; unset for the category default
+  rule?: string;
   fileName: string;
+  // Set when a rename template changes the file name
+  newName?: string;
+  size: number;
+  // How a collision at the target was resolved (after execution)
+  collision?: CollisionOutcome;
+}
+
+/**
+ * Identical copies of one file collapsed into the copy that stays
+ */
+export interface CollapsedCopies {
+  kept: string;
+  removed: string[];
+  hash: string;
   size: number;
+  // Clean name the kept copy is organized under, e.g. "report.pdf"
+  cleanName?: string;
 }
 
 export interface OrganizeResult {
@@ -33,10 +90,19 @@ export interface OrganizeResult {
   targetPath: string;
   dryRun: boolean;
   plan: OrganizePlan[];
+  // Set when collapseCopies is on
+  collapsedCopies?: CollapsedCopies[];
   summary: {
     totalFiles: number;
     movedCount: number;
+    renamedCount: number;
+    // Files moved to the trash because their destination held an identical copy
+    deduplicatedCount: number;
+    // Identical copies moved to the trash
+    collapsedCount: number;
+    skippedCount: number;
     failedCount: number;
+    collisions: Partial<Record<CollisionOutcome, number>>;
     byCategory: Record<string, number>;
   };
 }
@@ -52,7 +118,17 @@ export class OrganizerService {
    * Organize files into category folders
    */
   async organize(dirPath: string, options: OrganizeOptions = {}): Promise<OrganizeResult> {
-    const { dryRun = false, recursive = false } = options;
+    const {
+      dryRun = false,
+      rules = getConfiguredRules(),
+      layout = 'flat',
+      dateSource = 'modified',
+      renameTemplate,
+      collisionPolicy = 'rename',
+      collapseCopies = false,
+      review,
+      ...walkOptions
+    } = options;
 
     // Validate directory
     if (!directoryExists(dirPath)) {
@@ -60,60 +136,178 @@ export class OrganizerService {
     }
 
     const transactionId = generateId();
-    logger.info(`Starting organize: ${dirPath} (ID: ${transactionId}, dry-run: ${dryRun})`);
+    logger.info(`Starting organize: ${dirPath} (ID: ${transactionId}, layout: ${layout}, dry-run: ${dryRun})`);
 
     // Get all files (non-recursive by default for organize)
-    const filePaths = await this.getOrganizableFiles(dirPath, recursive);
+    const filePaths = await this.getOrganizableFiles(dirPath, {
+      ...walkOptions,
+      recursive: walkOptions.recursive ?? false,
+    });
     const totalFiles = filePaths.length;
 
-    logger.info(`Found ${totalFiles} files to organize`);
+    logger.info(`Found ${totalFiles} files to organize${rules.length > 0 ? ` with ${rules.length} rules` : ''}`);
+
+    // Identical copies are trashed before anything moves, so the kept copy is still in place
+    const collapsedCopies = collapseCopies ? await this.findCollapsibleCopies(filePaths) : [];
+    const removedCopies = new Set(collapsedCopies.flatMap(c => c.removed));
+    const cleanNames = new Map(collapsedCopies.filter(c => c.cleanName).map(c => [c.kept, c.cleanName!]));
+    const copyActions: ITransactionAction[] = collapsedCopies.flatMap(collapse => collapse.removed.map(filePath => ({
+      actionId: generateShortId(),
+      type: 'delete' as const,
+      from: filePath,
+      to: path.join(env.trashPath, path.basename(filePath)),
+      status: 'pending' as const,
+      keptPath: collapse.kept,
+      fileHash: collapse.hash,
+      fileSize: collapse.size,
+    })));
 
     // Build organization plan
     const plan: OrganizePlan[] = [];
     const actions: ITransactionAction[] = [];
     const byCategory: Record<string, number> = {};
 
+    const now = Date.now();
+    // Per-folder counters for the {counter} rename token
+    const counters: Map<string, number> = new Map();
+
     for (const filePath of filePaths) {
+      if (removedCopies.has(filePath)) continue;
       const fileInfo = getFileInfo(filePath);
       if (!fileInfo || !fileInfo.isFile) continue;
+      const cleanName = cleanNames.get(filePath);
+
+      // Prefer the sniffed content type when the extension is missing or wrong
+      const detected = await detectFileType(filePath);
+      const category = resolveCategory(filePath, detected, fileInfo.size);
 
-      const category = categorizeFile(filePath);
-      const targetDir = path.join(dirPath, category);
-      const targetPath = path.join(targetDir, fileInfo.name);
+      // Partial downloads may still be written to; leave them for cleanup
+      if (category === INCOMPLETE_CATEGORY) {
+        continue;
+      }
+
+      // The first matching rule picks the folder, otherwise the category does
+      const subject: RuleSubject = {
+        path: filePath,
+        relativePath: path.relative(dirPath, filePath),
+        name: fileInfo.name,
+        size: fileInfo.size,
+        modifiedAt: fileInfo.modifiedAt,
+        date: getFileDate(fileInfo, dateSource),
+        category,
+        mimeType: detected?.mimeType,
+      };
+      const rule = findMatchingRule(subject, rules, now);
+      const folder = rule
+        ? renderDestination(rule.destination, subject)
+        : renderDestination(this.getLayoutTemplate(layout), subject);
+      const targetDir = path.join(dirPath, folder);
+
+      let newName: string | undefined = cleanName;
+      const template = rule?.rename ?? renameTemplate;
+      if (template) {
+        const counter = (counters.get(targetDir) ?? 0) + 1;
+        counters.set(targetDir, counter);
+        const rendered = renderFileName(template, {
+          fileName: cleanName ?? fileInfo.name,
+          date: subject.date!,
+          category,
+          counter,
+        });
+        newName = rendered !== fileInfo.name ? rendered : undefined;
+      }
+      const targetPath = path.join(targetDir, newName ?? fileInfo.name);
 
-      // Skip if already in correct folder
-      if (path.dirname(filePath) === targetDir) {
+      // Skip if already in the correct folder with the correct name
+      if (targetPath === filePath) {
         continue;
       }
 
-      plan.push({
+      const item: OrganizePlan = {
         from: filePath,
         to: targetPath,
         category,
+        detectedType: detected && category !== categorizeFile(filePath) ? detected.type : undefined,
+        rule: rule?.name,
         fileName: fileInfo.name,
+        newName,
         size: fileInfo.size,
-      });
+      };
+
+      if (review && !(await review(item))) {
+        // Give the declined file's counter to the next file in the folder
+        if (template) {
+          counters.set(targetDir, counters.get(targetDir)! - 1);
+        }
+        continue;
+      }
+
+      plan.push(item);
 
       byCategory[category] = (byCategory[category] || 0) + 1;
 
+      // Renames keep the original name on the action; rollback moves back to `from`
       actions.push({
         actionId: generateShortId(),
-        type: 'move',
+        type: newName ? 'rename' : 'move',
         from: filePath,
         to: targetPath,
+        originalName: newName ? fileInfo.name : undefined,
         status: 'pending',
+        // Size and time let a later apply notice changes; hashes are added on plan export
         fileSize: fileInfo.size,
+        fileModifiedAt: fileInfo.modifiedAt,
       });
     }
 
     // Execute if not dry run
     let movedCount = 0;
+    let deduplicatedCount = 0;
+    let skippedCount = 0;
     let failedCount = 0;
+    let collapsedCount = 0;
+    let savedBytes = 0;
+    const collisions: Partial<Record<CollisionOutcome, number>> = {};
+
+    if (!dryRun && copyActions.length > 0) {
+      ensureDirectory(env.trashPath);
+
+      for (const action of copyActions) {
+        try {
+          // Both copies must still hold the content that was hashed
+          const [copyHash, keptHash] = await Promise.all([calculateFileHash(action.from), calculateFileHash(action.keptPath!)]);
+          if (copyHash !== action.fileHash || keptHash !== action.fileHash) {
+            failedCount++;
+            action.status = 'failed';
+            action.error = 'Copy changed since it was compared; file left in place';
+            continue;
+          }
+
+          const result = await safeDelete(action.from, true);
+          if (result.success) {
+            collapsedCount++;
+            savedBytes += action.fileSize ?? 0;
+            action.status = 'completed';
+            action.to = result.trashPath ?? action.to;
+          } else {
+            failedCount++;
+            action.status = 'failed';
+            action.error = result.error;
+          }
+        } catch (error: any) {
+          failedCount++;
+          action.status = 'failed';
+          action.error = error.message;
+        }
+      }
+    }
 
     if (!dryRun && plan.length > 0) {
-      // Create category folders
-      for (const category of getAllCategories()) {
-        ensureDirectory(path.join(dirPath, category));
+      // Create category folders (date-based folders are created as files move)
+      if (layout === 'flat') {
+        for (const category of getAllCategories().filter(c => c !== INCOMPLETE_CATEGORY)) {
+          ensureDirectory(path.join(dirPath, category));
+        }
       }
 
       // Execute moves
@@ -125,12 +319,26 @@ export class OrganizerService {
         }
 
         try {
-          const result = await safeMove(item.from, item.to, true);
-          
-          if (result.success) {
-            movedCount++;
+          const result = await safeMove(item.from, item.to, collisionPolicy);
+
+          if (result.collision) {
+            item.collision = result.collision;
+            actions[i].collision = result.collision;
+            collisions[result.collision] = (collisions[result.collision] || 0) + 1;
+          }
+
+          if (result.success && result.collision === 'skipped') {
+            skippedCount++;
+            actions[i].status = 'skipped';
+          } else if (result.success) {
+            if (result.collision === 'deduplicated') {
+              deduplicatedCount++;
+            } else {
+              movedCount++;
+            }
             actions[i].status = 'completed';
             actions[i].to = result.to; // Update with actual path (may differ due to collision)
+            actions[i].replacedPath = result.replacedPath;
           } else {
             failedCount++;
             actions[i].status = 'failed';
@@ -144,22 +352,26 @@ export class OrganizerService {
       }
     }
 
+    // Planned renames for a dry run, completed ones otherwise
+    const renamedCount = actions.filter(a => a.type === 'rename' && (dryRun || a.status === 'completed')).length;
+
     // Save transaction to database
     const transaction = new Transaction({
       transactionId,
       type: 'organize',
       status: dryRun ? 'pending' : (failedCount === 0 ? 'completed' : 'partially_completed'),
-      actions,
+      actions: [...copyActions, ...actions],
       summary: {
         movedCount,
-        deletedCount: 0,
+        deletedCount: collapsedCount + deduplicatedCount,
         restoredCount: 0,
         failedCount,
-        savedBytes: 0,
-        totalProcessed: plan.length,
+        savedBytes,
+        totalProcessed: copyActions.length + plan.length,
       },
       targetPath: dirPath,
       dryRun,
+      collisionPolicy,
       completedAt: dryRun ? undefined : new Date(),
     });
     await transaction.save();
@@ -169,10 +381,16 @@ export class OrganizerService {
       targetPath: dirPath,
       dryRun,
       plan,
+      collapsedCopies: collapseCopies ? collapsedCopies : undefined,
       summary: {
         totalFiles: plan.length,
         movedCount,
+        renamedCount,
+        deduplicatedCount,
+        collapsedCount: dryRun ? removedCopies.size : collapsedCount,
+        skippedCount,
         failedCount,
+        collisions,
         byCategory,
       },
     };
@@ -180,32 +398,91 @@ export class OrganizerService {
     if (dryRun) {
       logger.info(`Dry run completed: ${plan.length} files would be organized`);
     } else {
-      logger.success(`Organization completed: ${movedCount} files moved, ${failedCount} failed`);
+      logger.success(`Organization completed: ${movedCount} files moved, ${deduplicatedCount} duplicates trashed, ${skippedCount} skipped, ${failedCount} failed`);
     }
 
     return result;
   }
 
+  /**
+   * Destination template for a layout, in rule template syntax
+   */
+  private getLayoutTemplate(layout: OrganizeLayout): string {
+    switch (layout) {
+      case 'by-year':
+        return '{yyyy}';
+      case 'by-year-month':
+        return path.join('{yyyy}', '{mm}');
+      case 'by-category-then-date':
+        return path.join('{category}', '{yyyy}', '{mm}');
+      default:
+        return '{category}';
+    }
+  }
+
+  /**
+   * Find sets of byte-identical files named as copies of each other. The
+   * original name is kept when present, otherwise the newest copy; that copy
+   * takes the clean name when no differing version is left beside it.
+   */
+  private async findCollapsibleCopies(filePaths: string[]): Promise<CollapsedCopies[]> {
+    const files = filePaths
+      .map(filePath => getFileInfo(filePath))
+      .filter((info): info is NonNullable<typeof info> => !!info && info.isFile);
+    const collapsed: CollapsedCopies[] = [];
+
+    for (const group of groupCopySiblings(files)) {
+      // Only copies of the same size can be identical
+      const hashes = new Map<string, string>();
+      await runWithConcurrency(group.files, env.hashConcurrency, async file => {
+        if (group.files.some(other => other !== file && other.size === file.size)) {
+          hashes.set(file.path, await calculateFileHash(file.path).catch(() => ''));
+        }
+      });
+
+      const sets = new Map<string, typeof group.files>();
+      for (const file of group.files) {
+        const hash = hashes.get(file.path);
+        if (!hash) continue;
+        sets.set(hash, [...(sets.get(hash) ?? []), file]);
+      }
+
+      const groupCollapses: CollapsedCopies[] = [];
+      for (const [hash, set] of sets) {
+        if (set.length < 2) continue;
+        const kept = set.find(f => f.marker === 'none')
+          ?? [...set].sort((a, b) => b.modifiedAt.getTime() - a.modifiedAt.getTime())[0];
+        groupCollapses.push({
+          kept: kept.path,
+          removed: set.filter(f => f !== kept).map(f => f.path),
+          hash,
+          size: kept.size,
+        });
+      }
+
+      // With one file left the clean name is unambiguous
+      const remaining = group.files.length - groupCollapses.reduce((sum, c) => sum + c.removed.length, 0);
+      if (groupCollapses.length === 1 && remaining === 1 && path.basename(groupCollapses[0].kept) !== group.baseName) {
+        groupCollapses[0].cleanName = group.baseName;
+      }
+      collapsed.push(...groupCollapses);
+    }
+
+    logger.info(`Found ${collapsed.reduce((sum, c) => sum + c.removed.length, 0)} identical copies to collapse`);
+    return collapsed;
+  }
+
   /**
    * Get files that should be organized (skip already organized folders)
    */
-  private async getOrganizableFiles(dirPath: string, recursive: boolean): Promise<string[]> {
+  private async getOrganizableFiles(dirPath: string, walkOptions: WalkOptions): Promise<string[]> {
     const categories = getAllCategories();
-    const files: string[] = [];
 
-    const entries = await getAllFiles(dirPath, recursive, (filePath: string) => {
+    return getAllFiles(dirPath, walkOptions, (filePath: string) => {
       // Skip files already in category folders
       const parentDir = path.basename(path.dirname(filePath));
-      return !categories.includes(parentDir as FileCategory);
+      return !categories.includes(parentDir);
     });
-
-    // For non-recursive, only get immediate files
-    if (!recursive) {
-      const immediateFiles = entries.filter(f => path.dirname(f) === dirPath);
-      return immediateFiles;
-    }
-
-    return entries;
   }
 
   /**
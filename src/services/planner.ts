@@ -0,0 +1,406 @@
+import * as path from 'path';
+import { Transaction, ITransaction, ITransactionAction } from '../models';
+import {
+  logger,
+  formatBytes,
+  generateId,
+  generateShortId,
+  calculateFileHash,
+  compareFiles,
+  compareDirectories,
+  statFileInfo,
+  safeMove,
+  safeDelete,
+  replaceWithLink,
+  runWithConcurrency,
+  PLAN_VERSION,
+  Plan,
+  PlanAction,
+  CollisionPolicy,
+  CollisionOutcome,
+} from '../utils';
+import { env } from '../config';
+
+export interface ApplyPlanOptions {
+  // Overrides the collision policy recorded in the plan
+  collisionPolicy?: CollisionPolicy;
+}
+
+export interface ApplyPlanResult {
+  transactionId: string;
+  // Dry-run transaction the plan came from, if known
+  sourceTransactionId?: string;
+  type: Plan['type'];
+  targetPath: string;
+  summary: {
+    totalActions: number;
+    completedCount: number;
+    skippedCount: number;
+    failedCount: number;
+    savedBytes: number;
+  };
+  details: Array<{
+    type: PlanAction['type'];
+    from: string;
+    to: string;
+    status: 'completed' | 'skipped' | 'failed';
+    error?: string;
+    collision?: CollisionOutcome;
+  }>;
+}
+
+export class PlanService {
+  private onProgress?: (current: number, total: number, file: string) => void;
+
+  constructor(onProgress?: (current: number, total: number, file: string) => void) {
+    this.onProgress = onProgress;
+  }
+
+  /**
+   * Build a reviewable plan from a dry-run transaction. Files the dry run
+   * recorded by size and time only are hashed now, so that the plan can still
+   * be checked after it is edited; the hashes are saved on the dry run too.
+   */
+  async exportPlan(transactionId: string): Promise<Plan> {
+    const transaction = await this.getDryRun(transactionId);
+
+    const unhashed = transaction.actions.filter((action: ITransactionAction) => !action.fileHash && action.type !== 'link');
+    let current = 0;
+    await runWithConcurrency(unhashed, env.hashConcurrency, async (action: ITransactionAction) => {
+      current++;
+      this.onProgress?.(current, unhashed.length, path.basename(action.from));
+
+      // A file that changed since the dry run keeps its old size and time, so applying skips it
+      const info = await statFileInfo(action.from);
+      if (!info || !info.isFile || info.size !== action.fileSize
+        || (action.fileModifiedAt && info.modifiedAt.getTime() !== new Date(action.fileModifiedAt).getTime())) {
+        return;
+      }
+      action.fileHash = await calculateFileHash(action.from).catch(() => undefined);
+    });
+    if (unhashed.length > 0) {
+      transaction.markModified('actions');
+      await transaction.save();
+    }
+
+    return this.toPlan(transaction);
+  }
+
+  /**
+   * Apply a stored dry run as is; the dry-run transaction becomes the real one.
+   * Dry runs that remove older versions of similar documents are refused:
+   * those only come from a plan file, after review.
+   */
+  async applyTransaction(transactionId: string, options: ApplyPlanOptions = {}): Promise<ApplyPlanResult> {
+    const transaction = await this.getDryRun(transactionId);
+    if (transaction.actions.some((action: ITransactionAction) => action.similarity !== undefined)) {
+      throw new Error(`This dry run removes older versions of similar documents; export its plan and apply the reviewed file instead: ${transactionId}`);
+    }
+    const plan = this.toPlan(transaction);
+    const { actions, result } = await this.execute(plan, transactionId, options);
+
+    transaction.actions = actions;
+    transaction.summary = this.toSummary(result);
+    transaction.status = result.summary.failedCount === 0 ? 'completed' : 'partially_completed';
+    transaction.dryRun = false;
+    transaction.collisionPolicy = options.collisionPolicy ?? transaction.collisionPolicy;
+    transaction.completedAt = new Date();
+    await transaction.save();
+
+    return result;
+  }
+
+  /**
+   * Apply a plan file, possibly edited, as a new transaction. The dry run it
+   * was exported from, if any, is marked as applied so it cannot run again.
+   */
+  async applyPlan(plan: Plan, options: ApplyPlanOptions = {}): Promise<ApplyPlanResult> {
+    const source = plan.transactionId ? await Transaction.findOne({ transactionId: plan.transactionId }) : null;
+    if (source && (!source.dryRun || source.status !== 'pending')) {
+      throw new Error(`The dry run this plan came from was already applied: ${plan.transactionId}`);
+    }
+
+    // Deletes of older document versions are only trusted as the dry run planned them
+    const versions: Map<string, ITransactionAction> = new Map(
+      (source?.actions ?? [])
+        .filter((action: ITransactionAction) => action.similarity !== undefined && action.keptPath)
+        .map((action: ITransactionAction) => [`${action.from}\0${action.keptPath}`, action])
+    );
+
+    const transactionId = generateId();
+    const { actions, result } = await this.execute(plan, transactionId, options, versions);
+
+    const transaction = new Transaction({
+      transactionId,
+      type: plan.type,
+      status: result.summary.failedCount === 0 ? 'completed' : 'partially_completed',
+      actions,
+      summary: this.toSummary(result),
+      targetPath: plan.targetPath,
+      dryRun: false,
+      strategy: plan.strategy,
+      collisionPolicy: options.collisionPolicy ?? plan.collisionPolicy,
+      completedAt: new Date(),
+    });
+    await transaction.save();
+
+    if (source) {
+      source.status = 'completed';
+      source.appliedTransactionId = transactionId;
+      source.completedAt = new Date();
+      await source.save();
+    }
+
+    return result;
+  }
+
+  /**
+   * Find a dry run that has not been applied yet
+   */
+  private async getDryRun(transactionId: string): Promise<ITransaction> {
+    const transaction = await Transaction.findOne({ transactionId });
+
+    if (!transaction) {
+      throw new Error(`Transaction not found: ${transactionId}`);
+    }
+
+    if (!transaction.dryRun || transaction.status !== 'pending') {
+      throw new Error(`Only pending dry-run transactions can be exported or applied: ${transactionId}`);
+    }
+
+    return transaction;
+  }
+
+  private toPlan(transaction: ITransaction): Plan {
+    return {
+      version: PLAN_VERSION,
+      transactionId: transaction.transactionId,
+      type: transaction.type === 'dedupe' || transaction.type === 'cleanup' ? transaction.type : 'organize',
+      targetPath: transaction.targetPath,
+      createdAt: transaction.createdAt.toISOString(),
+      strategy: transaction.strategy,
+      collisionPolicy: transaction.collisionPolicy as CollisionPolicy | undefined,
+      actions: transaction.actions.map((action: ITransactionAction) => ({
+        type: action.type as PlanAction['type'],
+        from: action.from,
+        to: action.to,
+        size: action.fileSize,
+        hash: action.fileHash,
+        modifiedAt: action.fileModifiedAt?.toISOString(),
+        keptPath: action.keptPath,
+        linkMode: action.linkMode,
+        // Dry runs of permanent deletes record no trash path
+        permanent: action.type === 'delete' && action.to === '' ? true : undefined,
+        similarity: action.similarity,
+      })),
+    };
+  }
+
+  private toSummary(result: ApplyPlanResult): ITransaction['summary'] {
+    const completed = result.details.filter(d => d.status === 'completed');
+    // A move onto an identical file trashes the source instead of moving it
+    const deduplicated = completed.filter(d => d.collision === 'deduplicated').length;
+    return {
+      movedCount: completed.filter(d => d.type === 'move' || d.type === 'rename').length - deduplicated,
+      deletedCount: completed.filter(d => d.type === 'delete').length + deduplicated,
+      linkedCount: completed.filter(d => d.type === 'link').length,
+      restoredCount: 0,
+      failedCount: result.summary.failedCount,
+      savedBytes: result.summary.savedBytes,
+      totalProcessed: result.summary.totalActions,
+    };
+  }
+
+  /**
+   * Check that a file is still the one the plan was made for.
+   * Returns the reason to skip it, or null when it is safe to apply.
+   * `versions` holds the similar-document deletes of the source dry run, by
+   * path and kept path; other deletes must match their kept copy exactly.
+   */
+  private async checkAction(action: PlanAction, versions: Map<string, ITransactionAction>): Promise<string | null> {
+    const info = await statFileInfo(action.from);
+
+    // A whole duplicate folder must still match its kept copy exactly
+    if (info?.isDirectory && action.type === 'delete' && action.keptPath) {
+      const kept = await statFileInfo(action.keptPath);
+      if (!kept || !kept.isDirectory) {
+        return 'Kept folder no longer exists';
+      }
+      const difference = await compareDirectories(action.keptPath, action.from);
+      return difference ? `Folder changed since the plan was made: ${difference}` : null;
+    }
+
+    if (!info || !info.isFile) {
+      return 'File no longer exists';
+    }
+    if (action.size !== undefined && info.size !== action.size) {
+      return 'File size changed since the plan was made';
+    }
+    if (!action.hash && action.modifiedAt && info.modifiedAt.getTime() !== Date.parse(action.modifiedAt)) {
+      return 'File modified since the plan was made';
+    }
+    if (action.hash && await calculateFileHash(action.from) !== action.hash) {
+      return 'File content changed since the plan was made';
+    }
+
+    // Never delete or link a duplicate whose kept copy has gone
+    const keptPath = action.type === 'link' ? action.to : action.type === 'delete' ? action.keptPath : undefined;
+    if (keptPath) {
+      const kept = await statFileInfo(keptPath);
+      if (!kept || !kept.isFile) {
+        return 'Kept copy no longer exists';
+      }
+      // A newer version of a document only has to still exist, and the older
+      // one must be the file the dry run recorded, whatever the plan says
+      const version = action.similarity !== undefined ? versions.get(`${action.from}\0${keptPath}`) : undefined;
+      if (version) {
+        const changed = version.fileHash
+          ? await calculateFileHash(action.from) !== version.fileHash
+          : info.size !== version.fileSize
+            || (version.fileModifiedAt !== undefined && info.modifiedAt.getTime() !== new Date(version.fileModifiedAt).getTime());
+        return changed ? 'File changed since the dry run' : null;
+      }
+      if (action.size !== undefined && kept.size !== action.size) {
+        return 'Kept copy changed since the plan was made';
+      }
+      if (action.hash && await calculateFileHash(keptPath) !== action.hash) {
+        return 'Kept copy content changed since the plan was made';
+      }
+      // Without a recorded hash, the two files must match byte for byte
+      if (!action.hash && !(await compareFiles(action.from, keptPath))) {
+        return 'File does not match its kept copy';
+      }
+    }
+
+    return null;
+  }
+
+  private async execute(
+    plan: Plan,
+    transactionId: string,
+    options: ApplyPlanOptions,
+    versions: Map<string, ITransactionAction> = new Map()
+  ): Promise<{ actions: ITransactionAction[]; result: ApplyPlanResult }> {
+    const collisionPolicy = options.collisionPolicy ?? plan.collisionPolicy ?? 'rename';
+    logger.info(`Applying ${plan.type} plan: ${plan.actions.length} actions (ID: ${transactionId})`);
+
+    const actions: ITransactionAction[] = [];
+    const details: ApplyPlanResult['details'] = [];
+    let completedCount = 0;
+    let skippedCount = 0;
+    let failedCount = 0;
+    let savedBytes = 0;
+
+    for (let i = 0; i < plan.actions.length; i++) {
+      const planned = plan.actions[i];
+
+      if (this.onProgress) {
+        this.onProgress(i + 1, plan.actions.length, path.basename(planned.from));
+      }
+
+      const action: ITransactionAction = {
+        actionId: generateShortId(),
+        type: planned.type,
+        from: planned.from,
+        to: planned.to,
+        originalName: planned.type === 'rename' ? path.basename(planned.from) : undefined,
+        status: 'pending',
+        keptPath: planned.keptPath,
+        linkMode: planned.linkMode,
+        fileHash: planned.hash,
+        fileSize: planned.size,
+        fileModifiedAt: planned.modifiedAt ? new Date(planned.modifiedAt) : undefined,
+        similarity: planned.similarity,
+      };
+
+      try {
+        const skipReason = await this.checkAction(planned, versions);
+
+        if (skipReason) {
+          action.status = 'skipped';
+          action.error = skipReason;
+        } else if (planned.type === 'link') {
+          const result = await replaceWithLink(planned.from, planned.to, planned.linkMode ?? 'auto');
+          if (result.success) {
+            action.status = 'completed';
+            action.linkMode = result.linkType;
+            savedBytes += planned.size ?? 0;
+          } else {
+            action.status = 'failed';
+            action.error = `${result.error}; file left in place`;
+          }
+        } else if (planned.type === 'delete') {
+          const result = await safeDelete(planned.from, !planned.permanent);
+          if (result.success) {
+            action.status = 'completed';
+            action.to = result.trashPath ?? '';
+            savedBytes += planned.size ?? 0;
+          } else {
+            action.status = 'failed';
+            action.error = result.error;
+          }
+        } else {
+          const result = await safeMove(planned.from, planned.to, collisionPolicy);
+          action.collision = result.collision;
+          if (result.success && result.collision === 'skipped') {
+            action.status = 'skipped';
+            action.error = 'Target already exists';
+          } else if (result.success) {
+            action.status = 'completed';
+            action.to = result.to;
+            action.replacedPath = result.replacedPath;
+          } else {
+            action.status = 'failed';
+            action.error = result.error;
+          }
+        }
+      } catch (error: any) {
+        action.status = 'failed';
+        action.error = error.message;
+      }
+
+      switch (action.status) {
+        case 'completed':
+          completedCount++;
+          break;
+        case 'skipped':
+          skippedCount++;
+          break;
+        default:
+          failedCount++;
+      }
+
+      actions.push(action);
+      details.push({
+        type: planned.type,
+        from: action.from,
+        to: action.to,
+        status: action.status as 'completed' | 'skipped' | 'failed',
+        error: action.error,
+        collision: action.collision,
+      });
+    }
+
+    logger.success(`Plan applied: ${completedCount} completed, ${skippedCount} skipped, ${failedCount} failed${savedBytes > 0 ? ` (${formatBytes(savedBytes)} freed)` : ''}`);
+
+    return {
+      actions,
+      result: {
+        transactionId,
+        sourceTransactionId: plan.transactionId,
+        type: plan.type,
+        targetPath: plan.targetPath,
+        summary: {
+          totalActions: plan.actions.length,
+          completedCount,
+          skippedCount,
+          failedCount,
+          savedBytes,
+        },
+        details,
+      },
+    };
+  }
+}
+
+export default PlanService;
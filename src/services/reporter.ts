@@ -50,6 +50,14 @@ export interface ReportData {
       count: number;
     }>;
   };
+  collisionStats: {
+    totalCollisions: number;
+    // How collisions were resolved: renamed, skipped, overwritten, deduplicated
+    byOutcome: Array<{
+      outcome: string;
+      count: number;
+    }>;
+  };
 }
 
 export class ReporterService {
@@ -64,10 +72,10 @@ export class ReporterService {
     const totalFilesScanned = await FileRecord.countDocuments();
     const totalDuplicatesFound = await FileRecord.countDocuments({ isDuplicate: true });
 
-    // Calculate total disk space saved from dedupe operations
-    // Include both completed dedupe transactions and subtract rolled back ones
+    // Calculate total disk space saved from dedupe and cleanup operations
+    // Include both completed transactions and subtract rolled back ones
     const dedupeTransactions = await Transaction.find({ 
-      type: 'dedupe', 
+      type: { $in: ['dedupe', 'cleanup'] }, 
       status: { $in: ['completed', 'partially_completed'] },
       dryRun: false 
     });
@@ -79,7 +87,7 @@ export class ReporterService {
 
     // Subtract space from rolled back dedupe transactions
     const rolledBackDedupes = await Transaction.find({
-      type: 'dedupe',
+      type: { $in: ['dedupe', 'cleanup'] },
       status: 'rolled_back',
       dryRun: false
     });
@@ -205,6 +213,27 @@ export class ReporterService {
       }));
     }
 
+    // Get how move collisions were resolved across all transactions
+    const collisionAggregation = await Transaction.aggregate([
+      { $unwind: '$actions' },
+      { $match: { 'actions.collision': { $exists: true, $ne: null } } },
+      {
+        $group: {
+          _id: '$actions.collision',
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { count: -1 } },
+    ]);
+
+    const collisionStats: ReportData['collisionStats'] = {
+      totalCollisions: collisionAggregation.reduce((sum, c) => sum + c.count, 0),
+      byOutcome: collisionAggregation.map(c => ({
+        outcome: c._id,
+        count: c.count,
+      })),
+    };
+
     const report: ReportData = {
       overview: {
         totalScans,
@@ -226,6 +255,7 @@ export class ReporterService {
       extensionStats,
       recentActivity,
       duplicateStats,
+      collisionStats,
     };
 
     // Save report as a scan record for historical tracking
@@ -291,6 +321,17 @@ export class ReporterService {
     }
     lines.push('');
 
+    // Collision Stats
+    if (report.collisionStats.totalCollisions > 0) {
+      lines.push('⚠️  NAME COLLISIONS');
+      lines.push('───────────────────────────────────────────────────────────');
+      lines.push(`  Total Collisions:      ${report.collisionStats.totalCollisions}`);
+      for (const c of report.collisionStats.byOutcome) {
+        lines.push(`    • ${c.outcome}: ${c.count}`);
+      }
+      lines.push('');
+    }
+
     // Recent Activity
     if (report.recentActivity.length > 0) {
       lines.push('⏱️  RECENT ACTIVITY');
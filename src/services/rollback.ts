@@ -8,8 +8,27 @@ import {
   safeMove,
   fileExists,
   ensureDirectory,
+  detachLink,
+  CollisionPolicy,
+  CollisionOutcome,
 } from '../utils';
 
+export interface RollbackOptions {
+  // What to do when a file's original location is taken; by default moves
+  // are skipped and restores from trash are renamed
+  collisionPolicy?: CollisionPolicy;
+}
+
+type ActionRollbackResult = {
+  status: 'restored' | 'failed' | 'skipped';
+  error?: string;
+  collision?: CollisionOutcome;
+  // Where the file actually ended up
+  to?: string;
+  // Trash path of the file an overwrite replaced
+  replacedPath?: string;
+};
+
 export interface RollbackResult {
   transactionId: string;
   rollbackTransactionId: string;
@@ -25,6 +44,7 @@ export interface RollbackResult {
     to: string;
     status: 'restored' | 'failed' | 'skipped';
     error?: string;
+    collision?: CollisionOutcome;
   }>;
 }
 
@@ -38,7 +58,9 @@ export class RollbackService {
   /**
    * Rollback a previous transaction
    */
-  async rollback(transactionId: string): Promise<RollbackResult> {
+  async rollback(transactionId: string, options: RollbackOptions = {}): Promise<RollbackResult> {
+    const { collisionPolicy } = options;
+
     // Find the original transaction
     const originalTransaction = await Transaction.findOne({ transactionId });
 
@@ -81,35 +103,46 @@ export class RollbackService {
       }
 
       try {
-        let rollbackResult: { status: 'restored' | 'failed' | 'skipped'; error?: string };
+        let rollbackResult: ActionRollbackResult;
 
         switch (action.type) {
           case 'move':
-            rollbackResult = await this.rollbackMove(action);
+          case 'rename':
+            // Moving back to `from` also restores the original name
+            rollbackResult = await this.rollbackMove(action, collisionPolicy ?? 'skip');
             break;
           case 'delete':
-            rollbackResult = await this.rollbackDelete(action);
+            rollbackResult = await this.rollbackDelete(action, collisionPolicy ?? 'rename');
+            break;
+          case 'link':
+            rollbackResult = await this.rollbackLink(action);
             break;
           default:
             rollbackResult = { status: 'skipped', error: `Unknown action type: ${action.type}` };
         }
 
+        // Links are undone in place: `to` is the kept file, not a location to move from
+        const rolledBackFrom = action.type === 'link' ? action.from : action.to || action.from;
+
         details.push({
-          from: action.to || action.from,
-          to: action.from,
+          from: rolledBackFrom,
+          to: rollbackResult.to ?? action.from,
           status: rollbackResult.status,
           error: rollbackResult.error,
+          collision: rollbackResult.collision,
         });
 
         // Create rollback action record
         rollbackActions.push({
           actionId: generateShortId(),
           type: 'restore',
-          from: action.to || action.from,
-          to: action.from,
+          from: rolledBackFrom,
+          to: rollbackResult.to ?? action.from,
           status: rollbackResult.status === 'restored' ? 'completed' : 
                   rollbackResult.status === 'failed' ? 'failed' : 'completed',
           error: rollbackResult.error,
+          collision: rollbackResult.collision,
+          replacedPath: rollbackResult.replacedPath,
           fileHash: action.fileHash,
           fileSize: action.fileSize,
         });
@@ -191,7 +224,7 @@ export class RollbackService {
   /**
    * Rollback a move action
    */
-  private async rollbackMove(action: ITransactionAction): Promise<{ status: 'restored' | 'failed' | 'skipped'; error?: string }> {
+  private async rollbackMove(action: ITransactionAction, collisionPolicy: CollisionPolicy): Promise<ActionRollbackResult> {
     const { from, to } = action;
 
     // Check if file exists at new location
@@ -200,7 +233,7 @@ export class RollbackService {
     }
 
     // Check if original location is available
-    if (fileExists(from)) {
+    if (fileExists(from) && collisionPolicy === 'skip') {
       return { status: 'skipped', error: 'Original location is no longer available (file exists)' };
     }
 
@@ -209,19 +242,30 @@ export class RollbackService {
     ensureDirectory(originalDir);
 
     // Move back
-    const result = await safeMove(to, from, false);
-    
-    if (result.success) {
-      return { status: 'restored' };
-    } else {
+    const result = await safeMove(to, from, collisionPolicy);
+
+    if (!result.success) {
       return { status: 'failed', error: result.error };
     }
+    if (result.collision === 'skipped') {
+      return { status: 'skipped', error: 'Original location is no longer available (file exists)', collision: result.collision };
+    }
+
+    // Put back the file this move overwrote
+    if (action.replacedPath && fileExists(action.replacedPath) && !fileExists(to)) {
+      const restored = await safeMove(action.replacedPath, to, false);
+      if (!restored.success) {
+        return { status: 'failed', error: `Restored file, but not the file it replaced: ${restored.error}`, to: result.to, replacedPath: result.replacedPath };
+      }
+    }
+
+    return { status: 'restored', collision: result.collision, to: result.to, replacedPath: result.replacedPath };
   }
 
   /**
    * Rollback a delete action (restore from trash)
    */
-  private async rollbackDelete(action: ITransactionAction): Promise<{ status: 'restored' | 'failed' | 'skipped'; error?: string }> {
+  private async rollbackDelete(action: ITransactionAction, collisionPolicy: CollisionPolicy): Promise<ActionRollbackResult> {
     const { from, to } = action;
 
     // If file was moved to trash, restore it
@@ -230,19 +274,35 @@ export class RollbackService {
       const originalDir = path.dirname(from);
       ensureDirectory(originalDir);
 
-      const result = await safeMove(to, from, true);
-      
-      if (result.success) {
-        return { status: 'restored' };
-      } else {
+      const result = await safeMove(to, from, collisionPolicy);
+
+      if (!result.success) {
         return { status: 'failed', error: result.error };
       }
+      if (result.collision === 'skipped') {
+        return { status: 'skipped', error: 'Original location is taken; file left in trash', collision: result.collision };
+      }
+      return { status: 'restored', collision: result.collision, to: result.to, replacedPath: result.replacedPath };
     }
 
     // File was permanently deleted or trash file not found
     return { status: 'skipped', error: 'File was permanently deleted or trash file not found' };
   }
 
+  /**
+   * Rollback a link action: give the linked path its own copy of the data again
+   */
+  private async rollbackLink(action: ITransactionAction): Promise<ActionRollbackResult> {
+    if (!fileExists(action.from)) {
+      return { status: 'skipped', error: 'Linked file no longer exists' };
+    }
+
+    const result = await detachLink(action.from);
+    return result.success
+      ? { status: 'restored' }
+      : { status: 'failed', error: result.error };
+  }
+
   /**
    * Get transactions that can be rolled back
    */
@@ -1,21 +1,49 @@
 import * as path from 'path';
+import { Types } from 'mongoose';
 import { Scan, IScan, FileRecord, IFileRecord } from '../models';
+import { env } from '../config';
 import {
   logger,
-  calculateFileHash,
-  categorizeFile,
+  createPipelineStats,
+  groupBySize,
+  collapseHardLinks,
+  reclaimableSize,
+  resolveSizeGroups,
+  runWithConcurrency,
+  computeDirectoryHashes,
+  findDuplicateDirectories,
+  groupCopySiblings,
+  parseCopyName,
+  INCOMPLETE_CATEGORY,
   getExtension,
-  getAllFiles,
-  getFileInfo,
+  detectFileType,
+  getFileTypeByName,
+  isTypeMismatch,
+  resolveCategory,
+  walkFiles,
   formatBytes,
   generateId,
   directoryExists,
+  fileExists,
   isAccessible,
+  FileInfo,
+  HashPipelineStats,
+  WalkOptions,
 } from '../utils';
 
-export interface ScanOptions {
-  recursive?: boolean;
-  includeHidden?: boolean;
+export interface ScanOptions extends WalkOptions {
+  incremental?: boolean;
+  concurrency?: number;
+}
+
+export interface ScanChanges {
+  previousScanId: string | null;
+  reused: number;
+  rehashed: number;
+  added: number;
+  // Files of the previous scan that no longer exist; files left out by
+  // different filters are not counted
+  removed: number;
 }
 
 export interface ScanResult {
@@ -25,22 +53,64 @@ export interface ScanResult {
   totalSize: number;
   duplicatesCount: number;
   duplicatesSize: number;
+  bytesRead: number;
   categories: Record<string, { count: number; size: number }>;
-  files: ScannedFile[];
   duplicateGroups: DuplicateGroup[];
+  // Whole folders with identical contents
+  directoryGroups: DirectoryDuplicateGroup[];
+  // Files named like copies of each other, such as "report (1).pdf"
+  copySiblingGroups: CopySiblingGroup[];
+  hardLinkGroups: HardLinkGroup[];
+  typeMismatches: TypeMismatch[];
+  // Unfinished downloads and empty files, most idle first
+  incompleteFiles: IncompleteFile[];
+  changes?: ScanChanges;
+}
+
+/**
+ * A partial download (.crdownload, .part, ...) or empty file, with how long
+ * it has gone unmodified as of the scan
+ */
+export interface IncompleteFile {
+  path: string;
+  extension: string;
+  size: number;
+  modifiedAt: Date;
+  untouchedMs: number;
+}
+
+/**
+ * A file whose extension disagrees with its detected content
+ */
+export interface TypeMismatch {
+  path: string;
+  extension: string;
+  detectedType: string;
+  mimeType: string;
 }
 
 export interface ScannedFile {
   path: string;
   name: string;
-  hash: string;
+  partialHash?: string;
+  hash?: string;
+  perceptualHash?: string;
+  minHash?: string;
   extension: string;
   category: string;
+  detectedType?: string;
+  mimeType?: string;
+  typeMismatch?: boolean;
   size: number;
   createdAt: Date;
   modifiedAt: Date;
   isDuplicate: boolean;
   duplicateOf?: string;
+  device?: string;
+  inode?: string;
+  nlink?: number;
+  isSymlink?: boolean;
+  hardLinkOf?: string;
 }
 
 export interface DuplicateGroup {
@@ -50,6 +120,86 @@ export interface DuplicateGroup {
   wastedSize: number;
 }
 
+/**
+ * Directories whose files and subfolders are identical, compared by a hash
+ * built from the names and hashes of everything inside them
+ */
+export interface DirectoryDuplicateGroup {
+  hash: string;
+  directories: Array<{ path: string; size: number; fileCount: number }>;
+  totalSize: number;
+  wastedSize: number;
+}
+
+/**
+ * Files in one folder whose names differ only by browser or file manager copy
+ * markers ("report (1).pdf", "Copy of report.pdf", "report-1.pdf")
+ */
+export interface CopySiblingGroup {
+  // The clean name the copies share
+  baseName: string;
+  directory: string;
+  files: Array<{ path: string; size: number; modifiedAt: Date }>;
+  // Sets of byte-identical siblings: safe to dedupe
+  identical: string[][];
+  // Siblings whose content matches no other sibling: real versions
+  versions: string[];
+}
+
+/**
+ * Paths that point to the same inode (hard links or followed symlinks).
+ * They share one copy of the data, so they are not duplicates.
+ */
+export interface HardLinkGroup {
+  device: string;
+  inode: string;
+  size: number;
+  files: string[];
+}
+
+// Fields of a stored file record read back for folder and copy detection
+type StoredFileRecord = Pick<IFileRecord, 'filePath' | 'size' | 'hash' | 'hardLinkOf' | 'fileModifiedAt'>;
+
+interface StoredFileSummary {
+  path: string;
+  size: number;
+  modifiedAt: Date;
+  hash?: string;
+}
+
+// Stored file record of the previous scan, read to reuse its hashes
+type CachedFileRecord = Pick<IFileRecord, 'filePath' | 'partialHash' | 'hash' | 'perceptualHash' | 'minHash' | 'detectedType' | 'size' | 'fileModifiedAt'>;
+
+// Stored file record read back for hashing
+interface ScanFileRecord extends Pick<IFileRecord,
+  'filePath' | 'fileName' | 'partialHash' | 'hash' | 'extension' | 'category' | 'detectedType' | 'mimeType'
+  | 'typeMismatch' | 'size' | 'fileCreatedAt' | 'fileModifiedAt' | 'device' | 'inode' | 'nlink' | 'isSymlink'> {
+  _id: Types.ObjectId;
+}
+
+// File records are written and hashed in batches so memory stays bounded
+const RECORD_BATCH_SIZE = 100;
+const HASH_BATCH_SIZE = 1000;
+
+interface ScanCounters {
+  totalFiles: number;
+  totalSize: number;
+  categories: Record<string, { count: number; size: number }>;
+  typeMismatches: TypeMismatch[];
+  incompleteFiles: IncompleteFile[];
+  reused: number;
+  rehashed: number;
+  added: number;
+}
+
+interface DuplicateSummary {
+  duplicateGroups: DuplicateGroup[];
+  hardLinkGroups: HardLinkGroup[];
+  duplicatesCount: number;
+  duplicatesSize: number;
+  stats: HashPipelineStats;
+}
+
 export class ScannerService {
   private onProgress?: (current: number, total: number, file: string) => void;
 
@@ -58,10 +208,12 @@ export class ScannerService {
   }
 
   /**
-   * Scan a directory for files and detect duplicates
+   * Scan a directory for files and detect duplicates.
+   * File records are persisted while the directory is walked; a total of 0
+   * is passed to onProgress while the number of files is still unknown.
    */
   async scan(dirPath: string, options: ScanOptions = {}): Promise<ScanResult> {
-    const { recursive = true } = options;
+    const { incremental = false, concurrency, ...walkOptions } = options;
 
     // Validate directory
     if (!directoryExists(dirPath)) {
@@ -71,80 +223,363 @@ export class ScannerService {
     const scanId = generateId();
     logger.info(`Starting scan: ${dirPath} (ID: ${scanId})`);
 
-    // Get all files
-    const filePaths = await getAllFiles(dirPath, recursive);
-    const totalFiles = filePaths.length;
-    
-    logger.info(`Found ${totalFiles} files to scan`);
-
-    // Process files
-    const files: ScannedFile[] = [];
-    const hashMap: Map<string, ScannedFile[]> = new Map();
-    const categories: Record<string, { count: number; size: number }> = {};
-    let totalSize = 0;
-
-    for (let i = 0; i < filePaths.length; i++) {
-      const filePath = filePaths[i];
-      
-      if (this.onProgress) {
-        this.onProgress(i + 1, totalFiles, path.basename(filePath));
-      }
+    // Find the previous scan of this path for incremental mode
+    const previousScanId = incremental ? await this.findPreviousScanId(dirPath) : null;
+    if (incremental) {
+      logger.info(previousScanId
+        ? `Incremental scan: reusing hashes from scan ${previousScanId}`
+        : 'Incremental scan: no previous scan found, hashing all files');
+    }
+
+    const counters: ScanCounters = {
+      totalFiles: 0,
+      totalSize: 0,
+      categories: {},
+      typeMismatches: [],
+      incompleteFiles: [],
+      reused: 0,
+      rehashed: 0,
+      added: 0,
+    };
+
+    try {
+      // Walk and persist file records in batches
+      let batch: ScannedFile[] = [];
+
+      for await (const fileInfo of walkFiles(dirPath, { recursive: true, ...walkOptions })) {
+        if (this.onProgress) {
+          this.onProgress(counters.totalFiles + 1, 0, fileInfo.name);
+        }
 
-      try {
         // Skip inaccessible files
-        if (!isAccessible(filePath)) {
-          logger.debug(`Skipping inaccessible file: ${filePath}`);
+        if (!isAccessible(fileInfo.path)) {
+          logger.debug(`Skipping inaccessible file: ${fileInfo.path}`);
           continue;
         }
 
-        const fileInfo = getFileInfo(filePath);
-        if (!fileInfo || !fileInfo.isFile) continue;
-
-        // Calculate hash
-        const hash = await calculateFileHash(filePath);
-        const extension = getExtension(filePath);
-        const category = categorizeFile(filePath);
-
-        const scannedFile: ScannedFile = {
-          path: filePath,
-          name: fileInfo.name,
-          hash,
-          extension,
-          category,
-          size: fileInfo.size,
-          createdAt: fileInfo.createdAt,
-          modifiedAt: fileInfo.modifiedAt,
-          isDuplicate: false,
+        batch.push(this.toScannedFile(fileInfo));
+        counters.totalFiles++;
+        counters.totalSize += fileInfo.size;
+
+        if (batch.length >= RECORD_BATCH_SIZE) {
+          await this.saveBatch(scanId, batch, previousScanId, counters, concurrency);
+          batch = [];
+        }
+      }
+
+      if (batch.length > 0) {
+        await this.saveBatch(scanId, batch, previousScanId, counters, concurrency);
+      }
+
+      logger.info(`Found ${counters.totalFiles} files, checking for duplicates`);
+
+      // Detect duplicates: size → partial hash → full hash
+      const duplicates = await this.detectDuplicates(scanId, concurrency);
+      const { hashedFiles, unhashedDirectories, copyCandidates } = await this.loadStoredFiles(scanId);
+      const directoryGroups = this.detectDuplicateDirectories(hashedFiles, unhashedDirectories, dirPath);
+      const copySiblingGroups = this.detectCopySiblings(copyCandidates);
+
+      const result: ScanResult = {
+        scanId,
+        scannedPath: dirPath,
+        totalFiles: counters.totalFiles,
+        totalSize: counters.totalSize,
+        duplicatesCount: duplicates.duplicatesCount,
+        duplicatesSize: duplicates.duplicatesSize,
+        bytesRead: duplicates.stats.bytesRead,
+        categories: counters.categories,
+        duplicateGroups: duplicates.duplicateGroups,
+        directoryGroups,
+        copySiblingGroups,
+        hardLinkGroups: duplicates.hardLinkGroups,
+        typeMismatches: counters.typeMismatches,
+        incompleteFiles: counters.incompleteFiles.sort((a, b) => b.untouchedMs - a.untouchedMs),
+      };
+
+      if (incremental) {
+        result.changes = {
+          previousScanId,
+          reused: counters.reused,
+          rehashed: counters.rehashed,
+          added: counters.added,
+          removed: previousScanId ? await this.countRemovedFiles(previousScanId, scanId) : 0,
         };
+      }
 
-        files.push(scannedFile);
-        totalSize += fileInfo.size;
+      // Save scan document
+      await this.saveScanResults(result);
 
-        // Track for duplicate detection
-        if (!hashMap.has(hash)) {
-          hashMap.set(hash, []);
-        }
-        hashMap.get(hash)!.push(scannedFile);
+      logger.success(`Scan completed: ${result.totalFiles} files, ${result.duplicatesCount} duplicates (${formatBytes(result.duplicatesSize)} wasted, ${formatBytes(result.bytesRead)} read)`);
+      if (directoryGroups.length > 0) {
+        logger.info(`${directoryGroups.length} groups of identical folders found`);
+      }
+      if (copySiblingGroups.length > 0) {
+        logger.info(`${copySiblingGroups.length} groups of files named as copies, such as "report (1).pdf"`);
+      }
+      if (result.incompleteFiles.length > 0) {
+        logger.info(`${result.incompleteFiles.length} incomplete downloads or empty files found`);
+      }
+      if (result.typeMismatches.length > 0) {
+        logger.warn(`${result.typeMismatches.length} files have an extension that does not match their content`);
+      }
+      if (result.changes) {
+        const { reused, rehashed, added, removed } = result.changes;
+        logger.info(`Changes since last scan: ${reused} reused, ${rehashed} rehashed, ${added} added, ${removed} removed`);
+      }
+
+      return result;
+    } catch (error) {
+      // Don't leave orphaned file records behind
+      await FileRecord.deleteMany({ scanId }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a scanned file entry from walker output
+   */
+  private toScannedFile(fileInfo: FileInfo): ScannedFile {
+    return {
+      path: fileInfo.path,
+      name: fileInfo.name,
+      extension: getExtension(fileInfo.path),
+      category: resolveCategory(fileInfo.path, null, fileInfo.size),
+      size: fileInfo.size,
+      createdAt: fileInfo.createdAt,
+      modifiedAt: fileInfo.modifiedAt,
+      isDuplicate: false,
+      device: fileInfo.device,
+      inode: fileInfo.inode,
+      nlink: fileInfo.nlink,
+      isSymlink: fileInfo.isSymlink,
+    };
+  }
+
+  /**
+   * Find the most recent scan of the same path
+   */
+  private async findPreviousScanId(dirPath: string): Promise<string | null> {
+    const lastScan = await Scan.findOne({ scannedPath: dirPath }).sort({ createdAt: -1 });
+    return lastScan ? lastScan.scanId : null;
+  }
 
-        // Update category stats
-        if (!categories[category]) {
-          categories[category] = { count: 0, size: 0 };
+  /**
+   * Count the files of the previous scan that are gone. A path missing from
+   * this scan may only have been filtered out, so it must be gone from disk too.
+   */
+  private async countRemovedFiles(previousScanId: string, scanId: string): Promise<number> {
+    let removed = 0;
+    let batch: string[] = [];
+
+    const countBatch = async () => {
+      const present = await FileRecord.find({ scanId, filePath: { $in: batch } }).distinct('filePath');
+      const scanned = new Set<string>(present);
+      removed += batch.filter(filePath => !scanned.has(filePath) && !fileExists(filePath)).length;
+      batch = [];
+    };
+
+    const cursor = FileRecord.find({ scanId: previousScanId }).select('filePath').lean<Array<{ filePath: string }>>().cursor();
+    for await (const record of cursor as AsyncIterable<{ filePath: string }>) {
+      batch.push(record.filePath);
+      if (batch.length >= HASH_BATCH_SIZE) {
+        await countBatch();
+      }
+    }
+    if (batch.length > 0) {
+      await countBatch();
+    }
+
+    return removed;
+  }
+
+  /**
+   * Reuse hashes from the previous scan for a batch, detect content types,
+   * then insert its file records
+   */
+  private async saveBatch(
+    scanId: string,
+    batch: ScannedFile[],
+    previousScanId: string | null,
+    counters: ScanCounters,
+    concurrency: number = env.hashConcurrency
+  ): Promise<void> {
+    const unchanged = new Set<ScannedFile>();
+
+    if (previousScanId) {
+      const previousRecords = await FileRecord.find({
+        scanId: previousScanId,
+        filePath: { $in: batch.map(f => f.path) },
+      })
+        .select('filePath partialHash hash perceptualHash minHash detectedType size fileModifiedAt')
+        .lean<CachedFileRecord[]>();
+
+      const cache: Map<string, CachedFileRecord> = new Map(previousRecords.map(r => [r.filePath, r]));
+
+      for (const file of batch) {
+        const cached = cache.get(file.path);
+        if (cached && this.isUnchanged(cached, file.size, file.modifiedAt)) {
+          // Reuse the previous hashes when size and mtime are unchanged
+          file.partialHash = cached.partialHash || undefined;
+          file.hash = cached.hash || undefined;
+          file.perceptualHash = cached.perceptualHash || undefined;
+          file.minHash = cached.minHash || undefined;
+          if (cached.detectedType) {
+            file.detectedType = cached.detectedType;
+            unchanged.add(file);
+          }
+          counters.reused++;
+        } else if (cached) {
+          counters.rehashed++;
+        } else {
+          counters.added++;
         }
-        categories[category].count++;
-        categories[category].size += fileInfo.size;
+      }
+    } else {
+      counters.added += batch.length;
+    }
+
+    // Sniff the leading bytes of new and changed files
+    await runWithConcurrency(batch, concurrency, async (file) => {
+      const detected = unchanged.has(file)
+        ? getFileTypeByName(file.detectedType!)
+        : await detectFileType(file.path);
+      if (detected) {
+        file.detectedType = detected.type;
+        file.mimeType = detected.mimeType;
+        file.category = resolveCategory(file.path, detected, file.size);
+        file.typeMismatch = isTypeMismatch(file.path, detected);
+      }
+    });
+
+    for (const file of batch) {
+      if (!counters.categories[file.category]) {
+        counters.categories[file.category] = { count: 0, size: 0 };
+      }
+      counters.categories[file.category].count++;
+      counters.categories[file.category].size += file.size;
 
-      } catch (error) {
-        logger.warn(`Error processing file: ${filePath}`, error);
+      if (file.category === INCOMPLETE_CATEGORY) {
+        counters.incompleteFiles.push({
+          path: file.path,
+          extension: file.extension,
+          size: file.size,
+          modifiedAt: file.modifiedAt,
+          untouchedMs: Math.max(0, Date.now() - file.modifiedAt.getTime()),
+        });
+      }
+
+      if (file.typeMismatch) {
+        counters.typeMismatches.push({
+          path: file.path,
+          extension: file.extension,
+          detectedType: file.detectedType!,
+          mimeType: file.mimeType!,
+        });
       }
     }
 
-    // Detect duplicates
+    await FileRecord.insertMany(batch.map(file => ({
+      scanId,
+      fileName: file.name,
+      filePath: file.path,
+      originalPath: file.path,
+      partialHash: file.partialHash,
+      hash: file.hash,
+      perceptualHash: file.perceptualHash,
+      minHash: file.minHash,
+      extension: file.extension,
+      category: file.category,
+      detectedType: file.detectedType,
+      mimeType: file.mimeType,
+      typeMismatch: file.typeMismatch ?? false,
+      size: file.size,
+      isDuplicate: false,
+      device: file.device,
+      inode: file.inode,
+      nlink: file.nlink,
+      isSymlink: file.isSymlink,
+      fileCreatedAt: file.createdAt,
+      fileModifiedAt: file.modifiedAt,
+    })));
+  }
+
+  /**
+   * Check whether a previously recorded file still has the same size and mtime
+   */
+  private isUnchanged(
+    cached: { size: number; fileModifiedAt?: Date },
+    size: number,
+    modifiedAt: Date
+  ): boolean {
+    if (!cached.fileModifiedAt) return false;
+    return cached.size === size && new Date(cached.fileModifiedAt).getTime() === modifiedAt.getTime();
+  }
+
+  /**
+   * Detect duplicates among the persisted file records of a scan.
+   * Only sizes shared by more than one file are loaded, in bounded batches,
+   * and the resulting hashes and duplicate links are written back.
+   */
+  private async detectDuplicates(scanId: string, concurrency?: number): Promise<DuplicateSummary> {
+    const stats = createPipelineStats();
     const duplicateGroups: DuplicateGroup[] = [];
+    const hardLinkGroups: HardLinkGroup[] = [];
     let duplicatesCount = 0;
     let duplicatesSize = 0;
 
-    for (const [hash, groupFiles] of hashMap.entries()) {
-      if (groupFiles.length > 1) {
+    const sizeBuckets: Array<{ _id: number; count: number }> = await FileRecord.aggregate([
+      { $match: { scanId } },
+      { $group: { _id: '$size', count: { $sum: 1 } } },
+      { $match: { count: { $gt: 1 } } },
+    ]);
+
+    const total = sizeBuckets.reduce((sum, b) => sum + b.count, 0);
+    let current = 0;
+    let index = 0;
+
+    while (index < sizeBuckets.length) {
+      // Take whole size buckets until the batch is full
+      const sizes: number[] = [];
+      let batchFiles = 0;
+      while (index < sizeBuckets.length && (sizes.length === 0 || batchFiles + sizeBuckets[index].count <= HASH_BATCH_SIZE)) {
+        sizes.push(sizeBuckets[index]._id);
+        batchFiles += sizeBuckets[index].count;
+        index++;
+      }
+
+      const records = await FileRecord.find({ scanId, size: { $in: sizes } }).lean<ScanFileRecord[]>();
+      const files = records.map(record => this.recordToScannedFile(record));
+      const recordIds = new Map(files.map((file, i) => [file, records[i]._id]));
+
+      // Hard links share an inode: hash one path per inode and report the rest separately
+      const { unique, linkGroups } = collapseHardLinks(files);
+      for (const linkGroup of linkGroups) {
+        const [representative, ...links] = linkGroup;
+        for (const link of links) {
+          link.hardLinkOf = representative.path;
+        }
+        hardLinkGroups.push({
+          device: representative.device!,
+          inode: representative.inode!,
+          size: representative.size,
+          files: linkGroup.map(f => f.path),
+        });
+        current += links.length;
+      }
+
+      const groups = await resolveSizeGroups(
+        [...groupBySize(unique).values()],
+        stats,
+        {
+          concurrency,
+          onHashed: file => {
+            current++;
+            this.onProgress?.(current, total, path.basename(file.path));
+          },
+        }
+      );
+
+      for (const groupFiles of groups) {
         // Sort by date (oldest first) or size (largest first)
         groupFiles.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
         
@@ -156,77 +591,227 @@ export class ScannerService {
           dup.isDuplicate = true;
           dup.duplicateOf = original.path;
           duplicatesCount++;
-          duplicatesSize += dup.size;
+          duplicatesSize += reclaimableSize(dup);
         }
 
         duplicateGroups.push({
-          hash,
+          hash: original.hash!,
           files: groupFiles,
           totalSize: groupFiles.reduce((sum, f) => sum + f.size, 0),
-          wastedSize: duplicates.reduce((sum, f) => sum + f.size, 0),
+          wastedSize: duplicates.reduce((sum, f) => sum + reclaimableSize(f), 0),
         });
       }
+
+      // Write hashes and duplicate links back
+      const updates = files
+        .filter(file => file.partialHash || file.hash || file.hardLinkOf)
+        .map(file => ({
+          updateOne: {
+            filter: { _id: recordIds.get(file) },
+            update: {
+              $set: {
+                partialHash: file.partialHash,
+                hash: file.hash,
+                isDuplicate: file.isDuplicate,
+                duplicateOf: file.duplicateOf ?? null,
+                hardLinkOf: file.hardLinkOf ?? null,
+              },
+            },
+          },
+        }));
+      if (updates.length > 0) {
+        await FileRecord.bulkWrite(updates);
+      }
     }
 
-    // Create scan result
-    const result: ScanResult = {
-      scanId,
-      scannedPath: dirPath,
-      totalFiles: files.length,
-      totalSize,
-      duplicatesCount,
-      duplicatesSize,
-      categories,
-      files,
-      duplicateGroups,
-    };
+    return { duplicateGroups, hardLinkGroups, duplicatesCount, duplicatesSize, stats };
+  }
+
+  /**
+   * Read back what folder and copy detection need from a scan. Records are
+   * streamed, so memory is bounded by the hashed files and the copies rather
+   * than the whole scan. Hard links take the hash of the path they link to.
+   * Files never hashed had a unique size or partial hash, so nothing else has
+   * their content: only their folders are kept, as those cannot be duplicates.
+   */
+  private async loadStoredFiles(scanId: string): Promise<{
+    hashedFiles: StoredFileSummary[];
+    unhashedDirectories: Set<string>;
+    copyCandidates: StoredFileSummary[];
+  }> {
+    const hashedFiles: StoredFileSummary[] = [];
+    const unhashedDirectories = new Set<string>();
+    const copies: StoredFileSummary[] = [];
+    const hashes: Map<string, string> = new Map();
+    const links: Array<{ file: StoredFileSummary; target: string }> = [];
+
+    const toSummary = (record: StoredFileRecord): StoredFileSummary => ({
+      path: record.filePath,
+      size: record.size,
+      modifiedAt: new Date(record.fileModifiedAt),
+      hash: record.hash || undefined,
+    });
+
+    const cursor = FileRecord.find({ scanId })
+      .select('filePath size hash hardLinkOf fileModifiedAt')
+      .lean<StoredFileRecord[]>()
+      .cursor();
+
+    for await (const record of cursor as AsyncIterable<StoredFileRecord>) {
+      const file = toSummary(record);
+      if (file.hash) {
+        hashes.set(file.path, file.hash);
+        hashedFiles.push(file);
+      } else if (record.hardLinkOf) {
+        links.push({ file, target: record.hardLinkOf });
+      } else {
+        unhashedDirectories.add(path.dirname(file.path));
+      }
 
-    // Save to database
-    await this.saveScanResults(result);
+      if (parseCopyName(path.basename(file.path)).marker !== 'none') {
+        copies.push(file);
+      }
+    }
+
+    // A link may be streamed before the path it links to
+    for (const { file, target } of links) {
+      file.hash = hashes.get(target);
+      if (file.hash) {
+        hashedFiles.push(file);
+      } else {
+        unhashedDirectories.add(path.dirname(file.path));
+      }
+    }
+
+    // The originals the copies are named after, e.g. "report.pdf" for "report (1).pdf"
+    const copyPaths = new Set(copies.map(file => file.path));
+    const originalPaths = [...new Set(copies.map(file => path.join(path.dirname(file.path), parseCopyName(path.basename(file.path)).baseName)))]
+      .filter(originalPath => !copyPaths.has(originalPath));
+    const originals = originalPaths.length > 0
+      ? await FileRecord.find({ scanId, filePath: { $in: originalPaths } })
+        .select('filePath size hash hardLinkOf fileModifiedAt')
+        .lean<StoredFileRecord[]>()
+      : [];
+
+    const copyCandidates = [
+      ...copies,
+      ...originals.map(record => ({
+        ...toSummary(record),
+        hash: record.hash || (record.hardLinkOf ? hashes.get(record.hardLinkOf) : undefined),
+      })),
+    ];
+
+    return { hashedFiles, unhashedDirectories, copyCandidates };
+  }
+
+  /**
+   * Find identical folders from the stored file hashes
+   */
+  private detectDuplicateDirectories(
+    files: StoredFileSummary[],
+    unhashedDirectories: Set<string>,
+    dirPath: string
+  ): DirectoryDuplicateGroup[] {
+    return findDuplicateDirectories(computeDirectoryHashes(dirPath, files, unhashedDirectories))
+      .map(group => {
+        // Shortest path first, as the likely original
+        const directories = [...group]
+          .sort((a, b) => a.path.length - b.path.length)
+          .map(({ path: dir, size, fileCount }) => ({ path: dir, size, fileCount }));
+        return {
+          hash: group[0].hash,
+          directories,
+          totalSize: directories.reduce((sum, d) => sum + d.size, 0),
+          wastedSize: directories.slice(1).reduce((sum, d) => sum + d.size, 0),
+        };
+      })
+      .sort((a, b) => b.wastedSize - a.wastedSize);
+  }
 
-    logger.success(`Scan completed: ${files.length} files, ${duplicatesCount} duplicates (${formatBytes(duplicatesSize)} wasted)`);
+  /**
+   * Group files named like copies of each other and split each group into
+   * byte-identical sets and real versions
+   */
+  private detectCopySiblings(files: StoredFileSummary[]): CopySiblingGroup[] {
+    return groupCopySiblings(files)
+      .map(group => {
+        const byHash = new Map<string, string[]>();
+        for (const file of group.files) {
+          if (!file.hash) continue;
+          const paths = byHash.get(file.hash);
+          if (paths) {
+            paths.push(file.path);
+          } else {
+            byHash.set(file.hash, [file.path]);
+          }
+        }
+        const identical = [...byHash.values()].filter(paths => paths.length > 1);
+        const inIdentical = new Set(identical.flat());
+
+        return {
+          baseName: group.baseName,
+          directory: group.directory,
+          files: group.files.map(({ path: filePath, size, modifiedAt }) => ({ path: filePath, size, modifiedAt })),
+          identical,
+          versions: group.files.map(f => f.path).filter(filePath => !inIdentical.has(filePath)),
+        };
+      })
+      .sort((a, b) => b.files.length - a.files.length);
+  }
 
-    return result;
+  /**
+   * Convert a stored file record back to a scanned file
+   */
+  private recordToScannedFile(record: ScanFileRecord): ScannedFile {
+    return {
+      path: record.filePath,
+      name: record.fileName,
+      partialHash: record.partialHash || undefined,
+      hash: record.hash || undefined,
+      extension: record.extension,
+      category: record.category,
+      detectedType: record.detectedType || undefined,
+      mimeType: record.mimeType || undefined,
+      typeMismatch: record.typeMismatch,
+      size: record.size,
+      createdAt: new Date(record.fileCreatedAt),
+      modifiedAt: new Date(record.fileModifiedAt),
+      isDuplicate: false,
+      device: record.device,
+      inode: record.inode,
+      nlink: record.nlink,
+      isSymlink: record.isSymlink,
+    };
   }
 
   /**
-   * Save scan results to MongoDB
+   * Save the scan document to MongoDB
    */
   private async saveScanResults(result: ScanResult): Promise<void> {
     try {
-      // Save scan document
       const scan = new Scan({
         scanId: result.scanId,
         scannedPath: result.scannedPath,
+        previousScanId: result.changes?.previousScanId ?? undefined,
         totalFiles: result.totalFiles,
         totalSize: result.totalSize,
         duplicatesCount: result.duplicatesCount,
         duplicatesSize: result.duplicatesSize,
+        bytesRead: result.bytesRead,
+        typeMismatchCount: result.typeMismatches.length,
+        incompleteCount: result.incompleteFiles.length,
         categories: result.categories,
+        changes: result.changes
+          ? {
+              reused: result.changes.reused,
+              rehashed: result.changes.rehashed,
+              added: result.changes.added,
+              removed: result.changes.removed,
+            }
+          : undefined,
       });
       await scan.save();
 
-      // Save file records in batches
-      const batchSize = 100;
-      for (let i = 0; i < result.files.length; i += batchSize) {
-        const batch = result.files.slice(i, i + batchSize);
-        const fileRecords = batch.map(file => ({
-          scanId: result.scanId,
-          fileName: file.name,
-          filePath: file.path,
-          originalPath: file.path,
-          hash: file.hash,
-          extension: file.extension,
-          category: file.category,
-          size: file.size,
-          isDuplicate: file.isDuplicate,
-          duplicateOf: file.duplicateOf,
-          fileCreatedAt: file.createdAt,
-          fileModifiedAt: file.modifiedAt,
-        }));
-        await FileRecord.insertMany(fileRecords);
-      }
-
       logger.debug(`Saved scan results to database: ${result.scanId}`);
     } catch (error) {
       logger.error('Failed to save scan results to database', error);
@@ -261,6 +846,13 @@ export class ScannerService {
   async getDuplicates(scanId: string): Promise<IFileRecord[]> {
     return FileRecord.find({ scanId, isDuplicate: true });
   }
+
+  /**
+   * Get files whose extension disagrees with their content for a scan
+   */
+  async getTypeMismatches(scanId: string): Promise<IFileRecord[]> {
+    return FileRecord.find({ scanId, typeMismatch: true });
+  }
 }
 
 export default ScannerService;
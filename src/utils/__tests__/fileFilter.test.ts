@@ -0,0 +1,120 @@
+import { globToRegExp, matchesGlob, matchesAnyGlob, isHiddenName, parseSize, parseWalkOptions } from '../fileFilter';
+
+describe('globToRegExp', () => {
+  it('keeps `*` and `?` inside one path segment', () => {
+    expect(globToRegExp('*.txt').test('notes.txt')).toBe(true);
+    expect(globToRegExp('*.txt').test('docs/notes.txt')).toBe(false);
+    expect(globToRegExp('file?.log').test('file1.log')).toBe(true);
+    expect(globToRegExp('file?.log').test('file/.log')).toBe(false);
+  });
+
+  it('lets `**/` match zero or more directories', () => {
+    const regExp = globToRegExp('src/**/*.ts');
+    expect(regExp.test('src/index.ts')).toBe(true);
+    expect(regExp.test('src/a/b/index.ts')).toBe(true);
+    expect(regExp.test('lib/index.ts')).toBe(false);
+  });
+
+  it('supports alternatives and character classes', () => {
+    expect(globToRegExp('*.{jpg,png}').test('photo.png')).toBe(true);
+    expect(globToRegExp('*.{jpg,png}').test('photo.gif')).toBe(false);
+    expect(globToRegExp('[ab].txt').test('a.txt')).toBe(true);
+    expect(globToRegExp('[!ab].txt').test('a.txt')).toBe(false);
+    expect(globToRegExp('[!ab].txt').test('c.txt')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a+b.txt').test('a+b.txt')).toBe(true);
+    expect(globToRegExp('a+b.txt').test('aab.txt')).toBe(false);
+    expect(globToRegExp('a.txt').test('abtxt')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('matches patterns without a slash against the basename at any depth', () => {
+    expect(matchesGlob('a/b/.DS_Store', '.DS_Store')).toBe(true);
+    expect(matchesGlob('a/b/cache', 'cache/')).toBe(true);
+  });
+
+  it('matches patterns with a slash against the whole relative path', () => {
+    expect(matchesGlob('build/out.js', 'build/*.js')).toBe(true);
+    expect(matchesGlob('src/build/out.js', 'build/*.js')).toBe(false);
+    expect(matchesGlob('build/out.js', './build/*.js')).toBe(true);
+    expect(matchesGlob('build/out.js', '/build/*.js')).toBe(true);
+  });
+
+  it('matches when any pattern in a list does', () => {
+    expect(matchesAnyGlob('a/node_modules', ['*.log', 'node_modules'])).toBe(true);
+    expect(matchesAnyGlob('a/readme.md', ['*.log', 'node_modules'])).toBe(false);
+    expect(matchesAnyGlob('a/readme.md', [])).toBe(false);
+  });
+});
+
+describe('isHiddenName', () => {
+  it('treats dot-prefixed names as hidden', () => {
+    expect(isHiddenName('.git')).toBe(true);
+    expect(isHiddenName('notes.txt')).toBe(false);
+  });
+});
+
+describe('parseSize', () => {
+  it('parses plain byte counts and 1024-based units', () => {
+    expect(parseSize('500')).toBe(500);
+    expect(parseSize('10KB')).toBe(10 * 1024);
+    expect(parseSize('1.5 gb')).toBe(Math.round(1.5 * 1024 ** 3));
+  });
+
+  it('rejects malformed sizes', () => {
+    expect(parseSize('')).toBeNull();
+    expect(parseSize('-1')).toBeNull();
+    expect(parseSize('10 XB')).toBeNull();
+  });
+});
+
+describe('parseWalkOptions', () => {
+  it('returns defaults for a missing body', () => {
+    expect(parseWalkOptions(undefined)).toEqual({
+      options: {
+        includeHidden: false,
+        followSymlinks: false,
+        include: undefined,
+        exclude: undefined,
+        maxDepth: undefined,
+        minSize: undefined,
+        maxSize: undefined,
+      },
+    });
+  });
+
+  it('parses lists, depths and sizes', () => {
+    const { options, error } = parseWalkOptions({
+      include: '*.jpg, *.png',
+      exclude: ['tmp', ' '],
+      maxDepth: '2',
+      minSize: '1KB',
+      maxSize: 2048,
+      includeHidden: true,
+    });
+    expect(error).toBeUndefined();
+    expect(options).toMatchObject({
+      include: ['*.jpg', '*.png'],
+      exclude: ['tmp'],
+      maxDepth: 2,
+      minSize: 1024,
+      maxSize: 2048,
+      includeHidden: true,
+      followSymlinks: false,
+    });
+  });
+
+  it('rejects bodies that are not objects', () => {
+    expect(parseWalkOptions('src').error).toBe('Request body must be an object');
+    expect(parseWalkOptions([1]).error).toBe('Request body must be an object');
+  });
+
+  it('rejects invalid depths and sizes', () => {
+    expect(parseWalkOptions({ maxDepth: '1.5' }).error).toBe('maxDepth must be a non-negative integer');
+    expect(parseWalkOptions({ maxDepth: -1 }).error).toBe('maxDepth must be a non-negative integer');
+    expect(parseWalkOptions({ minSize: 'lots' }).error).toMatch(/minSize and maxSize/);
+  });
+});
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { env } from '../../config/env';
+import { safeMove, safeDelete, replaceWithLink, detachLink } from '../fsSafe';
+
+let root: string;
+let originalTrashPath: string;
+
+function write(relativePath: string, content: string, mtime?: Date): string {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  if (mtime) fs.utimesSync(filePath, mtime, mtime);
+  return filePath;
+}
+
+function read(filePath: string): string {
+  return fs.readFileSync(filePath, 'utf8');
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'deskpilot-fssafe-'));
+  originalTrashPath = env.trashPath;
+  env.trashPath = path.join(root, '.trash');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  env.trashPath = originalTrashPath;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('safeMove', () => {
+  it('moves into a new directory when nothing is in the way', async () => {
+    const from = write('a.txt', 'source');
+    const to = path.join(root, 'Documents', 'a.txt');
+
+    const result = await safeMove(from, to, 'rename');
+
+    expect(result).toMatchObject({ success: true, to, collision: undefined });
+    expect(fs.existsSync(from)).toBe(false);
+    expect(read(to)).toBe('source');
+  });
+
+  it('fails without touching anything when the source is missing', async () => {
+    const result = await safeMove(path.join(root, 'missing.txt'), path.join(root, 'b.txt'));
+    expect(result).toMatchObject({ success: false, error: 'Source file does not exist' });
+  });
+
+  it('renames around an existing file by default', async () => {
+    const from = write('a.txt', 'source');
+    const to = write('Documents/a.txt', 'existing');
+
+    const result = await safeMove(from, to);
+
+    expect(result).toMatchObject({ success: true, collision: 'renamed', to: path.join(root, 'Documents', 'a_1.txt') });
+    expect(read(to)).toBe('existing');
+    expect(read(result.to)).toBe('source');
+  });
+
+  it('leaves both files in place when skipping', async () => {
+    const from = write('a.txt', 'source');
+    const to = write('Documents/a.txt', 'existing');
+
+    const result = await safeMove(from, to, 'skip');
+
+    expect(result).toMatchObject({ success: true, collision: 'skipped', to: from });
+    expect(read(from)).toBe('source');
+    expect(read(to)).toBe('existing');
+  });
+
+  it('trashes the replaced file when overwriting so it can be restored', async () => {
+    const from = write('a.txt', 'source');
+    const to = write('Documents/a.txt', 'existing');
+
+    const result = await safeMove(from, to, 'overwrite');
+
+    expect(result).toMatchObject({ success: true, collision: 'overwritten', to });
+    expect(read(to)).toBe('source');
+    expect(result.replacedPath?.startsWith(env.trashPath)).toBe(true);
+    expect(read(result.replacedPath!)).toBe('existing');
+  });
+
+  it('keeps whichever file is newer', async () => {
+    const older = new Date(2020, 0, 1);
+    const newer = new Date(2021, 0, 1);
+
+    const staleSource = write('a.txt', 'old source', older);
+    const to = write('Documents/a.txt', 'newer existing', newer);
+    expect(await safeMove(staleSource, to, 'keep-newer')).toMatchObject({ collision: 'skipped' });
+    expect(read(to)).toBe('newer existing');
+
+    const freshSource = write('b.txt', 'fresh source', new Date(2022, 0, 1));
+    expect(await safeMove(freshSource, to, 'keep-newer')).toMatchObject({ collision: 'overwritten' });
+    expect(read(to)).toBe('fresh source');
+  });
+
+  it('trashes the source when the existing file is identical, renames otherwise', async () => {
+    const to = write('Documents/a.txt', 'same');
+    const identical = write('a.txt', 'same');
+
+    const deduplicated = await safeMove(identical, to, 'dedupe');
+    expect(deduplicated).toMatchObject({ success: true, collision: 'deduplicated' });
+    expect(fs.existsSync(identical)).toBe(false);
+    expect(deduplicated.to.startsWith(env.trashPath)).toBe(true);
+    expect(read(deduplicated.to)).toBe('same');
+
+    const different = write('a.txt', 'diff');
+    const renamed = await safeMove(different, to, 'dedupe');
+    expect(renamed).toMatchObject({ success: true, collision: 'renamed', to: path.join(root, 'Documents', 'a_1.txt') });
+    expect(read(to)).toBe('same');
+  });
+
+  it('replaces the target in place when collisions are not handled', async () => {
+    const from = write('a.txt', 'source');
+    const to = write('Documents/a.txt', 'existing');
+
+    const result = await safeMove(from, to, false);
+
+    expect(result).toMatchObject({ success: true, to, collision: undefined, replacedPath: undefined });
+    expect(read(to)).toBe('source');
+  });
+});
+
+describe('safeDelete', () => {
+  it('moves files to the trash by default', async () => {
+    const filePath = write('a.txt', 'content');
+
+    const result = await safeDelete(filePath);
+
+    expect(result).toMatchObject({ success: true, movedToTrash: true });
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(path.dirname(result.trashPath!)).toBe(env.trashPath);
+    expect(read(result.trashPath!)).toBe('content');
+  });
+
+  it('removes files and directories for good when asked', async () => {
+    const filePath = write('a.txt', 'content');
+    const dirPath = path.dirname(write('folder/b.txt', 'content'));
+
+    expect(await safeDelete(filePath, false)).toMatchObject({ success: true, movedToTrash: false });
+    expect(await safeDelete(dirPath, false)).toMatchObject({ success: true, movedToTrash: false });
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.existsSync(dirPath)).toBe(false);
+    expect(fs.existsSync(env.trashPath)).toBe(false);
+  });
+
+  it('reports files that do not exist', async () => {
+    const result = await safeDelete(path.join(root, 'missing.txt'));
+    expect(result).toMatchObject({ success: false, error: 'File does not exist' });
+  });
+});
+
+describe('replaceWithLink', () => {
+  it('replaces a duplicate with a hard link to the kept file', async () => {
+    const kept = write('a.txt', 'content');
+    const duplicate = write('copies/a.txt', 'content');
+
+    const result = await replaceWithLink(duplicate, kept, 'hardlink');
+
+    expect(result).toMatchObject({ success: true, path: duplicate, target: kept, linkType: 'hardlink' });
+    expect(fs.statSync(duplicate).ino).toBe(fs.statSync(kept).ino);
+    expect(fs.statSync(kept).nlink).toBe(2);
+    expect(fs.readdirSync(path.dirname(duplicate))).toEqual(['a.txt']);
+  });
+
+  it('uses a clone or a hard link in auto mode', async () => {
+    const kept = write('a.txt', 'content');
+    const duplicate = write('b.txt', 'content');
+
+    const result = await replaceWithLink(duplicate, kept);
+
+    expect(result.success).toBe(true);
+    expect(read(duplicate)).toBe('content');
+  });
+
+  it('leaves the file alone when the kept file is missing', async () => {
+    const duplicate = write('b.txt', 'content');
+
+    const result = await replaceWithLink(duplicate, path.join(root, 'missing.txt'), 'hardlink');
+
+    expect(result.success).toBe(false);
+    expect(read(duplicate)).toBe('content');
+    expect(fs.readdirSync(root)).toEqual(['b.txt']);
+  });
+});
+
+describe('detachLink', () => {
+  it('gives a hard-linked path its own copy, keeping its mode and times', async () => {
+    const mtime = new Date(2020, 0, 1);
+    const kept = write('a.txt', 'content', mtime);
+    const linked = path.join(root, 'b.txt');
+    fs.linkSync(kept, linked);
+    fs.chmodSync(linked, 0o640);
+
+    expect(await detachLink(linked)).toEqual({ success: true });
+
+    const stats = fs.statSync(linked);
+    expect(stats.ino).not.toBe(fs.statSync(kept).ino);
+    expect(stats.nlink).toBe(1);
+    expect(stats.mode & 0o777).toBe(0o640);
+    expect(stats.mtimeMs).toBe(mtime.getTime());
+    expect(read(linked)).toBe('content');
+  });
+
+  it('reports files that do not exist', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(await detachLink(path.join(root, 'missing.txt'))).toEqual({ success: false, error: 'File does not exist' });
+  });
+});
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { calculatePerceptualHash, hammingDistance, clusterByDistance } from '../imageHash';
+
+let root: string;
+
+// RGBA pixels from a brightness function of the position (0 to 1 on both axes)
+function pixels(width: number, height: number, brightness: (x: number, y: number) => number): Buffer {
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round(255 * brightness(x / width, y / height));
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return data;
+}
+
+function writePng(name: string, width: number, height: number, brightness: (x: number, y: number) => number): string {
+  const png = new PNG({ width, height });
+  png.data = pixels(width, height, brightness);
+  const filePath = path.join(root, name);
+  fs.writeFileSync(filePath, PNG.sync.write(png));
+  return filePath;
+}
+
+function writeJpeg(name: string, width: number, height: number, brightness: (x: number, y: number) => number): string {
+  const filePath = path.join(root, name);
+  fs.writeFileSync(filePath, jpeg.encode({ width, height, data: pixels(width, height, brightness) }, 80).data);
+  return filePath;
+}
+
+// Bright on the left, dark on the right: every cell is brighter than its right neighbour
+const fadeRight = (x: number) => 1 - x;
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'deskpilot-imagehash-'));
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('calculatePerceptualHash', () => {
+  it('sets a bit wherever a cell is brighter than its right neighbour', async () => {
+    expect(await calculatePerceptualHash(writePng('fade.png', 90, 80, fadeRight), 'png')).toBe('ffffffffffffffff');
+    expect(await calculatePerceptualHash(writePng('flat.png', 90, 80, () => 0.5), 'png')).toBe('0000000000000000');
+  });
+
+  it('gives resized and re-encoded copies the same or a close hash', async () => {
+    const pattern = (x: number, y: number) => (Math.sin(x * 9) + Math.cos(y * 7) + 2) / 4;
+    const original = await calculatePerceptualHash(writePng('pattern.png', 360, 320, pattern), 'png');
+    const resized = await calculatePerceptualHash(writePng('pattern-small.png', 90, 80, pattern), 'png');
+    const reencoded = await calculatePerceptualHash(writeJpeg('pattern.jpg', 360, 320, pattern), 'jpeg');
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original!, resized!)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original!, reencoded!)).toBeLessThanOrEqual(4);
+  });
+
+  it('returns null for types it cannot decode and for corrupt files', async () => {
+    const png = writePng('small.png', 9, 8, fadeRight);
+    expect(await calculatePerceptualHash(png, 'webp')).toBeNull();
+
+    const corrupt = path.join(root, 'corrupt.jpg');
+    fs.writeFileSync(corrupt, Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46]));
+    expect(await calculatePerceptualHash(corrupt, 'jpeg')).toBeNull();
+    expect(await calculatePerceptualHash(path.join(root, 'missing.png'), 'png')).toBeNull();
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits across all 64', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+    expect(hammingDistance('00000000f0000000', '0000000000000000')).toBe(4);
+  });
+});
+
+describe('clusterByDistance', () => {
+  const hash = (value: bigint) => value.toString(16).padStart(16, '0');
+
+  it('groups hashes within the threshold, including through chains', () => {
+    const items = [
+      { name: 'a', hash: hash(0n) },
+      { name: 'b', hash: hash(0b111n) },
+      { name: 'c', hash: hash(0b111111n) },
+      { name: 'd', hash: hash(0xffff000000000000n) },
+      { name: 'e', hash: hash(0xffff000000000001n) },
+      { name: 'f', hash: hash(0x0000ffff0000ffffn) },
+    ];
+
+    const groups = clusterByDistance(items, item => item.hash, 3).map(group => group.map(item => item.name));
+
+    expect(groups).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+  });
+
+  it('finds the same groups as comparing every pair', () => {
+    // Deterministic pseudo-random hashes, with near copies that flip a few bits
+    let seed = 42n;
+    const next = () => (seed = (seed * 6364136223846793005n + 1442695040888963407n) & 0xffffffffffffffffn);
+    const hashes: string[] = [];
+    for (let i = 0; i < 40; i++) {
+      const base = next();
+      hashes.push(hash(base));
+      if (i % 3 === 0) hashes.push(hash(base ^ (1n << (next() % 64n)) ^ (1n << (next() % 64n))));
+    }
+
+    for (const threshold of [0, 2, 5, 10]) {
+      const expected = hashes.map((_, i) => i);
+      const find = (i: number): number => (expected[i] === i ? i : find(expected[i]));
+      for (let i = 0; i < hashes.length; i++) {
+        for (let j = i + 1; j < hashes.length; j++) {
+          if (hammingDistance(hashes[i], hashes[j]) <= threshold) expected[find(j)] = find(i);
+        }
+      }
+      const expectedGroups = new Map<number, number[]>();
+      hashes.forEach((_, i) => expectedGroups.set(find(i), [...(expectedGroups.get(find(i)) ?? []), i]));
+
+      const groups = clusterByDistance(hashes.map((h, i) => ({ h, i })), item => item.h, threshold)
+        .map(group => group.map(item => item.i).sort((a, b) => a - b))
+        .sort((a, b) => a[0] - b[0]);
+      expect(groups).toEqual([...expectedGroups.values()].filter(group => group.length > 1));
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { parsePlan, serializePlan, Plan, PLAN_VERSION } from '../plan';
+
+const HASH = 'AB'.repeat(32);
+
+function organizePlan(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    version: PLAN_VERSION,
+    transactionId: 'tx1',
+    type: 'organize',
+    targetPath: '/downloads',
+    collisionPolicy: 'rename',
+    actions: [
+      { type: 'move', from: '/downloads/a.pdf', to: '/downloads/Documents/a.pdf', size: 10, hash: HASH },
+      { type: 'rename', from: '/downloads/b.txt', to: '/downloads/c.txt', modifiedAt: '2024-01-02T03:04:05.000Z' },
+    ],
+    ...overrides,
+  };
+}
+
+function parse(plan: Record<string, unknown>): Plan {
+  return parsePlan(JSON.stringify(plan), 'plan.json');
+}
+
+describe('parsePlan', () => {
+  it('reads a valid organize plan and lowercases hashes', () => {
+    const plan = parse(organizePlan());
+    expect(plan.type).toBe('organize');
+    expect(plan.transactionId).toBe('tx1');
+    expect(plan.collisionPolicy).toBe('rename');
+    expect(plan.actions).toHaveLength(2);
+    expect(plan.actions[0]).toMatchObject({ type: 'move', size: 10, hash: HASH.toLowerCase() });
+    expect(plan.actions[1].modifiedAt).toBe('2024-01-02T03:04:05.000Z');
+  });
+
+  it('reads YAML as well as JSON', () => {
+    const text = [
+      `version: ${PLAN_VERSION}`,
+      'type: organize',
+      'targetPath: /downloads',
+      'actions:',
+      '  - type: move',
+      '    from: /downloads/a.pdf',
+      '    to: /downloads/Documents/a.pdf',
+    ].join('\n');
+    expect(parsePlan(text, 'plan.yaml').actions[0].to).toBe('/downloads/Documents/a.pdf');
+  });
+
+  it('trashes deletes unless they are explicitly permanent', () => {
+    const plan = parse({
+      version: PLAN_VERSION,
+      type: 'dedupe',
+      targetPath: '/downloads',
+      actions: [
+        { type: 'delete', from: '/downloads/a (1).pdf', keptPath: '/downloads/a.pdf' },
+        { type: 'delete', from: '/downloads/a (2).pdf', to: '', keptPath: '/downloads/a.pdf', permanent: true },
+      ],
+    });
+    expect(plan.actions[0]).toMatchObject({ to: '', permanent: undefined });
+    expect(plan.actions[1].permanent).toBe(true);
+  });
+
+  it('rejects plans it cannot apply safely', () => {
+    expect(() => parsePlan('{', 'plan.json')).toThrow(/^Invalid plan in plan.json/);
+    expect(() => parsePlan('[]', 'plan.json')).toThrow('expected an object');
+    expect(() => parse(organizePlan({ version: 99 }))).toThrow('unsupported version 99');
+    expect(() => parse(organizePlan({ type: 'shred' }))).toThrow(/type must be/);
+    expect(() => parse(organizePlan({ targetPath: 'downloads' }))).toThrow('targetPath must be an absolute path');
+    expect(() => parse(organizePlan({ collisionPolicy: 'clobber' }))).toThrow(/collisionPolicy must be one of/);
+    expect(() => parse(organizePlan({ actions: {} }))).toThrow('actions must be an array');
+  });
+
+  it('rejects invalid actions with their position', () => {
+    const withAction = (action: unknown) => parse(organizePlan({ actions: [action] }));
+    expect(() => withAction('move')).toThrow('Invalid action 1 in plan.json: expected an object');
+    expect(() => withAction({ type: 'link', from: '/a', to: '/b' })).toThrow(/type must be .* for organize plans/);
+    expect(() => withAction({ type: 'move', from: 'a', to: '/b' })).toThrow('"from" must be an absolute path');
+    expect(() => withAction({ type: 'move', from: '/a', to: 'b' })).toThrow('"to" must be an absolute path');
+    expect(() => withAction({ type: 'move', from: '/a', to: '/b', size: -1 })).toThrow('size must be a byte count');
+    expect(() => withAction({ type: 'move', from: '/a', to: '/b', hash: 'abc' })).toThrow('hash must be a SHA-256 hex digest');
+    expect(() => withAction({ type: 'move', from: '/a', to: '/b', modifiedAt: 'yesterday' })).toThrow(/modifiedAt must be/);
+  });
+
+  it('requires the kept copy for dedupe deletes', () => {
+    expect(() => parse({
+      version: PLAN_VERSION,
+      type: 'dedupe',
+      targetPath: '/downloads',
+      actions: [{ type: 'delete', from: '/downloads/a (1).pdf' }],
+    })).toThrow('dedupe deletes need the keptPath of the copy that stays');
+  });
+});
+
+describe('serializePlan', () => {
+  it('round-trips through JSON and YAML', () => {
+    const plan = parse(organizePlan());
+    expect(parsePlan(serializePlan(plan), 'plan.json')).toEqual(plan);
+    expect(parsePlan(serializePlan(plan, 'yaml'), 'plan.yaml')).toEqual(plan);
+  });
+});
@@ -0,0 +1,61 @@
+import { runWithConcurrency, parseConcurrency } from '../pool';
+
+describe('runWithConcurrency', () => {
+  it('runs every item once, never more than the limit at a time', async () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    const seen: number[] = [];
+    let running = 0;
+    let peak = 0;
+
+    await runWithConcurrency(items, 3, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      seen.push(item);
+      running--;
+    });
+
+    expect(seen.sort((a, b) => a - b)).toEqual(items);
+    expect(peak).toBe(3);
+  });
+
+  it('treats a limit below one as one', async () => {
+    let running = 0;
+    let peak = 0;
+    await runWithConcurrency([1, 2, 3], 0, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await Promise.resolve();
+      running--;
+    });
+    expect(peak).toBe(1);
+  });
+
+  it('passes each item with its index', async () => {
+    const pairs: Array<[string, number]> = [];
+    await runWithConcurrency(['a', 'b'], 2, async (item, index) => {
+      pairs.push([item, index]);
+    });
+    expect(pairs.sort()).toEqual([['a', 0], ['b', 1]]);
+  });
+
+  it('rejects when a worker throws', async () => {
+    await expect(runWithConcurrency([1], 1, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+  });
+});
+
+describe('parseConcurrency', () => {
+  it('accepts positive integers as numbers or strings', () => {
+    expect(parseConcurrency(4)).toBe(4);
+    expect(parseConcurrency('8')).toBe(8);
+  });
+
+  it('rejects zero, negatives and non-numbers', () => {
+    expect(parseConcurrency(0)).toBeNull();
+    expect(parseConcurrency(-2)).toBeNull();
+    expect(parseConcurrency('many')).toBeNull();
+    expect(parseConcurrency(1.5)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { stripCopySuffix, slugify, formatDate, validateRenameTemplate, renderFileName, RenameContext } from '../renameTemplate';
+
+function context(overrides: Partial<RenameContext> = {}): RenameContext {
+  return {
+    fileName: 'Quarterly Report (1).PDF',
+    date: new Date(2024, 2, 7, 9, 5, 3),
+    category: 'Documents',
+    counter: 4,
+    ...overrides,
+  };
+}
+
+describe('stripCopySuffix', () => {
+  it('removes browser and file manager copy suffixes', () => {
+    expect(stripCopySuffix('report (1)')).toBe('report');
+    expect(stripCopySuffix('report - Copy')).toBe('report');
+    expect(stripCopySuffix('report - Copy (2)')).toBe('report');
+    expect(stripCopySuffix('report copy 2')).toBe('report');
+    expect(stripCopySuffix('report (copy)')).toBe('report');
+    expect(stripCopySuffix('report (1) (2)')).toBe('report');
+  });
+
+  it('keeps names that are nothing but a suffix', () => {
+    expect(stripCopySuffix('(1)')).toBe('(1)');
+    expect(stripCopySuffix('copyright')).toBe('copyright');
+  });
+});
+
+describe('slugify', () => {
+  it('produces lowercase ASCII words joined by dashes', () => {
+    expect(slugify('Résumé  Final_v2!')).toBe('resume-final-v2');
+    expect(slugify('--Hello--')).toBe('hello');
+  });
+});
+
+describe('formatDate', () => {
+  it('replaces date and time tokens', () => {
+    expect(formatDate(new Date(2024, 2, 7, 9, 5, 3), 'yyyy-MM-dd_HH.mm.ss')).toBe('2024-03-07_09.05.03');
+    expect(formatDate(new Date(2024, 2, 7), 'yyMMdd')).toBe('240307');
+  });
+});
+
+describe('validateRenameTemplate', () => {
+  it('accepts known variables, functions and formats', () => {
+    expect(validateRenameTemplate('{date:yyyy-MM-dd}_{slug(name)}_{counter:3}{ext}')).toBeNull();
+    expect(validateRenameTemplate('{upper(original)} - {category}{ext}')).toBeNull();
+  });
+
+  it('reports what is wrong with a template', () => {
+    expect(validateRenameTemplate('  ')).toBe('Rename template cannot be empty');
+    expect(validateRenameTemplate('{size}')).toBe('Unknown variable {size}');
+    expect(validateRenameTemplate('{reverse(name)}')).toBe('Unknown function in {reverse(name)}');
+    expect(validateRenameTemplate('{slug(ext)}')).toBe('slug() only accepts name or original in {slug(ext)}');
+    expect(validateRenameTemplate('{counter:x}')).toBe('Counter width must be a number in {counter:x}');
+    expect(validateRenameTemplate('{name')).toBe('Unbalanced braces in rename template');
+    expect(validateRenameTemplate('sub/{name}')).toBe('Rename template cannot contain path separators');
+  });
+});
+
+describe('renderFileName', () => {
+  it('fills in variables, functions, dates and padded counters', () => {
+    expect(renderFileName('{date:yyyy-MM-dd}_{slug(name)}_{counter:3}{ext}', context()))
+      .toBe('2024-03-07_quarterly-report_004.pdf');
+    expect(renderFileName('{original} [{category}] {counter}{ext}', context()))
+      .toBe('Quarterly Report (1) [Documents] 4.pdf');
+    expect(renderFileName('{date}{ext}', context())).toBe('2024-03-07.pdf');
+  });
+
+  it('replaces characters that are not allowed in file names', () => {
+    expect(renderFileName('{name}{ext}', context({ fileName: 'a:b*c.txt' }))).toBe('a-b-c.txt');
+  });
+
+  it('falls back to the original name instead of an empty or dot-only name', () => {
+    expect(renderFileName('{slug(name)}', context({ fileName: '!!!.txt' }))).toBe('!!!.txt');
+    expect(renderFileName('{slug(name)}{ext}', context({ fileName: '..' }))).toBe('..');
+  });
+});
@@ -0,0 +1,123 @@
+import * as path from 'path';
+import { parseRules, matchesRule, findMatchingRule, renderDestination, RuleSubject } from '../rules';
+import { parseDuration } from '../fileFilter';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 15).getTime();
+
+function subject(overrides: Partial<RuleSubject> = {}): RuleSubject {
+  return {
+    path: '/downloads/invoices/march.pdf',
+    relativePath: 'invoices/march.pdf',
+    name: 'march.pdf',
+    size: 2048,
+    modifiedAt: new Date(NOW - 10 * DAY),
+    category: 'Documents',
+    mimeType: 'application/pdf',
+    ...overrides,
+  };
+}
+
+describe('parseDuration', () => {
+  it('parses hours, days, weeks, months and years', () => {
+    expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration('7d')).toBe(7 * DAY);
+    expect(parseDuration('2w')).toBe(14 * DAY);
+    expect(parseDuration('6mo')).toBe(180 * DAY);
+    expect(parseDuration('1Y')).toBe(365 * DAY);
+  });
+
+  it('rejects durations without a unit', () => {
+    expect(parseDuration('30')).toBeNull();
+    expect(parseDuration('3 months')).toBeNull();
+  });
+});
+
+describe('parseRules', () => {
+  it('normalizes conditions and fills in default names', () => {
+    const [rule] = parseRules([{
+      match: { extension: 'PDF', minSize: '1KB', olderThan: '1w', name: '^inv' },
+      destination: 'Invoices/{yyyy}/',
+    }], 'test');
+
+    expect(rule.name).toBe('rule 1');
+    expect(rule.match.extensions).toEqual(['.pdf']);
+    expect(rule.match.minSize).toBe(1024);
+    expect(rule.match.olderThan).toBe(7 * DAY);
+    expect(rule.match.namePattern?.test('Invoice.pdf')).toBe(true);
+    expect(rule.destination).toBe(path.normalize('Invoices/{yyyy}/'));
+  });
+
+  it('rejects rules that are not a list of objects', () => {
+    expect(() => parseRules({}, 'test')).toThrow('Invalid rules in test: expected an array');
+    expect(() => parseRules([null], 'test')).toThrow('Invalid rule 1 in test: expected an object');
+  });
+
+  it('rejects invalid conditions', () => {
+    expect(() => parseRules([{ match: { minSize: 'big' }, destination: 'A' }], 'test')).toThrow(/minSize must be/);
+    expect(() => parseRules([{ match: { olderThan: '30' }, destination: 'A' }], 'test')).toThrow(/olderThan must be/);
+    expect(() => parseRules([{ match: { name: '(' }, destination: 'A' }], 'test')).toThrow(/invalid name pattern/);
+  });
+
+  it('rejects missing, unknown-token and escaping destinations', () => {
+    expect(() => parseRules([{ match: {} }], 'test')).toThrow(/"destination" is required/);
+    expect(() => parseRules([{ destination: '{year}' }], 'test')).toThrow('unknown template token {year}');
+    expect(() => parseRules([{ destination: '../Elsewhere' }], 'test')).toThrow(/inside the organized directory/);
+    expect(() => parseRules([{ destination: '/tmp/Elsewhere' }], 'test')).toThrow(/inside the organized directory/);
+    expect(() => parseRules([{ destination: 'A/../../B' }], 'test')).toThrow(/inside the organized directory/);
+  });
+
+  it('rejects invalid rename templates', () => {
+    expect(() => parseRules([{ destination: 'A', rename: '{nope}' }], 'test')).toThrow('Unknown variable {nope}');
+    expect(() => parseRules([{ destination: 'A', rename: 5 }], 'test')).toThrow('rename must be a string');
+  });
+});
+
+describe('matchesRule', () => {
+  const [rule] = parseRules([{
+    match: { extensions: ['pdf'], globs: ['invoices/*'], maxSize: '1MB', newerThan: '30d', mimeType: 'application/*' },
+    destination: 'Invoices',
+  }], 'test');
+
+  it('matches when every condition holds', () => {
+    expect(matchesRule(subject(), rule, NOW)).toBe(true);
+  });
+
+  it('fails when any single condition does not hold', () => {
+    expect(matchesRule(subject({ name: 'march.txt' }), rule, NOW)).toBe(false);
+    expect(matchesRule(subject({ relativePath: 'other/march.pdf' }), rule, NOW)).toBe(false);
+    expect(matchesRule(subject({ size: 2 * 1024 * 1024 }), rule, NOW)).toBe(false);
+    expect(matchesRule(subject({ modifiedAt: new Date(NOW - 60 * DAY) }), rule, NOW)).toBe(false);
+    expect(matchesRule(subject({ mimeType: 'text/plain' }), rule, NOW)).toBe(false);
+    expect(matchesRule(subject({ mimeType: undefined }), rule, NOW)).toBe(false);
+  });
+
+  it('picks the first matching rule in list order', () => {
+    const rules = parseRules([
+      { name: 'images', match: { extension: 'jpg' }, destination: 'Pictures' },
+      { name: 'pdfs', match: { extension: 'pdf' }, destination: 'Papers' },
+      { name: 'all', destination: 'Everything' },
+    ], 'test');
+
+    expect(findMatchingRule(subject(), rules, NOW)?.name).toBe('pdfs');
+    expect(findMatchingRule(subject({ name: 'a.zip' }), rules, NOW)?.name).toBe('all');
+    expect(findMatchingRule(subject(), [], NOW)).toBeNull();
+  });
+});
+
+describe('renderDestination', () => {
+  it('fills in date, category and extension tokens', () => {
+    const rendered = renderDestination('{category}/{yyyy}/{mm}-{dd}/{ext}', subject({ date: new Date(2023, 0, 5) }));
+    expect(rendered).toBe(path.join('Documents', '2023', '01-05', 'pdf'));
+  });
+
+  it('uses the modification time and "none" for files without an extension', () => {
+    const rendered = renderDestination('{yy}/{ext}', subject({ name: 'README', modifiedAt: new Date(2021, 3, 1) }));
+    expect(rendered).toBe(path.join('21', 'none'));
+  });
+
+  it('refuses categories that would leave the organized directory', () => {
+    expect(() => renderDestination('{category}/x', subject({ category: '..' }))).toThrow(/leaves the organized directory/);
+    expect(() => renderDestination('A/{category}', subject({ category: '../../B' }))).toThrow(/leaves the organized directory/);
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { calculateMinHash, estimateSimilarity, clusterBySimilarity } from '../textHash';
+
+let root: string;
+
+// Deterministic filler text: word i of a document seeded with `seed`
+function words(count: number, seed: number): string[] {
+  return Array.from({ length: count }, (_, i) => `w${(i * 7919 + seed * 104729) % 100003}`);
+}
+
+async function minHash(name: string, content: string | Buffer): Promise<string> {
+  const filePath = path.join(root, name);
+  fs.writeFileSync(filePath, content);
+  const signature = await calculateMinHash(filePath);
+  if (!signature) throw new Error(`No signature for ${name}`);
+  return signature;
+}
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'deskpilot-texthash-'));
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('calculateMinHash', () => {
+  it('ignores case and whitespace', async () => {
+    const text = words(200, 1).join(' ');
+    const reflowed = words(200, 1).map((word, i) => (i % 10 === 9 ? `${word.toUpperCase()}\n` : `${word}  `)).join('');
+
+    expect(await minHash('a.txt', text)).toBe(await minHash('b.txt', reflowed));
+  });
+
+  it('estimates how much of two documents is shared', async () => {
+    const original = words(1000, 1);
+    const edited = [...original.slice(0, 900), ...words(100, 2)];
+
+    const a = await minHash('original.md', original.join(' '));
+    const b = await minHash('edited.md', edited.join(' '));
+    const unrelated = await minHash('unrelated.md', words(1000, 3).join(' '));
+
+    expect(estimateSimilarity(a, a)).toBe(1);
+    expect(estimateSimilarity(a, b)).toBeGreaterThan(0.7);
+    expect(estimateSimilarity(a, b)).toBeLessThan(0.95);
+    expect(estimateSimilarity(a, unrelated)).toBeLessThan(0.1);
+  });
+
+  it('returns null for empty, whitespace-only and binary files', async () => {
+    const hash = async (name: string, content: string | Buffer) => {
+      const filePath = path.join(root, name);
+      fs.writeFileSync(filePath, content);
+      return calculateMinHash(filePath);
+    };
+
+    expect(await hash('empty.txt', '')).toBeNull();
+    expect(await hash('blank.txt', ' \n\t ')).toBeNull();
+    expect(await hash('binary.txt', Buffer.from([0x41, 0x00, 0x42]))).toBeNull();
+    expect(await calculateMinHash(path.join(root, 'missing.txt'))).toBeNull();
+  });
+});
+
+describe('clusterBySimilarity', () => {
+  it('groups versions of the same document and leaves the rest out', async () => {
+    const base = words(500, 10);
+    const documents = [
+      { name: 'report-v1', signature: await minHash('v1.txt', base.join(' ')) },
+      { name: 'other', signature: await minHash('other.txt', words(500, 11).join(' ')) },
+      { name: 'report-v2', signature: await minHash('v2.txt', [...base.slice(0, 480), ...words(20, 12)].join(' ')) },
+      { name: 'report-v3', signature: await minHash('v3.txt', [...base.slice(0, 460), ...words(40, 13)].join(' ')) },
+    ];
+
+    const clusters = clusterBySimilarity(documents, doc => doc.signature, 0.8).map(cluster => cluster.map(doc => doc.name));
+
+    expect(clusters).toEqual([['report-v1', 'report-v2', 'report-v3']]);
+  });
+
+  it('keeps documents apart below the threshold', async () => {
+    const base = words(500, 20);
+    const documents = [
+      { name: 'a', signature: await minHash('a.txt', base.join(' ')) },
+      { name: 'b', signature: await minHash('b.txt', [...base.slice(0, 250), ...words(250, 21)].join(' ')) },
+    ];
+
+    expect(clusterBySimilarity(documents, doc => doc.signature, 0.9)).toEqual([]);
+  });
+});
@@ -1,16 +1,49 @@
 import * as path from 'path';
+import { getUserConfig, UserConfig } from '../config/userConfig';
 
-export type FileCategory = 
-  | 'Documents'
-  | 'Images'
-  | 'Videos'
-  | 'Audio'
-  | 'Installers'
-  | 'Archives'
-  | 'Code'
-  | 'Others';
-
-// Extension mappings to categories
+// Category names come from the config file, so any string is allowed
+export type FileCategory = string;
+
+export interface CategoryDefinition {
+  name: FileCategory;
+  extensions: string[];
+  color: string;
+  emoji: string;
+}
+
+// Fallback for files no category claims; always present
+export const DEFAULT_CATEGORY: FileCategory = 'Others';
+
+// Unfinished or abandoned downloads and empty files; always present, never organized
+export const INCOMPLETE_CATEGORY: FileCategory = 'Incomplete';
+
+const DEFAULT_CATEGORIES: FileCategory[] = ['Documents', 'Images', 'Videos', 'Audio', 'Installers', 'Archives', 'Code', 'Incomplete', 'Others'];
+
+const DEFAULT_COLORS: Record<string, string> = {
+  Documents: 'blue',
+  Images: 'green',
+  Videos: 'magenta',
+  Audio: 'yellow',
+  Installers: 'red',
+  Archives: 'cyan',
+  Code: 'white',
+  Incomplete: 'red',
+  Others: 'gray',
+};
+
+const DEFAULT_EMOJIS: Record<string, string> = {
+  Documents: '📄',
+  Images: '🖼️',
+  Videos: '🎬',
+  Audio: '🎵',
+  Installers: '📦',
+  Archives: '🗜️',
+  Code: '💻',
+  Incomplete: '⏳',
+  Others: '📁',
+};
+
+// Built-in extension mappings, used unless the config file overrides them
 const EXTENSION_CATEGORIES: Record<string, FileCategory> = {
   // Documents
   '.pdf': 'Documents',
@@ -151,14 +184,118 @@ const EXTENSION_CATEGORIES: Record<string, FileCategory> = {
   '.vue': 'Code',
   '.svelte': 'Code',
   '.astro': 'Code',
+
+  // Incomplete downloads (Chrome, Firefox, Safari, Edge, download managers)
+  '.crdownload': 'Incomplete',
+  '.part': 'Incomplete',
+  '.partial': 'Incomplete',
+  '.download': 'Incomplete',
+  '.tmp': 'Incomplete',
 };
 
+interface CategoryRegistry {
+  config: UserConfig;
+  categories: CategoryDefinition[];
+  byExtension: Map<string, FileCategory>;
+}
+
+let registry: CategoryRegistry | null = null;
+
+/**
+ * Merge the built-in categories with the configured ones.
+ * A configured category replaces a built-in one of the same name, and its
+ * extensions are taken away from every other category.
+ */
+function buildRegistry(config: UserConfig): CategoryRegistry {
+  const definitions: Map<FileCategory, CategoryDefinition> = new Map();
+
+  if (config.extendDefaultCategories) {
+    for (const name of DEFAULT_CATEGORIES) {
+      definitions.set(name, {
+        name,
+        extensions: Object.keys(EXTENSION_CATEGORIES).filter(ext => EXTENSION_CATEGORIES[ext] === name),
+        color: DEFAULT_COLORS[name],
+        emoji: DEFAULT_EMOJIS[name],
+      });
+    }
+  }
+
+  for (const [name, category] of Object.entries(config.categories)) {
+    const claimed = new Set(category.extensions);
+    for (const definition of definitions.values()) {
+      definition.extensions = definition.extensions.filter(ext => !claimed.has(ext));
+    }
+
+    const existing = definitions.get(name);
+    definitions.set(name, {
+      name,
+      extensions: [...claimed],
+      color: category.color ?? existing?.color ?? DEFAULT_COLORS[name] ?? 'white',
+      emoji: category.emoji ?? existing?.emoji ?? DEFAULT_EMOJIS[name] ?? '📁',
+    });
+  }
+
+  // Incomplete is always there for empty files, even without its extensions
+  if (!definitions.has(INCOMPLETE_CATEGORY)) {
+    definitions.set(INCOMPLETE_CATEGORY, {
+      name: INCOMPLETE_CATEGORY,
+      extensions: [],
+      color: DEFAULT_COLORS[INCOMPLETE_CATEGORY],
+      emoji: DEFAULT_EMOJIS[INCOMPLETE_CATEGORY],
+    });
+  }
+
+  // Others is always last, whatever the config says
+  const others = definitions.get(DEFAULT_CATEGORY) ?? {
+    name: DEFAULT_CATEGORY,
+    extensions: [],
+    color: DEFAULT_COLORS[DEFAULT_CATEGORY],
+    emoji: DEFAULT_EMOJIS[DEFAULT_CATEGORY],
+  };
+  definitions.delete(DEFAULT_CATEGORY);
+  const categories = [...definitions.values(), others];
+
+  const byExtension: Map<string, FileCategory> = new Map();
+  for (const category of categories) {
+    for (const ext of category.extensions) {
+      byExtension.set(ext, category.name);
+    }
+  }
+
+  return { config, categories, byExtension };
+}
+
+/**
+ * Get the active category registry, rebuilding it when the config changes
+ */
+function getRegistry(): CategoryRegistry {
+  const config = getUserConfig();
+  if (!registry || registry.config !== config) {
+    registry = buildRegistry(config);
+  }
+  return registry;
+}
+
+/**
+ * Get the category for an extension (lowercase, with dot)
+ */
+export function categorizeExtension(ext: string): FileCategory {
+  return getRegistry().byExtension.get(ext.toLowerCase()) || DEFAULT_CATEGORY;
+}
+
 /**
  * Get the category for a file based on its extension
  */
 export function categorizeFile(filePath: string): FileCategory {
-  const ext = path.extname(filePath).toLowerCase();
-  return EXTENSION_CATEGORIES[ext] || 'Others';
+  return categorizeExtension(path.extname(filePath));
+}
+
+/**
+ * Whether a file is an unfinished download: an extension of the Incomplete
+ * category, or no content at all
+ */
+export function isIncompleteFile(filePath: string, size: number): boolean {
+  return size === 0 || categorizeFile(filePath) === INCOMPLETE_CATEGORY;
 }
 
 /**
@@ -169,59 +306,47 @@ export function getExtension(filePath: string): string {
 }
 
 /**
- * Get all categories
+ * Get all categories, in display order with Others last
  */
 export function getAllCategories(): FileCategory[] {
-  return ['Documents', 'Images', 'Videos', 'Audio', 'Installers', 'Archives', 'Code', 'Others'];
+  return getRegistry().categories.map(c => c.name);
+}
+
+/**
+ * Get all category definitions (extensions, color and emoji)
+ */
+export function getCategoryDefinitions(): CategoryDefinition[] {
+  return getRegistry().categories.map(c => ({ ...c, extensions: [...c.extensions] }));
 }
 
 /**
  * Get category color for CLI output
  */
 export function getCategoryColor(category: FileCategory): string {
-  const colors: Record<FileCategory, string> = {
-    Documents: 'blue',
-    Images: 'green',
-    Videos: 'magenta',
-    Audio: 'yellow',
-    Installers: 'red',
-    Archives: 'cyan',
-    Code: 'white',
-    Others: 'gray',
-  };
-  return colors[category] || 'white';
+  return getRegistry().categories.find(c => c.name === category)?.color || 'white';
 }
 
 /**
  * Get category emoji for display
  */
 export function getCategoryEmoji(category: FileCategory): string {
-  const emojis: Record<FileCategory, string> = {
-    Documents: '📄',
-    Images: '🖼️',
-    Videos: '🎬',
-    Audio: '🎵',
-    Installers: '📦',
-    Archives: '🗜️',
-    Code: '💻',
-    Others: '📁',
-  };
-  return emojis[category] || '📁';
+  return getRegistry().categories.find(c => c.name === category)?.emoji || '📁';
 }
 
 /**
  * Get all extensions for a category
  */
 export function getExtensionsForCategory(category: FileCategory): string[] {
-  return Object.entries(EXTENSION_CATEGORIES)
-    .filter(([_, cat]) => cat === category)
-    .map(([ext, _]) => ext);
+  return [...(getRegistry().categories.find(c => c.name === category)?.extensions ?? [])];
 }
 
 export default {
+  categorizeExtension,
   categorizeFile,
+  isIncompleteFile,
   getExtension,
   getAllCategories,
+  getCategoryDefinitions,
   getCategoryColor,
   getCategoryEmoji,
   getExtensionsForCategory,
@@ -0,0 +1,84 @@
+import * as path from 'path';
+import { stripCopySuffix } from './renameTemplate';
+
+/**
+ * How a file name marks itself as a copy: not at all, with a browser or file
+ * manager marker ("report (1)", "Copy of report", "report - Copy"), or only
+ * with a trailing "-N", which plenty of original names also have
+ */
+export type CopyMarker = 'none' | 'copy' | 'dash-number';
+
+export interface CopyName {
+  // Name with the copy markers removed, extension included
+  baseName: string;
+  marker: CopyMarker;
+}
+
+// "Copy of report.pdf", "Copy (2) of report.pdf", "Copy of Copy of report.pdf"
+const COPY_PREFIX_PATTERN = /^(?:copy(?:\s*\(\d+\))?\s+of\s+)+/i;
+
+// "report-1.pdf" as saved by some browsers and download managers
+const DASH_NUMBER_PATTERN = /^(.*\S)-\d{1,2}$/;
+
+/**
+ * Split a file name into the clean name its copies share and the kind of
+ * copy marker it carries ("report (2).pdf" → "report.pdf", copy)
+ */
+export function parseCopyName(fileName: string): CopyName {
+  const ext = path.extname(fileName);
+  const name = ext ? fileName.slice(0, -ext.length) : fileName;
+
+  const unprefixed = name.replace(COPY_PREFIX_PATTERN, '') || name;
+  const stripped = stripCopySuffix(unprefixed);
+  if (stripped !== name) {
+    return { baseName: stripped + ext, marker: 'copy' };
+  }
+
+  const dashed = name.match(DASH_NUMBER_PATTERN);
+  if (dashed) {
+    return { baseName: dashed[1] + ext, marker: 'dash-number' };
+  }
+
+  return { baseName: fileName, marker: 'none' };
+}
+
+export interface CopySiblings<T> {
+  directory: string;
+  // The clean name, spelled as the original has it when present
+  baseName: string;
+  files: Array<T & { marker: CopyMarker }>;
+}
+
+/**
+ * Group files in the same folder whose names differ only by copy markers.
+ * Names are compared case-insensitively. Groups held together only by "-N"
+ * suffixes (chapter-1, chapter-2) are left out, as those are usually a series.
+ */
+export function groupCopySiblings<T extends { path: string }>(files: T[]): CopySiblings<T>[] {
+  const groups: Map<string, CopySiblings<T>> = new Map();
+
+  for (const file of files) {
+    const { baseName, marker } = parseCopyName(path.basename(file.path));
+    const directory = path.dirname(file.path);
+    const key = path.join(directory, baseName.toLowerCase());
+
+    const group = groups.get(key);
+    if (group) {
+      group.files.push({ ...file, marker });
+    } else {
+      groups.set(key, { directory, baseName, files: [{ ...file, marker }] });
+    }
+  }
+
+  return [...groups.values()]
+    .filter(group => group.files.length > 1 && group.files.some(f => f.marker !== 'dash-number'))
+    .map(group => {
+      const original = group.files.find(f => f.marker === 'none');
+      return original ? { ...group, baseName: path.basename(original.path) } : group;
+    });
+}
+
+export default {
+  parseCopyName,
+  groupCopySiblings,
+};
@@ -0,0 +1,45 @@
+import * as path from 'path';
+
+export type DateSource = 'modified' | 'created' | 'filename';
+
+export const DATE_SOURCES: DateSource[] = ['modified', 'created', 'filename'];
+
+// yyyy-mm-dd, yyyy_mm_dd, yyyy.mm.dd and yyyymmdd (IMG_20240305_..., Screenshot 2024-03-05 at ...)
+const NAME_DATE_PATTERN = /(?:^|[^\d])((?:19|20)\d{2})([-_.]?)(0[1-9]|1[0-2])\2(0[1-9]|[12]\d|3[01])(?!\d)/;
+
+/**
+ * Find a calendar date in a file name, or null when there is none
+ */
+export function extractDateFromName(fileName: string): Date | null {
+  const match = path.parse(fileName).name.match(NAME_DATE_PATTERN);
+  if (!match) return null;
+
+  const [, year, , month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+
+  // Reject dates like 2023-02-30 that roll over into the next month
+  return date.getMonth() === Number(month) - 1 ? date : null;
+}
+
+/**
+ * Pick a file's date from the given source.
+ * Filename dates fall back to the modification time when the name has none.
+ */
+export function getFileDate(
+  file: { name: string; createdAt: Date; modifiedAt: Date },
+  source: DateSource = 'modified'
+): Date {
+  switch (source) {
+    case 'created':
+      return file.createdAt;
+    case 'filename':
+      return extractDateFromName(file.name) ?? file.modifiedAt;
+    default:
+      return file.modifiedAt;
+  }
+}
+
+export default {
+  extractDateFromName,
+  getFileDate,
+};
@@ -0,0 +1,185 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compareFiles } from './hash';
+
+export interface DirectoryHash {
+  path: string;
+  hash: string;
+  // Total size and number of files below the directory
+  size: number;
+  fileCount: number;
+}
+
+interface DirectoryNode {
+  entries: string[];
+  size: number;
+  fileCount: number;
+  // False when a file below has no hash, so the directory cannot be matched
+  complete: boolean;
+}
+
+/**
+ * Compute a Merkle-style hash for every directory under rootPath from the
+ * names and hashes of its files and subdirectories. The directory's own name
+ * is left out, so `project/` and `project (copy)/` can match. A directory gets
+ * no hash when any file below it has none: such a file has no duplicate, so
+ * the directory cannot have one either. Such files may instead be left out
+ * of `files` and their folders passed as `unhashedDirectories`, which keeps
+ * callers from loading every file. rootPath itself is not included.
+ */
+export function computeDirectoryHashes(
+  rootPath: string,
+  files: Array<{ path: string; size: number; hash?: string }>,
+  unhashedDirectories: Iterable<string> = []
+): DirectoryHash[] {
+  const nodes: Map<string, DirectoryNode> = new Map();
+  const getNode = (dirPath: string): DirectoryNode => {
+    let node = nodes.get(dirPath);
+    if (!node) {
+      node = { entries: [], size: 0, fileCount: 0, complete: true };
+      nodes.set(dirPath, node);
+    }
+    return node;
+  };
+
+  for (const file of files) {
+    const relative = path.relative(rootPath, file.path);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+    getNode(path.dirname(file.path)).entries.push(`f ${path.basename(file.path)} ${file.hash ?? ''}`);
+
+    for (let dir = path.dirname(file.path); ; dir = path.dirname(dir)) {
+      const node = getNode(dir);
+      node.size += file.size;
+      node.fileCount++;
+      if (!file.hash) node.complete = false;
+      if (dir === rootPath || path.dirname(dir) === dir) break;
+    }
+  }
+
+  for (const dirPath of unhashedDirectories) {
+    const relative = path.relative(rootPath, dirPath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+
+    for (let dir = dirPath; ; dir = path.dirname(dir)) {
+      getNode(dir).complete = false;
+      if (dir === rootPath || path.dirname(dir) === dir) break;
+    }
+  }
+
+  // Hash the deepest directories first so each parent sees its children's hashes
+  const ordered = [...nodes.keys()].sort((a, b) => b.split(path.sep).length - a.split(path.sep).length);
+  const hashes: DirectoryHash[] = [];
+
+  for (const dirPath of ordered) {
+    const node = nodes.get(dirPath)!;
+    if (!node.complete) continue;
+
+    const hash = crypto.createHash('sha256').update(node.entries.sort().join('\n')).digest('hex');
+    if (dirPath === rootPath) continue;
+
+    nodes.get(path.dirname(dirPath))?.entries.push(`d ${path.basename(dirPath)} ${hash}`);
+    hashes.push({ path: dirPath, hash, size: node.size, fileCount: node.fileCount });
+  }
+
+  return hashes;
+}
+
+/**
+ * Group directories with the same hash. A group is left out when every
+ * directory in it sits inside a duplicate directory, since the group of the
+ * parents already covers it.
+ */
+export function findDuplicateDirectories(hashes: DirectoryHash[]): DirectoryHash[][] {
+  const byHash: Map<string, DirectoryHash[]> = new Map();
+  for (const entry of hashes) {
+    const group = byHash.get(entry.hash);
+    if (group) {
+      group.push(entry);
+    } else {
+      byHash.set(entry.hash, [entry]);
+    }
+  }
+
+  const groups = [...byHash.values()].filter(group => group.length > 1);
+  const duplicatePaths = new Set(groups.flat().map(entry => entry.path));
+
+  return groups.filter(group => !group.every(entry => duplicatePaths.has(path.dirname(entry.path))));
+}
+
+interface TreeEntry {
+  relativePath: string;
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;
+  linkTarget?: string;
+}
+
+/**
+ * List everything below a directory, including hidden files, symlinks and
+ * empty folders that a filtered walk would not see
+ */
+async function listTree(dirPath: string, relativeDir: string = '', entries: TreeEntry[] = []): Promise<TreeEntry[]> {
+  const dirents = await fs.promises.readdir(path.join(dirPath, relativeDir), { withFileTypes: true });
+
+  for (const dirent of dirents) {
+    const relativePath = path.join(relativeDir, dirent.name);
+    const fullPath = path.join(dirPath, relativePath);
+
+    if (dirent.isDirectory()) {
+      entries.push({ relativePath, type: 'directory', size: 0 });
+      await listTree(dirPath, relativePath, entries);
+    } else if (dirent.isSymbolicLink()) {
+      entries.push({ relativePath, type: 'symlink', size: 0, linkTarget: await fs.promises.readlink(fullPath) });
+    } else if (dirent.isFile()) {
+      entries.push({ relativePath, type: 'file', size: (await fs.promises.stat(fullPath)).size });
+    } else {
+      entries.push({ relativePath, type: 'other', size: 0 });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Check that two directory trees hold the same names, sizes, symlinks and
+ * file contents. sameContent decides whether two files match and defaults to
+ * a byte-for-byte comparison. Returns the first difference, or null.
+ */
+export async function compareDirectories(
+  dirA: string,
+  dirB: string,
+  sameContent: (fileA: string, fileB: string) => Promise<boolean> = compareFiles
+): Promise<string | null> {
+  const [treeA, treeB] = await Promise.all([listTree(dirA), listTree(dirB)]);
+  const byPath = new Map(treeB.map(entry => [entry.relativePath, entry]));
+
+  if (treeA.length !== treeB.length) {
+    return `${dirA} and ${dirB} hold a different number of entries`;
+  }
+
+  for (const entry of treeA) {
+    const other = byPath.get(entry.relativePath);
+    if (!other || other.type !== entry.type) {
+      return `${entry.relativePath} differs between ${dirA} and ${dirB}`;
+    }
+    if (entry.type === 'other') {
+      return `${path.join(dirA, entry.relativePath)} is not a regular file`;
+    }
+    if (entry.size !== other.size || entry.linkTarget !== other.linkTarget) {
+      return `${entry.relativePath} differs between ${dirA} and ${dirB}`;
+    }
+    if (entry.type === 'file'
+      && !await sameContent(path.join(dirA, entry.relativePath), path.join(dirB, entry.relativePath))) {
+      return `${entry.relativePath} has different content in ${dirA} and ${dirB}`;
+    }
+  }
+
+  return null;
+}
+
+export default {
+  computeDirectoryHashes,
+  findDuplicateDirectories,
+  compareDirectories,
+};
@@ -0,0 +1,215 @@
+import * as path from 'path';
+
+/**
+ * Options that control which files a directory walk yields
+ */
+export interface WalkOptions {
+  recursive?: boolean;
+  includeHidden?: boolean;
+  followSymlinks?: boolean;
+  include?: string[];
+  exclude?: string[];
+  maxDepth?: number;
+  minSize?: number;
+  maxSize?: number;
+}
+
+// Excluded unless the caller passes its own exclude list
+export const DEFAULT_EXCLUDES = ['node_modules'];
+
+const regExpCache: Map<string, RegExp> = new Map();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Convert a glob pattern to a regular expression source.
+ * Supports `**`, `*`, `?`, `{a,b}` and `[abc]` / `[!abc]`.
+ */
+function globSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        if (pattern[i + 1] === '/') {
+          // `**/` matches zero or more directories
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      const alternatives = pattern.slice(i + 1, end).split(',').map(globSource);
+      source += `(?:${alternatives.join('|')})`;
+      i = end;
+    } else if (char === '[' && pattern.indexOf(']', i) > i + 1) {
+      const end = pattern.indexOf(']', i);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\').replace(/^!/, '^');
+      source += `[${body}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a glob pattern to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regExp = regExpCache.get(pattern);
+  if (!regExp) {
+    regExp = new RegExp(`^${globSource(pattern)}$`, process.platform === 'win32' ? 'i' : '');
+    regExpCache.set(pattern, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Match a path relative to the walk root against a glob.
+ * Patterns without a slash match the basename at any depth (like .gitignore).
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const cleanPattern = pattern.replace(/^\.\//, '').replace(/\/$/, '');
+
+  if (cleanPattern.includes('/')) {
+    return globToRegExp(cleanPattern.replace(/^\//, '')).test(normalized);
+  }
+  return globToRegExp(cleanPattern).test(path.posix.basename(normalized));
+}
+
+/**
+ * Check whether a path matches any of the given globs
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Check whether a file or directory name is hidden
+ */
+export function isHiddenName(name: string): boolean {
+  return name.startsWith('.');
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+/**
+ * Parse a human readable size ("500", "10KB", "1.5 GB") into bytes
+ */
+export function parseSize(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb)?$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2] || 'b']);
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  mo: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration ("12h", "7d", "2w", "6mo", "1y") into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(h|d|w|mo|y)$/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2]]);
+}
+
+/**
+ * Describe a duration in its largest whole unit ("3 days", "5 hours")
+ */
+export function formatDuration(ms: number): string {
+  const units: Array<[string, number]> = [
+    ['year', DURATION_UNITS.y],
+    ['month', DURATION_UNITS.mo],
+    ['week', DURATION_UNITS.w],
+    ['day', DURATION_UNITS.d],
+    ['hour', DURATION_UNITS.h],
+  ];
+  for (const [name, size] of units) {
+    const count = Math.floor(ms / size);
+    if (count >= 1) return `${count} ${name}${count === 1 ? '' : 's'}`;
+  }
+  return 'under an hour';
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map(v => String(v).trim()).filter(Boolean);
+}
+
+function toNonNegativeNumber(value: unknown, parse: (v: string) => number | null): number | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parse(String(value));
+  return parsed !== null && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Parse walk options from an API request body
+ */
+export function parseWalkOptions(input: unknown): { options: WalkOptions; error?: string } {
+  if (input !== undefined && input !== null && (typeof input !== 'object' || Array.isArray(input))) {
+    return { options: {}, error: 'Request body must be an object' };
+  }
+  const body = (input ?? {}) as Record<string, unknown>;
+
+  const maxDepth = toNonNegativeNumber(body.maxDepth, v => (/^\d+$/.test(v) ? parseInt(v, 10) : null));
+  const minSize = toNonNegativeNumber(body.minSize, parseSize);
+  const maxSize = toNonNegativeNumber(body.maxSize, parseSize);
+
+  if (maxDepth === null) {
+    return { options: {}, error: 'maxDepth must be a non-negative integer' };
+  }
+  if (minSize === null || maxSize === null) {
+    return { options: {}, error: 'minSize and maxSize must be byte counts or sizes like "10MB"' };
+  }
+
+  return {
+    options: {
+      includeHidden: body.includeHidden === true,
+      followSymlinks: body.followSymlinks === true,
+      include: toStringList(body.include),
+      exclude: toStringList(body.exclude),
+      maxDepth,
+      minSize,
+      maxSize,
+    },
+  };
+}
+
+export default {
+  globToRegExp,
+  matchesGlob,
+  matchesAnyGlob,
+  isHiddenName,
+  parseSize,
+  parseDuration,
+  formatDuration,
+  parseWalkOptions,
+};
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import {
+  FileCategory,
+  DEFAULT_CATEGORY,
+  INCOMPLETE_CATEGORY,
+  categorizeExtension,
+  categorizeFile,
+  getAllCategories,
+  getExtension,
+  isIncompleteFile,
+} from './categorize';
+
+/**
+ * A file format recognised from its leading bytes
+ */
+export interface DetectedFileType {
+  type: string;
+  mimeType: string;
+  // Built-in category; resolveCategory maps it onto the configured ones
+  category: FileCategory;
+  // Extensions that are legitimate for this content
+  extensions: string[];
+}
+
+interface FileSignature extends DetectedFileType {
+  match: (header: Buffer) => boolean;
+}
+
+// Enough to reach the tar magic at offset 257 and the first ZIP entry name
+export const SNIFF_LENGTH = 512;
+
+function bytesAt(header: Buffer, offset: number, bytes: number[]): boolean {
+  if (header.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => header[offset + i] === byte);
+}
+
+function asciiAt(header: Buffer, offset: number, text: string): boolean {
+  return header.toString('latin1', offset, offset + text.length) === text;
+}
+
+/**
+ * Brand of an ISO base media file (MP4, MOV, HEIC, ...), if the header has one
+ */
+function isoBrand(header: Buffer): string | null {
+  return asciiAt(header, 4, 'ftyp') ? header.toString('latin1', 8, 12) : null;
+}
+
+const ZIP_EXTENSIONS = [
+  '.zip', '.jar', '.war', '.apk', '.aab', '.ipa', '.xpi', '.whl', '.nupkg', '.vsix',
+  '.docx', '.xlsx', '.pptx', '.docm', '.xlsm', '.pptm',
+  '.odt', '.ods', '.odp', '.epub', '.kmz', '.sketch',
+];
+
+const OLE_EXTENSIONS = ['.doc', '.xls', '.ppt', '.msi', '.msg', '.pub', '.vsd'];
+
+// Ordered: more specific signatures first
+const SIGNATURES: FileSignature[] = [
+  // Documents
+  { type: 'pdf', mimeType: 'application/pdf', category: 'Documents', extensions: ['.pdf', '.ai'],
+    match: h => asciiAt(h, 0, '%PDF-') },
+  { type: 'rtf', mimeType: 'application/rtf', category: 'Documents', extensions: ['.rtf', '.doc'],
+    match: h => asciiAt(h, 0, '{\\rtf') },
+  { type: 'epub', mimeType: 'application/epub+zip', category: 'Documents', extensions: ['.epub'],
+    match: h => bytesAt(h, 0, [0x50, 0x4b, 0x03, 0x04]) && asciiAt(h, 30, 'mimetypeapplication/epub+zip') },
+  { type: 'odf', mimeType: 'application/vnd.oasis.opendocument', category: 'Documents', extensions: ['.odt', '.ods', '.odp', '.odg'],
+    match: h => bytesAt(h, 0, [0x50, 0x4b, 0x03, 0x04]) && asciiAt(h, 30, 'mimetypeapplication/vnd.oasis.opendocument') },
+  { type: 'ooxml', mimeType: 'application/vnd.openxmlformats-officedocument', category: 'Documents',
+    extensions: ['.docx', '.xlsx', '.pptx', '.docm', '.xlsm', '.pptm', '.dotx', '.xltx', '.potx', '.vsdx'],
+    match: h => bytesAt(h, 0, [0x50, 0x4b, 0x03, 0x04]) &&
+      ['[Content_Types].xml', '_rels/', 'docProps/', 'word/', 'xl/', 'ppt/'].some(name => asciiAt(h, 30, name)) },
+  { type: 'ole', mimeType: 'application/x-ole-storage', category: 'Documents', extensions: OLE_EXTENSIONS,
+    match: h => bytesAt(h, 0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) },
+
+  // Images
+  { type: 'png', mimeType: 'image/png', category: 'Images', extensions: ['.png', '.apng'],
+    match: h => bytesAt(h, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) },
+  { type: 'jpeg', mimeType: 'image/jpeg', category: 'Images', extensions: ['.jpg', '.jpeg', '.jpe', '.jfif'],
+    match: h => bytesAt(h, 0, [0xff, 0xd8, 0xff]) },
+  { type: 'gif', mimeType: 'image/gif', category: 'Images', extensions: ['.gif'],
+    match: h => asciiAt(h, 0, 'GIF87a') || asciiAt(h, 0, 'GIF89a') },
+  { type: 'webp', mimeType: 'image/webp', category: 'Images', extensions: ['.webp'],
+    match: h => asciiAt(h, 0, 'RIFF') && asciiAt(h, 8, 'WEBP') },
+  { type: 'tiff', mimeType: 'image/tiff', category: 'Images', extensions: ['.tif', '.tiff', '.cr2', '.nef', '.arw', '.dng', '.raw'],
+    match: h => bytesAt(h, 0, [0x49, 0x49, 0x2a, 0x00]) || bytesAt(h, 0, [0x4d, 0x4d, 0x00, 0x2a]) },
+  { type: 'bmp', mimeType: 'image/bmp', category: 'Images', extensions: ['.bmp', '.dib'],
+    match: h => asciiAt(h, 0, 'BM') && bytesAt(h, 6, [0, 0, 0, 0]) },
+  { type: 'psd', mimeType: 'image/vnd.adobe.photoshop', category: 'Images', extensions: ['.psd', '.psb'],
+    match: h => asciiAt(h, 0, '8BPS') },
+  { type: 'heic', mimeType: 'image/heic', category: 'Images', extensions: ['.heic', '.heif', '.avif'],
+    match: h => ['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1', 'avif'].includes(isoBrand(h) ?? '') },
+
+  // Audio
+  { type: 'm4a', mimeType: 'audio/mp4', category: 'Audio', extensions: ['.m4a', '.m4b', '.mp4', '.aac'],
+    match: h => ['M4A ', 'M4B '].includes(isoBrand(h) ?? '') },
+  { type: 'mp3', mimeType: 'audio/mpeg', category: 'Audio', extensions: ['.mp3'],
+    match: h => (asciiAt(h, 0, 'ID3') && h[3] >= 2 && h[3] <= 4) || bytesAt(h, 0, [0xff, 0xfb]) || bytesAt(h, 0, [0xff, 0xf3]) || bytesAt(h, 0, [0xff, 0xf2]) },
+  { type: 'wav', mimeType: 'audio/wav', category: 'Audio', extensions: ['.wav'],
+    match: h => asciiAt(h, 0, 'RIFF') && asciiAt(h, 8, 'WAVE') },
+  { type: 'flac', mimeType: 'audio/flac', category: 'Audio', extensions: ['.flac'],
+    match: h => asciiAt(h, 0, 'fLaC') },
+  { type: 'ogg', mimeType: 'audio/ogg', category: 'Audio', extensions: ['.ogg', '.oga', '.ogv', '.opus', '.spx'],
+    match: h => asciiAt(h, 0, 'OggS') },
+  { type: 'aiff', mimeType: 'audio/aiff', category: 'Audio', extensions: ['.aiff', '.aif', '.aifc'],
+    match: h => asciiAt(h, 0, 'FORM') && (asciiAt(h, 8, 'AIFF') || asciiAt(h, 8, 'AIFC')) },
+  { type: 'midi', mimeType: 'audio/midi', category: 'Audio', extensions: ['.mid', '.midi'],
+    match: h => asciiAt(h, 0, 'MThd') },
+
+  // Videos
+  { type: 'mov', mimeType: 'video/quicktime', category: 'Videos', extensions: ['.mov', '.qt', '.mp4', '.m4v'],
+    match: h => isoBrand(h) === 'qt  ' },
+  { type: '3gp', mimeType: 'video/3gpp', category: 'Videos', extensions: ['.3gp', '.3g2', '.mp4'],
+    match: h => (isoBrand(h) ?? '').startsWith('3g') },
+  { type: 'mp4', mimeType: 'video/mp4', category: 'Videos', extensions: ['.mp4', '.m4v', '.mov', '.m4a', '.3gp', '.f4v'],
+    match: h => isoBrand(h) !== null },
+  { type: 'webm', mimeType: 'video/webm', category: 'Videos', extensions: ['.webm', '.mkv'],
+    match: h => bytesAt(h, 0, [0x1a, 0x45, 0xdf, 0xa3]) && h.includes('webm', 0, 'latin1') },
+  { type: 'mkv', mimeType: 'video/x-matroska', category: 'Videos', extensions: ['.mkv', '.mka', '.mks', '.webm'],
+    match: h => bytesAt(h, 0, [0x1a, 0x45, 0xdf, 0xa3]) },
+  { type: 'avi', mimeType: 'video/x-msvideo', category: 'Videos', extensions: ['.avi'],
+    match: h => asciiAt(h, 0, 'RIFF') && asciiAt(h, 8, 'AVI ') },
+  { type: 'flv', mimeType: 'video/x-flv', category: 'Videos', extensions: ['.flv'],
+    match: h => asciiAt(h, 0, 'FLV') && h[3] === 0x01 },
+  { type: 'mpeg', mimeType: 'video/mpeg', category: 'Videos', extensions: ['.mpg', '.mpeg', '.vob', '.m2v'],
+    match: h => bytesAt(h, 0, [0x00, 0x00, 0x01, 0xba]) || bytesAt(h, 0, [0x00, 0x00, 0x01, 0xb3]) },
+  { type: 'asf', mimeType: 'video/x-ms-asf', category: 'Videos', extensions: ['.wmv', '.wma', '.asf'],
+    match: h => bytesAt(h, 0, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]) },
+
+  // Executables and installers
+  { type: 'pe', mimeType: 'application/vnd.microsoft.portable-executable', category: 'Installers',
+    extensions: ['.exe', '.dll', '.sys', '.scr', '.com', '.cpl', '.ocx', '.efi', '.mui'],
+    match: h => asciiAt(h, 0, 'MZ') && h.length >= 0x40 && asciiAt(h, h.readUInt32LE(0x3c), 'PE\0\0') },
+  { type: 'elf', mimeType: 'application/x-executable', category: 'Installers',
+    extensions: ['.so', '.o', '.elf', '.bin', '.run', '.out', '.appimage', '.ko'],
+    match: h => bytesAt(h, 0, [0x7f, 0x45, 0x4c, 0x46]) },
+  { type: 'macho', mimeType: 'application/x-mach-binary', category: 'Installers',
+    extensions: ['.dylib', '.bundle', '.o', '.so'],
+    match: h => [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe]]
+      .some(magic => bytesAt(h, 0, magic)) },
+  { type: 'deb', mimeType: 'application/vnd.debian.binary-package', category: 'Installers', extensions: ['.deb', '.udeb'],
+    match: h => asciiAt(h, 0, '!<arch>\ndebian') },
+  { type: 'rpm', mimeType: 'application/x-rpm', category: 'Installers', extensions: ['.rpm'],
+    match: h => bytesAt(h, 0, [0xed, 0xab, 0xee, 0xdb]) },
+
+  // Archives
+  { type: 'zip', mimeType: 'application/zip', category: 'Archives', extensions: ZIP_EXTENSIONS,
+    match: h => bytesAt(h, 0, [0x50, 0x4b, 0x03, 0x04]) || bytesAt(h, 0, [0x50, 0x4b, 0x05, 0x06]) },
+  { type: 'rar', mimeType: 'application/vnd.rar', category: 'Archives', extensions: ['.rar', '.cbr'],
+    match: h => asciiAt(h, 0, 'Rar!\x1a\x07') },
+  { type: '7z', mimeType: 'application/x-7z-compressed', category: 'Archives', extensions: ['.7z', '.cb7'],
+    match: h => bytesAt(h, 0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) },
+  { type: 'gzip', mimeType: 'application/gzip', category: 'Archives', extensions: ['.gz', '.tgz', '.svgz'],
+    match: h => bytesAt(h, 0, [0x1f, 0x8b]) },
+  { type: 'bzip2', mimeType: 'application/x-bzip2', category: 'Archives', extensions: ['.bz2', '.tbz', '.tbz2'],
+    match: h => asciiAt(h, 0, 'BZh') },
+  { type: 'xz', mimeType: 'application/x-xz', category: 'Archives', extensions: ['.xz', '.txz'],
+    match: h => bytesAt(h, 0, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]) },
+  { type: 'zstd', mimeType: 'application/zstd', category: 'Archives', extensions: ['.zst', '.tzst'],
+    match: h => bytesAt(h, 0, [0x28, 0xb5, 0x2f, 0xfd]) },
+  { type: 'cab', mimeType: 'application/vnd.ms-cab-compressed', category: 'Archives', extensions: ['.cab'],
+    match: h => asciiAt(h, 0, 'MSCF') },
+  { type: 'tar', mimeType: 'application/x-tar', category: 'Archives', extensions: ['.tar'],
+    match: h => asciiAt(h, 257, 'ustar') },
+  { type: 'sqlite', mimeType: 'application/vnd.sqlite3', category: 'Others', extensions: ['.sqlite', '.sqlite3', '.db', '.db3'],
+    match: h => asciiAt(h, 0, 'SQLite format 3\0') },
+];
+
+/**
+ * Identify a file format from its first bytes, or null when unknown
+ */
+export function detectFileTypeFromBuffer(header: Buffer): DetectedFileType | null {
+  const signature = SIGNATURES.find(s => s.match(header));
+  if (!signature) return null;
+
+  const { match: _match, ...detected } = signature;
+  return detected;
+}
+
+/**
+ * Look up a format by its type name (as stored on file records)
+ */
+export function getFileTypeByName(type: string): DetectedFileType | null {
+  const signature = SIGNATURES.find(s => s.type === type);
+  if (!signature) return null;
+
+  const { match: _match, ...detected } = signature;
+  return detected;
+}
+
+/**
+ * Read the first bytes of a file and identify its format.
+ * Returns null for unknown formats (including plain text) and unreadable files.
+ */
+export async function detectFileType(filePath: string): Promise<DetectedFileType | null> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+    const header = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await handle.read(header, 0, SNIFF_LENGTH, 0);
+    return detectFileTypeFromBuffer(header.subarray(0, bytesRead));
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Check whether a file's extension belongs to a known category but does not
+ * fit its detected content (e.g. a `.pdf` that is really a PE executable)
+ */
+export function isTypeMismatch(filePath: string, detected: DetectedFileType | null): boolean {
+  if (!detected) return false;
+
+  // Partial downloads hold the start of whatever is being downloaded
+  const ext = getExtension(filePath);
+  const category = categorizeFile(filePath);
+  if (!ext || category === DEFAULT_CATEGORY || category === INCOMPLETE_CATEGORY) return false;
+  return !detected.extensions.includes(ext);
+}
+
+/**
+ * Category for a file, preferring detected content when the extension is
+ * missing, unknown or disagrees with it. Unfinished downloads and, when the
+ * size is given, empty files are Incomplete whatever their content.
+ */
+export function resolveCategory(filePath: string, detected: DetectedFileType | null, size?: number): FileCategory {
+  if (isIncompleteFile(filePath, size ?? -1)) {
+    return INCOMPLETE_CATEGORY;
+  }
+  if (!detected || detected.extensions.includes(getExtension(filePath))) {
+    return categorizeFile(filePath);
+  }
+
+  // Follow the configured category of the format's usual extension first
+  const byType = categorizeExtension(detected.extensions[0]);
+  if (byType !== DEFAULT_CATEGORY) return byType;
+  return getAllCategories().includes(detected.category) ? detected.category : DEFAULT_CATEGORY;
+}
+
+export default {
+  detectFileTypeFromBuffer,
+  detectFileType,
+  getFileTypeByName,
+  isTypeMismatch,
+  resolveCategory,
+};
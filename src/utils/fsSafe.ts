@@ -1,7 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { pipeline } from 'stream/promises';
 import { logger } from './logger';
+import { calculateQuickHash } from './hash';
 import { env } from '../config/env';
+import { WalkOptions, DEFAULT_EXCLUDES, matchesAnyGlob, isHiddenName } from './fileFilter';
 
 export interface FileInfo {
   path: string;
@@ -9,15 +12,41 @@ export interface FileInfo {
   size: number;
   createdAt: Date;
   modifiedAt: Date;
+  // Last read, as far as the file system records it (see mount options such as noatime)
+  accessedAt: Date;
   isFile: boolean;
   isDirectory: boolean;
+  isSymlink: boolean;
+  // Device and inode as strings: inode numbers can exceed Number.MAX_SAFE_INTEGER
+  device: string;
+  inode: string;
+  nlink: number;
 }
 
+/**
+ * What to do when the target of a move already exists:
+ * - rename: move to `name_N.ext` next to the existing file
+ * - skip: leave the source where it is
+ * - overwrite: replace the existing file (it goes to trash, so it can be restored)
+ * - keep-newer: overwrite only when the source is newer, otherwise skip
+ * - dedupe: trash the source if it is identical to the existing file, otherwise rename
+ */
+export type CollisionPolicy = 'rename' | 'skip' | 'overwrite' | 'keep-newer' | 'dedupe';
+
+export type CollisionOutcome = 'renamed' | 'skipped' | 'overwritten' | 'deduplicated';
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['rename', 'skip', 'overwrite', 'keep-newer', 'dedupe'];
+
 export interface MoveResult {
   success: boolean;
   from: string;
+  // Final location: the source path when skipped, the trash path when deduplicated
   to: string;
   error?: string;
+  // Set when the target already existed
+  collision?: CollisionOutcome;
+  // Trash location of the file that was overwritten
+  replacedPath?: string;
 }
 
 export interface DeleteResult {
@@ -28,6 +57,27 @@ export interface DeleteResult {
   error?: string;
 }
 
+/**
+ * How a duplicate is replaced by a link to the kept file:
+ * - hardlink: another name for the same file; edits show up in both paths
+ * - reflink: a copy-on-write clone; independent file, shared storage until changed
+ * - auto: reflink where the filesystem supports it, otherwise hardlink
+ */
+export type LinkMode = 'hardlink' | 'reflink' | 'auto';
+
+export type LinkType = 'hardlink' | 'reflink';
+
+export const LINK_MODES: LinkMode[] = ['hardlink', 'reflink', 'auto'];
+
+export interface LinkResult {
+  success: boolean;
+  path: string;
+  target: string;
+  // Kind of link that was created
+  linkType?: LinkType;
+  error?: string;
+}
+
 /**
  * Check if a file exists
  */
@@ -50,21 +100,47 @@ export function directoryExists(dirPath: string): boolean {
   }
 }
 
+function toFileInfo(filePath: string, stats: fs.BigIntStats, isSymlink: boolean = false): FileInfo {
+  return {
+    path: filePath,
+    name: path.basename(filePath),
+    size: Number(stats.size),
+    createdAt: stats.birthtime,
+    modifiedAt: stats.mtime,
+    accessedAt: stats.atime,
+    isFile: stats.isFile(),
+    isDirectory: stats.isDirectory(),
+    isSymlink,
+    device: stats.dev.toString(),
+    inode: stats.ino.toString(),
+    nlink: Number(stats.nlink),
+  };
+}
+
 /**
  * Get file information safely
  */
 export function getFileInfo(filePath: string): FileInfo | null {
   try {
-    const stats = fs.statSync(filePath);
-    return {
-      path: filePath,
-      name: path.basename(filePath),
-      size: stats.size,
-      createdAt: stats.birthtime,
-      modifiedAt: stats.mtime,
-      isFile: stats.isFile(),
-      isDirectory: stats.isDirectory(),
-    };
+    const stats = fs.statSync(filePath, { bigint: true });
+    return toFileInfo(filePath, stats, fs.lstatSync(filePath).isSymbolicLink());
+  } catch (error) {
+    logger.debug(`Failed to get file info: ${filePath}`, error);
+    return null;
+  }
+}
+
+/**
+ * Get file information safely without blocking the event loop.
+ * Symlinks are not followed unless followSymlinks is set.
+ */
+export async function statFileInfo(filePath: string, followSymlinks: boolean = false): Promise<FileInfo | null> {
+  try {
+    const linkStats = await fs.promises.lstat(filePath, { bigint: true });
+    if (linkStats.isSymbolicLink() && followSymlinks) {
+      return toFileInfo(filePath, await fs.promises.stat(filePath, { bigint: true }), true);
+    }
+    return toFileInfo(filePath, linkStats, linkStats.isSymbolicLink());
   } catch (error) {
     logger.debug(`Failed to get file info: ${filePath}`, error);
     return null;
@@ -111,9 +187,25 @@ export function getUniqueFilename(targetPath: string): string {
 }
 
 /**
- * Safely move a file with collision handling
+ * Check whether two files have the same content
  */
-export async function safeMove(from: string, to: string, handleCollision: boolean = true): Promise<MoveResult> {
+async function isSameContent(a: string, b: string): Promise<boolean> {
+  const [statsA, statsB] = await Promise.all([fs.promises.stat(a), fs.promises.stat(b)]);
+  if (statsA.size !== statsB.size) return false;
+
+  const [hashA, hashB] = await Promise.all([calculateQuickHash(a), calculateQuickHash(b)]);
+  return hashA === hashB;
+}
+
+/**
+ * Safely move a file with collision handling.
+ * `collision` is a policy, or true for 'rename' and false to replace the target in place.
+ */
+export async function safeMove(
+  from: string,
+  to: string,
+  collision: boolean | CollisionPolicy = true
+): Promise<MoveResult> {
   try {
     // Check source exists
     if (!fs.existsSync(from)) {
@@ -128,21 +220,62 @@ export async function safeMove(from: string, to: string, handleCollision: boolea
 
     // Handle collision
     let finalTo = to;
-    if (handleCollision && fs.existsSync(to)) {
-      finalTo = getUniqueFilename(to);
-      logger.debug(`Collision detected, renamed to: ${finalTo}`);
+    let outcome: CollisionOutcome | undefined;
+    let replacedPath: string | undefined;
+    const policy = collision === true ? 'rename' : collision === false ? null : collision;
+
+    if (policy && fs.existsSync(to)) {
+      let resolved: CollisionPolicy = policy;
+      if (policy === 'keep-newer') {
+        const [source, existing] = await Promise.all([fs.promises.stat(from), fs.promises.stat(to)]);
+        resolved = source.mtimeMs > existing.mtimeMs ? 'overwrite' : 'skip';
+      } else if (policy === 'dedupe') {
+        if (await isSameContent(from, to)) {
+          const trashed = await safeDelete(from, true);
+          if (!trashed.success) {
+            return { success: false, from, to, error: trashed.error };
+          }
+          logger.debug(`Collision with identical file, moved source to trash: ${from}`);
+          return { success: true, from, to: trashed.trashPath!, collision: 'deduplicated' };
+        }
+        resolved = 'rename';
+      }
+
+      if (resolved === 'skip') {
+        logger.debug(`Collision detected, skipped: ${from}`);
+        return { success: true, from, to: from, collision: 'skipped' };
+      }
+
+      if (resolved === 'overwrite') {
+        // Keep the replaced file in trash so the move can be rolled back
+        const trashed = await safeDelete(to, true);
+        if (!trashed.success) {
+          return { success: false, from, to, error: `Failed to move existing file to trash: ${trashed.error}` };
+        }
+        replacedPath = trashed.trashPath;
+        outcome = 'overwritten';
+        logger.debug(`Collision detected, replaced file moved to trash: ${replacedPath}`);
+      } else {
+        finalTo = getUniqueFilename(to);
+        outcome = 'renamed';
+        logger.debug(`Collision detected, renamed to: ${finalTo}`);
+      }
     }
 
     // Try rename first (same filesystem)
     try {
       fs.renameSync(from, finalTo);
-      return { success: true, from, to: finalTo };
     } catch {
       // Fall back to copy + delete (cross filesystem)
-      fs.copyFileSync(from, finalTo);
-      fs.unlinkSync(from);
-      return { success: true, from, to: finalTo };
+      if (fs.lstatSync(from).isDirectory()) {
+        fs.cpSync(from, finalTo, { recursive: true, preserveTimestamps: true, verbatimSymlinks: true });
+        fs.rmSync(from, { recursive: true });
+      } else {
+        fs.copyFileSync(from, finalTo);
+        fs.unlinkSync(from);
+      }
     }
+    return { success: true, from, to: finalTo, collision: outcome, replacedPath };
   } catch (error: any) {
     const errorMsg = error.code === 'EACCES' ? 'Permission denied' :
                      error.code === 'EBUSY' ? 'File is locked/busy' :
@@ -155,7 +288,7 @@ export async function safeMove(from: string, to: string, handleCollision: boolea
 }
 
 /**
- * Safely delete a file (moves to trash by default)
+ * Safely delete a file or directory (moves to trash by default)
  */
 export async function safeDelete(filePath: string, moveToTrash: boolean = true): Promise<DeleteResult> {
   try {
@@ -180,7 +313,11 @@ export async function safeDelete(filePath: string, moveToTrash: boolean = true):
       }
     } else {
       // Permanent delete
-      fs.unlinkSync(filePath);
+      if (fs.lstatSync(filePath).isDirectory()) {
+        fs.rmSync(filePath, { recursive: true });
+      } else {
+        fs.unlinkSync(filePath);
+      }
       return { success: true, path: filePath, movedToTrash: false };
     }
   } catch (error: any) {
@@ -193,6 +330,93 @@ export async function safeDelete(filePath: string, moveToTrash: boolean = true):
   }
 }
 
+/**
+ * Temporary name next to a file, on the same filesystem so it can be renamed over it
+ */
+function siblingTempPath(filePath: string): string {
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.deskpilot-${process.pid}-${Date.now()}`);
+}
+
+async function createLink(target: string, linkPath: string, type: LinkType): Promise<void> {
+  if (type === 'hardlink') {
+    await fs.promises.link(target, linkPath);
+  } else {
+    // FICLONE_FORCE fails instead of silently making a full copy
+    await fs.promises.copyFile(target, linkPath, fs.constants.COPYFILE_FICLONE_FORCE);
+  }
+}
+
+/**
+ * Replace a file with a hard link or clone of an identical target file.
+ * The link is made under a temporary name first and then renamed over the file,
+ * so the path is never missing. Links cannot span devices; the file is left
+ * untouched when no link can be made.
+ */
+export async function replaceWithLink(filePath: string, target: string, mode: LinkMode = 'auto'): Promise<LinkResult> {
+  const tempPath = siblingTempPath(filePath);
+  const types: LinkType[] = mode === 'auto' ? ['reflink', 'hardlink'] : [mode];
+  let lastError: any;
+
+  try {
+    const original = await fs.promises.stat(filePath);
+
+    for (const type of types) {
+      try {
+        await createLink(target, tempPath, type);
+      } catch (error: any) {
+        lastError = error;
+        continue;
+      }
+
+      // Clones are separate files, so they can keep the duplicate's permissions and times
+      if (type === 'reflink') {
+        await fs.promises.chmod(tempPath, original.mode);
+        await fs.promises.utimes(tempPath, original.atime, original.mtime);
+      }
+
+      await fs.promises.rename(tempPath, filePath);
+      return { success: true, path: filePath, target, linkType: type };
+    }
+
+    const errorMsg = lastError?.code === 'EXDEV' ? 'File is on a different device than the kept copy' :
+                     ['ENOTSUP', 'EOPNOTSUPP', 'ENOSYS', 'EINVAL'].includes(lastError?.code) ? `Filesystem does not support ${mode === 'auto' ? 'links' : `${mode}s`}` :
+                     lastError?.code === 'EACCES' ? 'Permission denied' :
+                     lastError?.message || 'Unknown error';
+    return { success: false, path: filePath, target, error: errorMsg };
+  } catch (error: any) {
+    await fs.promises.rm(tempPath, { force: true }).catch(() => undefined);
+    const errorMsg = error.code === 'EACCES' ? 'Permission denied' : error.message || 'Unknown error';
+    logger.error(`Failed to link file: ${filePath} -> ${target}`, errorMsg);
+    return { success: false, path: filePath, target, error: errorMsg };
+  }
+}
+
+/**
+ * Turn a hard link or clone back into an independent file with its own data,
+ * keeping its permissions and times
+ */
+export async function detachLink(filePath: string): Promise<{ success: boolean; error?: string }> {
+  const tempPath = siblingTempPath(filePath);
+
+  try {
+    const stats = await fs.promises.stat(filePath);
+
+    // Stream the bytes: copyFile may clone them again on copy-on-write filesystems
+    await pipeline(fs.createReadStream(filePath), fs.createWriteStream(tempPath, { mode: stats.mode }));
+    await fs.promises.utimes(tempPath, stats.atime, stats.mtime);
+    await fs.promises.rename(tempPath, filePath);
+
+    return { success: true };
+  } catch (error: any) {
+    await fs.promises.rm(tempPath, { force: true }).catch(() => undefined);
+    const errorMsg = error.code === 'ENOENT' ? 'File does not exist' :
+                     error.code === 'EACCES' ? 'Permission denied' :
+                     error.message || 'Unknown error';
+    logger.error(`Failed to detach link: ${filePath}`, errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
 /**
  * Restore a file from trash
  */
@@ -201,39 +425,116 @@ export async function restoreFromTrash(trashFilePath: string, originalPath: stri
 }
 
 /**
- * Get all files in a directory recursively
+ * Walk a directory and yield files as they are found, honoring the walk options.
+ * Uses fs.promises.opendir so memory stays bounded by the folder depth.
+ * Symlinks are skipped unless followSymlinks is set; directories are tracked
+ * by device and inode so symlink loops are never walked twice.
  */
-export async function getAllFiles(
-  dirPath: string, 
-  recursive: boolean = true,
+export async function* walkFiles(
+  dirPath: string,
+  options: WalkOptions = {},
   filter?: (filePath: string) => boolean
-): Promise<string[]> {
-  const files: string[] = [];
+): AsyncGenerator<FileInfo> {
+  const {
+    recursive = true,
+    includeHidden = false,
+    followSymlinks = false,
+    include = [],
+    exclude = DEFAULT_EXCLUDES,
+    minSize,
+    maxSize,
+  } = options;
+  const maxDepth = recursive ? options.maxDepth ?? Infinity : 0;
+  const trashPath = path.resolve(env.trashPath);
+  const visitedDirs = new Set<string>();
 
-  try {
-    const entries = fs.readdirSync(dirPath, { withFileTypes: true });
+  // Mark a directory as visited, returning false if it was seen before
+  const visitDirectory = async (directory: string): Promise<boolean> => {
+    try {
+      const stats = await fs.promises.stat(directory, { bigint: true });
+      const key = `${stats.dev}:${stats.ino}`;
+      if (visitedDirs.has(key)) return false;
+      visitedDirs.add(key);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  async function* walk(currentDir: string, depth: number): AsyncGenerator<FileInfo> {
+    let dir: fs.Dir;
+    try {
+      dir = await fs.promises.opendir(currentDir);
+    } catch (error: any) {
+      if (error.code !== 'EACCES' && error.code !== 'EPERM') {
+        logger.warn(`Error reading directory: ${currentDir}`, error.message);
+      }
+      return;
+    }
+
+    try {
+      for await (const entry of dir) {
+        const fullPath = path.join(currentDir, entry.name);
+        const relativePath = path.relative(dirPath, fullPath);
 
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
+        if (!includeHidden && isHiddenName(entry.name)) continue;
+        if (matchesAnyGlob(relativePath, exclude)) continue;
+        if (entry.isSymbolicLink() && !followSymlinks) continue;
 
-      if (entry.isFile()) {
-        if (!filter || filter(fullPath)) {
-          files.push(fullPath);
+        let isFile = entry.isFile();
+        let isDirectory = entry.isDirectory();
+        let linkTarget: FileInfo | null = null;
+        if (entry.isSymbolicLink()) {
+          linkTarget = await statFileInfo(fullPath, true);
+          if (!linkTarget) {
+            logger.debug(`Skipping broken symlink: ${fullPath}`);
+            continue;
+          }
+          isFile = linkTarget.isFile;
+          isDirectory = linkTarget.isDirectory;
         }
-      } else if (entry.isDirectory() && recursive) {
-        // Skip hidden directories and system folders
-        if (!entry.name.startsWith('.') && 
-            entry.name !== 'node_modules' && 
-            entry.name !== '.deskpilot-trash') {
-          const subFiles = await getAllFiles(fullPath, recursive, filter);
-          files.push(...subFiles);
+
+        if (isFile) {
+          if (include.length > 0 && !matchesAnyGlob(relativePath, include)) continue;
+          if (filter && !filter(fullPath)) continue;
+
+          const info = linkTarget ?? await statFileInfo(fullPath);
+          if (!info) continue;
+          if (minSize !== undefined && info.size < minSize) continue;
+          if (maxSize !== undefined && info.size > maxSize) continue;
+
+          yield info;
+        } else if (isDirectory && depth < maxDepth) {
+          // Never walk into our own trash folder
+          if (entry.name === '.deskpilot-trash' || path.resolve(fullPath) === trashPath) continue;
+          if (!(await visitDirectory(fullPath))) {
+            logger.debug(`Skipping already visited directory (symlink loop?): ${fullPath}`);
+            continue;
+          }
+          yield* walk(fullPath, depth + 1);
         }
       }
+    } catch (error: any) {
+      logger.warn(`Error walking directory: ${currentDir}`, error.message);
     }
-  } catch (error: any) {
-    if (error.code !== 'EACCES' && error.code !== 'EPERM') {
-      logger.warn(`Error reading directory: ${dirPath}`, error.message);
-    }
+  }
+
+  await visitDirectory(dirPath);
+  yield* walk(dirPath, 0);
+}
+
+/**
+ * Get all files in a directory, honoring the walk options
+ */
+export async function getAllFiles(
+  dirPath: string, 
+  options: WalkOptions = {},
+  filter?: (filePath: string) => boolean
+): Promise<string[]> {
+  const files: string[] = [];
+
+  for await (const file of walkFiles(dirPath, options, filter)) {
+    files.push(file.path);
   }
 
   return files;
@@ -287,11 +588,15 @@ export default {
   fileExists,
   directoryExists,
   getFileInfo,
+  statFileInfo,
   ensureDirectory,
   getUniqueFilename,
   safeMove,
   safeDelete,
   restoreFromTrash,
+  replaceWithLink,
+  detachLink,
+  walkFiles,
   getAllFiles,
   formatBytes,
   isAccessible,
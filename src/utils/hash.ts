@@ -38,11 +38,11 @@ export async function calculateFileHash(filePath: string): Promise<string> {
  */
 export async function calculateQuickHash(filePath: string, sizeThreshold: number = 1024 * 1024): Promise<string> {
   try {
-    const stats = fs.statSync(filePath);
+    const stats = await fs.promises.stat(filePath);
     
     if (stats.size <= sizeThreshold) {
       // For small files, read entire content
-      const content = fs.readFileSync(filePath);
+      const content = await fs.promises.readFile(filePath);
       return crypto.createHash('sha256').update(content).digest('hex');
     }
     
@@ -54,36 +54,49 @@ export async function calculateQuickHash(filePath: string, sizeThreshold: number
   }
 }
 
+const PARTIAL_HASH_CHUNK_SIZE = 65536;
+
+/**
+ * Number of bytes calculatePartialHash reads for a file of the given size
+ */
+export function getPartialHashReadSize(size: number): number {
+  if (size === 0) return 0;
+  const chunkSize = Math.min(PARTIAL_HASH_CHUNK_SIZE, Math.floor(size / 2));
+  return size > chunkSize * 2 ? chunkSize * 2 : chunkSize;
+}
+
 /**
  * Calculate a partial hash (first + last + size) for quick duplicate detection
  * Useful for initial filtering before full hash comparison
  */
 export async function calculatePartialHash(filePath: string): Promise<string> {
   try {
-    const stats = fs.statSync(filePath);
+    const stats = await fs.promises.stat(filePath);
     const size = stats.size;
     
     if (size === 0) {
       return crypto.createHash('sha256').update('empty').digest('hex');
     }
 
-    const chunkSize = Math.min(65536, Math.floor(size / 2)); // 64KB or half file
+    const chunkSize = Math.min(PARTIAL_HASH_CHUNK_SIZE, Math.floor(size / 2)); // 64KB or half file
     const hash = crypto.createHash('sha256');
 
     // Read first chunk
-    const fd = fs.openSync(filePath, 'r');
-    const firstChunk = Buffer.alloc(chunkSize);
-    fs.readSync(fd, firstChunk, 0, chunkSize, 0);
-    hash.update(firstChunk);
-
-    // Read last chunk (if file is large enough)
-    if (size > chunkSize * 2) {
-      const lastChunk = Buffer.alloc(chunkSize);
-      fs.readSync(fd, lastChunk, 0, chunkSize, size - chunkSize);
-      hash.update(lastChunk);
-    }
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const firstChunk = Buffer.alloc(chunkSize);
+      await handle.read(firstChunk, 0, chunkSize, 0);
+      hash.update(firstChunk);
 
-    fs.closeSync(fd);
+      // Read last chunk (if file is large enough)
+      if (size > chunkSize * 2) {
+        const lastChunk = Buffer.alloc(chunkSize);
+        await handle.read(lastChunk, 0, chunkSize, size - chunkSize);
+        hash.update(lastChunk);
+      }
+    } finally {
+      await handle.close();
+    }
 
     // Include file size in hash
     hash.update(size.toString());
@@ -95,6 +108,43 @@ export async function calculatePartialHash(filePath: string): Promise<string> {
   }
 }
 
+const COMPARE_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Compare two files byte for byte, reading both in step so that a
+ * difference is found without reading the rest of either file
+ */
+export async function compareFiles(pathA: string, pathB: string): Promise<boolean> {
+  const handleA = await fs.promises.open(pathA, 'r');
+  let handleB: fs.promises.FileHandle | undefined;
+
+  try {
+    handleB = await fs.promises.open(pathB, 'r');
+    const bufferA = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    const bufferB = Buffer.alloc(COMPARE_CHUNK_SIZE);
+    let position = 0;
+
+    while (true) {
+      const [readA, readB] = await Promise.all([
+        handleA.read(bufferA, 0, COMPARE_CHUNK_SIZE, position),
+        handleB.read(bufferB, 0, COMPARE_CHUNK_SIZE, position),
+      ]);
+
+      if (readA.bytesRead !== readB.bytesRead) return false;
+      if (readA.bytesRead === 0) return true;
+      if (!bufferA.subarray(0, readA.bytesRead).equals(bufferB.subarray(0, readB.bytesRead))) return false;
+
+      position += readA.bytesRead;
+    }
+  } catch (error) {
+    logger.error(`Error comparing files: ${pathA}, ${pathB}`, error);
+    throw error;
+  } finally {
+    await handleA.close();
+    await handleB?.close();
+  }
+}
+
 /**
  * Generate a unique ID using UUID-like format
  */
@@ -113,6 +163,8 @@ export default {
   calculateFileHash,
   calculateQuickHash,
   calculatePartialHash,
+  getPartialHashReadSize,
+  compareFiles,
   generateId,
   generateShortId,
 };
@@ -0,0 +1,215 @@
+import * as path from 'path';
+import { calculatePartialHash, calculateQuickHash, getPartialHashReadSize } from './hash';
+import { logger } from './logger';
+import { runWithConcurrency } from './pool';
+import { env } from '../config/env';
+
+/**
+ * A file that takes part in duplicate detection.
+ * Hashes that are already known (e.g. from a previous scan) are reused.
+ */
+export interface HashCandidate {
+  path: string;
+  size: number;
+  partialHash?: string;
+  hash?: string;
+}
+
+export interface HashPipelineStats {
+  bytesRead: number;
+  partialHashed: number;
+  fullHashed: number;
+}
+
+export interface HashPipelineOptions {
+  concurrency?: number;
+  onProgress?: (current: number, total: number, file: string) => void;
+}
+
+export interface HashPipelineResult<T extends HashCandidate> {
+  groups: T[][];
+  stats: HashPipelineStats;
+}
+
+/**
+ * Create an empty stats object
+ */
+export function createPipelineStats(): HashPipelineStats {
+  return { bytesRead: 0, partialHashed: 0, fullHashed: 0 };
+}
+
+/**
+ * Group candidates by file size
+ */
+export function groupBySize<T extends { size: number }>(items: T[]): Map<number, T[]> {
+  const groups: Map<number, T[]> = new Map();
+
+  for (const item of items) {
+    if (!groups.has(item.size)) {
+      groups.set(item.size, []);
+    }
+    groups.get(item.size)!.push(item);
+  }
+
+  return groups;
+}
+
+/**
+ * Split files into one representative per inode and groups of paths that are
+ * hard links (or followed symlinks) to the same inode. Linked paths share their
+ * bytes, so they are never duplicates of each other.
+ */
+export function collapseHardLinks<T extends { device?: string; inode?: string }>(
+  files: T[]
+): { unique: T[]; linkGroups: T[][] } {
+  const byInode: Map<string, T[]> = new Map();
+  const unique: T[] = [];
+
+  for (const file of files) {
+    // Some filesystems report 0 when inode numbers are unavailable
+    if (!file.inode || file.inode === '0' || file.device === undefined) {
+      unique.push(file);
+      continue;
+    }
+
+    const key = `${file.device}:${file.inode}`;
+    const group = byInode.get(key);
+    if (group) {
+      group.push(file);
+    } else {
+      byInode.set(key, [file]);
+      unique.push(file);
+    }
+  }
+
+  return { unique, linkGroups: [...byInode.values()].filter(g => g.length > 1) };
+}
+
+/**
+ * Bytes freed by removing a path: nothing while other hard links keep the inode
+ */
+export function reclaimableSize(file: { size: number; nlink?: number }): number {
+  return file.nlink !== undefined && file.nlink > 1 ? 0 : file.size;
+}
+
+/**
+ * Group candidates by a key, dropping items without one
+ */
+function groupByKey<T>(items: T[], getKey: (item: T) => string | undefined): Map<string, T[]> {
+  const groups: Map<string, T[]> = new Map();
+
+  for (const item of items) {
+    const key = getKey(item);
+    if (!key) continue;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(item);
+  }
+
+  return groups;
+}
+
+/**
+ * Run hash stages for groups of same-size files.
+ * Computes partial hashes first and full hashes only for partial collisions,
+ * hashing up to `concurrency` files at a time across all groups.
+ * Returns the groups of files whose full hashes match.
+ * onHashed is called once per file, when no further stage is needed for it.
+ */
+export async function resolveSizeGroups<T extends HashCandidate>(
+  sizeGroups: T[][],
+  stats: HashPipelineStats,
+  options: { concurrency?: number; onHashed?: (file: T) => void } = {}
+): Promise<T[][]> {
+  const { concurrency = env.hashConcurrency, onHashed } = options;
+  const groups = sizeGroups.filter(g => g.length > 1);
+
+  // Stage 2: partial hash (first + last chunk)
+  const needPartial = groups.flat().filter(f => !f.partialHash);
+  await runWithConcurrency(needPartial, concurrency, async (file) => {
+    try {
+      file.partialHash = await calculatePartialHash(file.path);
+      stats.partialHashed++;
+      stats.bytesRead += getPartialHashReadSize(file.size);
+    } catch (error) {
+      logger.warn(`Error calculating partial hash: ${file.path}`, error);
+      onHashed?.(file);
+    }
+  });
+
+  // Stage 3: full hash for files that still collide
+  const partialGroups: T[][] = [];
+  for (const group of groups) {
+    for (const partialGroup of groupByKey(group, f => f.partialHash).values()) {
+      if (partialGroup.length < 2) {
+        partialGroup.forEach(file => onHashed?.(file));
+      } else {
+        partialGroups.push(partialGroup);
+      }
+    }
+  }
+
+  const needFull = partialGroups.flat();
+  await runWithConcurrency(needFull, concurrency, async (file) => {
+    if (!file.hash) {
+      try {
+        file.hash = await calculateQuickHash(file.path);
+        stats.fullHashed++;
+        stats.bytesRead += file.size;
+      } catch (error) {
+        logger.warn(`Error calculating hash: ${file.path}`, error);
+      }
+    }
+    onHashed?.(file);
+  });
+
+  const duplicates: T[][] = [];
+  for (const partialGroup of partialGroups) {
+    for (const fullGroup of groupByKey(partialGroup, f => f.hash).values()) {
+      if (fullGroup.length > 1) {
+        duplicates.push(fullGroup);
+      }
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Find groups of identical files with a staged pipeline:
+ * size → partial hash → full hash. Files with a unique size are never read.
+ */
+export async function findDuplicateSets<T extends HashCandidate>(
+  candidates: T[],
+  options: HashPipelineOptions = {}
+): Promise<HashPipelineResult<T>> {
+  const { onProgress, concurrency } = options;
+  const stats = createPipelineStats();
+
+  // Stage 1: size buckets
+  const sizeGroups = [...groupBySize(candidates).values()].filter(g => g.length > 1);
+  const total = sizeGroups.reduce((sum, g) => sum + g.length, 0);
+  let current = 0;
+
+  const groups = await resolveSizeGroups(sizeGroups, stats, {
+    concurrency,
+    onHashed: file => {
+      current++;
+      onProgress?.(current, total, path.basename(file.path));
+    },
+  });
+
+  logger.debug(`Hash pipeline: ${stats.partialHashed} partial, ${stats.fullHashed} full hashes, ${stats.bytesRead} bytes read`);
+
+  return { groups, stats };
+}
+
+export default {
+  createPipelineStats,
+  groupBySize,
+  collapseHardLinks,
+  reclaimableSize,
+  resolveSizeGroups,
+  findDuplicateSets,
+};
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { logger } from './logger';
+
+// Detected types (see fileType.ts) that can be decoded for a perceptual hash.
+// Other images, such as WebP and HEIC, are not decoded and never get one.
+export const PERCEPTUAL_HASH_TYPES = ['jpeg', 'png'];
+
+// Images larger than this are skipped to keep decoding time and memory bounded
+const MAX_IMAGE_BYTES = 64 * 1024 * 1024;
+
+// Decoded pixels take 4 bytes each, so 40 megapixels need 160 MB
+const MAX_IMAGE_PIXELS = 40 * 1000 * 1000;
+
+// dHash compares each cell with its right neighbour on a 9x8 grid: 64 bits
+const GRID_WIDTH = 9;
+const GRID_HEIGHT = 8;
+
+interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel
+  data: Uint8Array;
+}
+
+/**
+ * Read the pixel dimensions from the image header without decoding it: the
+ * IHDR chunk of a PNG, or the first start-of-frame segment of a JPEG
+ */
+function readDimensions(buffer: Buffer, type: string): { width: number; height: number } | null {
+  if (type === 'png') {
+    return buffer.length >= 24 ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) } : null;
+  }
+
+  let offset = 2;
+  while (offset + 9 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    } else {
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+function decodeImage(buffer: Buffer, type: string): DecodedImage {
+  if (type === 'jpeg') {
+    return jpeg.decode(buffer, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: MAX_IMAGE_PIXELS / 1000000,
+      maxMemoryUsageInMB: 256,
+    });
+  }
+  return PNG.sync.read(buffer);
+}
+
+/**
+ * Calculate a 64-bit difference hash (dHash) as 16 hex digits. The image is
+ * reduced to a 9x8 grid of average brightness, and each bit records whether a
+ * cell is brighter than its right neighbour, so resizing and re-encoding
+ * change few bits. Transparent pixels count as white. Returns null for types
+ * that cannot be decoded, and for oversized or corrupt images. Decoding takes
+ * up to a few hundred MB, so callers hash one image at a time.
+ */
+export async function calculatePerceptualHash(filePath: string, type: string): Promise<string | null> {
+  if (!PERCEPTUAL_HASH_TYPES.includes(type)) {
+    return null;
+  }
+
+  try {
+    const stats = await fs.promises.stat(filePath);
+    if (stats.size > MAX_IMAGE_BYTES) {
+      logger.debug(`Skipping perceptual hash of large image: ${filePath}`);
+      return null;
+    }
+
+    const buffer = await fs.promises.readFile(filePath);
+    const dimensions = readDimensions(buffer, type);
+    if (!dimensions || dimensions.width * dimensions.height > MAX_IMAGE_PIXELS) {
+      logger.debug(`Skipping perceptual hash of ${dimensions ? 'large' : 'unreadable'} image: ${filePath}`);
+      return null;
+    }
+
+    const { width, height, data } = decodeImage(buffer, type);
+    if (width === 0 || height === 0) {
+      return null;
+    }
+
+    // Average brightness per grid cell, in one pass over the pixels
+    const sums = new Float64Array(GRID_WIDTH * GRID_HEIGHT);
+    const counts = new Uint32Array(GRID_WIDTH * GRID_HEIGHT);
+    for (let y = 0; y < height; y++) {
+      const row = Math.floor((y * GRID_HEIGHT) / height) * GRID_WIDTH;
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const alpha = data[i + 3] / 255;
+        const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        const cell = row + Math.floor((x * GRID_WIDTH) / width);
+        sums[cell] += luma * alpha + 255 * (1 - alpha);
+        counts[cell]++;
+      }
+    }
+    const averages = Array.from(sums, (sum, cell) => (counts[cell] ? sum / counts[cell] : 255));
+
+    let hash = '';
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      let bits = 0;
+      for (let x = 0; x < GRID_WIDTH - 1; x++) {
+        const cell = y * GRID_WIDTH + x;
+        bits = (bits << 1) | (averages[cell] > averages[cell + 1] ? 1 : 0);
+      }
+      hash += bits.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } catch (error) {
+    logger.debug(`Failed to calculate perceptual hash: ${filePath}`, error);
+    return null;
+  }
+}
+
+/**
+ * Number of differing bits between two perceptual hashes
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  let distance = 0;
+  for (let i = 0; i < hashA.length; i += 8) {
+    let bits = (parseInt(hashA.slice(i, i + 8), 16) ^ parseInt(hashB.slice(i, i + 8), 16)) >>> 0;
+    while (bits) {
+      bits &= bits - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Group items whose perceptual hashes differ in at most `threshold` bits.
+ * The 64 bits are split into threshold + 1 bands: two hashes that close
+ * must agree on at least one whole band, so only items sharing a band value
+ * are compared. Items linked through a chain of close pairs share a group.
+ */
+export function clusterByDistance<T>(items: T[], getHash: (item: T) => string, threshold: number): T[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const hashes = items.map(getHash);
+  const bits = hashes.map(hash => BigInt(`0x${hash}`).toString(2).padStart(64, '0'));
+  const bands = Math.min(threshold + 1, 64);
+  const compared = new Set<string>();
+
+  for (let band = 0; band < bands; band++) {
+    const start = Math.round((band * 64) / bands);
+    const end = Math.round(((band + 1) * 64) / bands);
+    const buckets: Map<string, number[]> = new Map();
+    bits.forEach((value, i) => {
+      const key = value.slice(start, end);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        buckets.set(key, [i]);
+      }
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) {
+          const [i, j] = [bucket[x], bucket[y]];
+          const pair = `${i}:${j}`;
+          if (find(i) === find(j) || compared.has(pair)) continue;
+          compared.add(pair);
+
+          if (hammingDistance(hashes[i], hashes[j]) <= threshold) {
+            parent[find(j)] = find(i);
+          }
+        }
+      }
+    }
+  }
+
+  const groups: Map<number, T[]> = new Map();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(root, [item]);
+    }
+  });
+
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+export default {
+  calculatePerceptualHash,
+  hammingDistance,
+  clusterByDistance,
+};
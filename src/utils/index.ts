@@ -4,34 +4,119 @@ export {
   calculateFileHash, 
   calculateQuickHash, 
   calculatePartialHash, 
+  getPartialHashReadSize,
+  compareFiles,
   generateId, 
   generateShortId 
 } from './hash';
+export {
+  createPipelineStats,
+  groupBySize,
+  collapseHardLinks,
+  reclaimableSize,
+  resolveSizeGroups,
+  findDuplicateSets,
+} from './hashPipeline';
+export { runWithConcurrency, parseConcurrency } from './pool';
+export { computeDirectoryHashes, findDuplicateDirectories, compareDirectories } from './dirHash';
+export type { DirectoryHash } from './dirHash';
+export { PERCEPTUAL_HASH_TYPES, calculatePerceptualHash, hammingDistance, clusterByDistance } from './imageHash';
+export {
+  TEXT_SIMILARITY_EXTENSIONS,
+  DEFAULT_TEXT_SIMILARITY,
+  calculateMinHash,
+  estimateSimilarity,
+  clusterBySimilarity,
+} from './textHash';
+export {
+  DEFAULT_EXCLUDES,
+  globToRegExp,
+  matchesGlob,
+  matchesAnyGlob,
+  isHiddenName,
+  parseSize,
+  parseDuration,
+  formatDuration,
+  parseWalkOptions,
+} from './fileFilter';
+export type { WalkOptions } from './fileFilter';
+export {
+  parseRules,
+  getConfiguredRules,
+  matchesRule,
+  findMatchingRule,
+  renderDestination,
+} from './rules';
+export type { RuleConditions, OrganizeRule, RuleSubject } from './rules';
+export { DATE_SOURCES, extractDateFromName, getFileDate } from './dates';
+export {
+  stripCopySuffix,
+  slugify,
+  formatDate,
+  validateRenameTemplate,
+  renderFileName,
+} from './renameTemplate';
+export type { RenameContext } from './renameTemplate';
+export { parseCopyName, groupCopySiblings } from './copyNames';
+export type { CopyMarker, CopyName, CopySiblings } from './copyNames';
+export { PLAN_FORMATS, PLAN_VERSION, serializePlan, parsePlan } from './plan';
+export type { PlanFormat, PlanAction, Plan } from './plan';
+export type { DateSource } from './dates';
+export type {
+  HashCandidate,
+  HashPipelineStats,
+  HashPipelineOptions,
+  HashPipelineResult,
+} from './hashPipeline';
 export { 
+  DEFAULT_CATEGORY,
+  INCOMPLETE_CATEGORY,
+  categorizeExtension,
   categorizeFile, 
+  isIncompleteFile,
   getExtension, 
   getAllCategories, 
+  getCategoryDefinitions,
   getCategoryColor, 
   getCategoryEmoji,
   getExtensionsForCategory
 } from './categorize';
-export type { FileCategory } from './categorize';
+export type { FileCategory, CategoryDefinition } from './categorize';
+export {
+  SNIFF_LENGTH,
+  detectFileTypeFromBuffer,
+  detectFileType,
+  getFileTypeByName,
+  isTypeMismatch,
+  resolveCategory,
+} from './fileType';
+export type { DetectedFileType } from './fileType';
 export {
   fileExists,
   directoryExists,
   getFileInfo,
+  statFileInfo,
   ensureDirectory,
   getUniqueFilename,
   safeMove,
   safeDelete,
   restoreFromTrash,
+  replaceWithLink,
+  detachLink,
+  walkFiles,
   getAllFiles,
   formatBytes,
   isAccessible,
   getDirectorySize
 } from './fsSafe';
+export { COLLISION_POLICIES, LINK_MODES } from './fsSafe';
 export type {
   FileInfo,
   MoveResult,
   DeleteResult,
+  LinkMode,
+  LinkType,
+  LinkResult,
+  CollisionPolicy,
+  CollisionOutcome,
 } from './fsSafe';
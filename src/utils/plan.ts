@@ -0,0 +1,178 @@
+import * as path from 'path';
+import YAML from 'yaml';
+import { COLLISION_POLICIES, CollisionPolicy, LINK_MODES, LinkMode } from './fsSafe';
+
+export type PlanFormat = 'json' | 'yaml';
+
+export const PLAN_FORMATS: PlanFormat[] = ['json', 'yaml'];
+
+export const PLAN_VERSION = 1;
+
+/**
+ * One file operation in a plan
+ */
+export interface PlanAction {
+  type: 'move' | 'rename' | 'delete' | 'link';
+  from: string;
+  // Target path for moves and renames; expected trash path for deletes (informational);
+  // the file to link to for links
+  to: string;
+  // For deletes: remove the file for good instead of moving it to the trash.
+  // Only an explicit true does this; a missing or empty "to" still trashes.
+  permanent?: boolean;
+  // Size and SHA-256 hash recorded when the plan was made; checked before applying
+  size?: number;
+  hash?: string;
+  // Modification time (ISO 8601) recorded when the plan was made; checked before applying
+  modifiedAt?: string;
+  // For deletes and links: the copy that stays, which must still exist
+  keptPath?: string;
+  // For links: hardlink, reflink or auto
+  linkMode?: LinkMode;
+  // For deletes of an older version of a document: estimated similarity to the
+  // kept version, whose content is then not expected to match
+  similarity?: number;
+}
+
+/**
+ * A reviewable organize, dedupe or cleanup plan, exported from a dry run
+ */
+export interface Plan {
+  version: number;
+  // Dry-run transaction the plan came from
+  transactionId?: string;
+  type: 'organize' | 'dedupe' | 'cleanup';
+  targetPath: string;
+  createdAt?: string;
+  strategy?: string;
+  collisionPolicy?: CollisionPolicy;
+  actions: PlanAction[];
+}
+
+/**
+ * Turn a plan into an editable JSON or YAML document
+ */
+export function serializePlan(plan: Plan, format: PlanFormat = 'json'): string {
+  return format === 'yaml'
+    ? YAML.stringify(plan)
+    : JSON.stringify(plan, null, 2) + '\n';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOneOf<T>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+
+/**
+ * Read a plan from JSON or YAML text (JSON is valid YAML), throwing on anything
+ * that cannot be applied safely
+ */
+export function parsePlan(text: string, source: string): Plan {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid plan in ${source}: ${error.message}`);
+  }
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid plan in ${source}: expected an object`);
+  }
+  if (raw.version !== PLAN_VERSION) {
+    throw new Error(`Invalid plan in ${source}: unsupported version ${raw.version}`);
+  }
+  const planType = raw.type;
+  if (!isOneOf(['organize', 'dedupe', 'cleanup'] as const, planType)) {
+    throw new Error(`Invalid plan in ${source}: type must be organize, dedupe or cleanup`);
+  }
+  if (typeof raw.targetPath !== 'string' || !path.isAbsolute(raw.targetPath)) {
+    throw new Error(`Invalid plan in ${source}: targetPath must be an absolute path`);
+  }
+  const collisionPolicy = raw.collisionPolicy;
+  if (collisionPolicy !== undefined && !isOneOf(COLLISION_POLICIES, collisionPolicy)) {
+    throw new Error(`Invalid plan in ${source}: collisionPolicy must be one of ${COLLISION_POLICIES.join(', ')}`);
+  }
+  if (!Array.isArray(raw.actions)) {
+    throw new Error(`Invalid plan in ${source}: actions must be an array`);
+  }
+
+  // Organize plans may also trash identical copies collapsed into one; cleanup
+  // plans trash files or move them to an archive folder
+  const allowedTypes: PlanAction['type'][] = planType === 'organize'
+    ? ['move', 'rename', 'delete']
+    : planType === 'cleanup' ? ['delete', 'move'] : ['delete', 'link'];
+  const actions: PlanAction[] = raw.actions.map((entry: unknown, index: number) => {
+    const label = `Invalid action ${index + 1} in ${source}`;
+    if (!isObject(entry)) {
+      throw new Error(`${label}: expected an object`);
+    }
+    const type = entry.type;
+    if (!isOneOf(allowedTypes, type)) {
+      throw new Error(`${label}: type must be ${allowedTypes.join(' or ')} for ${planType} plans`);
+    }
+    if (typeof entry.from !== 'string' || !path.isAbsolute(entry.from)) {
+      throw new Error(`${label}: "from" must be an absolute path`);
+    }
+    const to = entry.to ?? '';
+    if (typeof to !== 'string' || (type !== 'delete' && !path.isAbsolute(to))) {
+      throw new Error(`${label}: "to" must be an absolute path`);
+    }
+    if (entry.size !== undefined && (typeof entry.size !== 'number' || entry.size < 0)) {
+      throw new Error(`${label}: size must be a byte count`);
+    }
+    if (entry.hash !== undefined && (typeof entry.hash !== 'string' || !/^[a-f0-9]{64}$/i.test(entry.hash))) {
+      throw new Error(`${label}: hash must be a SHA-256 hex digest`);
+    }
+    if (entry.linkMode !== undefined && !isOneOf(LINK_MODES, entry.linkMode)) {
+      throw new Error(`${label}: linkMode must be one of ${LINK_MODES.join(', ')}`);
+    }
+    if (entry.keptPath !== undefined && (typeof entry.keptPath !== 'string' || !path.isAbsolute(entry.keptPath))) {
+      throw new Error(`${label}: keptPath must be an absolute path`);
+    }
+    if (entry.similarity !== undefined && (typeof entry.similarity !== 'number' || entry.similarity < 0 || entry.similarity > 1)) {
+      throw new Error(`${label}: similarity must be a number from 0 to 1`);
+    }
+    if (entry.modifiedAt !== undefined && (typeof entry.modifiedAt !== 'string' || isNaN(Date.parse(entry.modifiedAt)))) {
+      throw new Error(`${label}: modifiedAt must be an ISO 8601 date`);
+    }
+    if (entry.permanent !== undefined && typeof entry.permanent !== 'boolean') {
+      throw new Error(`${label}: permanent must be true or false`);
+    }
+    // A dedupe delete is only safe next to the copy that stays
+    if (planType === 'dedupe' && type === 'delete' && entry.keptPath === undefined) {
+      throw new Error(`${label}: dedupe deletes need the keptPath of the copy that stays`);
+    }
+
+    return {
+      type,
+      from: entry.from,
+      to,
+      size: entry.size,
+      hash: entry.hash?.toLowerCase(),
+      modifiedAt: entry.modifiedAt,
+      keptPath: entry.keptPath,
+      linkMode: type === 'link' ? entry.linkMode : undefined,
+      permanent: type === 'delete' && entry.permanent === true ? true : undefined,
+      similarity: type === 'delete' ? entry.similarity : undefined,
+    };
+  });
+
+  return {
+    version: raw.version,
+    transactionId: typeof raw.transactionId === 'string' ? raw.transactionId : undefined,
+    type: planType,
+    targetPath: raw.targetPath,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : undefined,
+    strategy: typeof raw.strategy === 'string' ? raw.strategy : undefined,
+    collisionPolicy,
+    actions,
+  };
+}
+
+export default {
+  serializePlan,
+  parsePlan,
+};
@@ -0,0 +1,37 @@
+/**
+ * Run an async worker over items with at most `concurrency` in flight.
+ * Items are picked up in order; the worker is responsible for its own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+/**
+ * Parse a concurrency value, returning null when it is not a positive integer
+ */
+export function parseConcurrency(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return null;
+  }
+  return parsed;
+}
+
+export default {
+  runWithConcurrency,
+  parseConcurrency,
+};
@@ -0,0 +1,132 @@
+import * as path from 'path';
+
+/**
+ * Values a rename template can use
+ */
+export interface RenameContext {
+  // Original file name, with extension
+  fileName: string;
+  date: Date;
+  category: string;
+  // 1-based position of the file among those renamed into the same folder
+  counter: number;
+}
+
+const TEMPLATE_FUNCTIONS = ['slug', 'lower', 'upper'];
+const TEMPLATE_VARIABLES = ['name', 'original', 'ext', 'category', 'counter', 'date'];
+
+// {name}, {counter:3}, {date:yyyy-MM-dd}, {slug(name)}
+const TOKEN_PATTERN = /\{(?:(\w+)\((\w+)\)|(\w+)(?::([^}]*))?)\}/g;
+
+// " (1)", " - Copy", " copy 2", " (copy)" style suffixes added by browsers and file managers
+const COPY_SUFFIX_PATTERN = /(?:\s*\(\d+\)|\s*\(copy(?:\s+\d+)?\)|\s+-\s+copy(?:\s*\(\d+\))?|\s+copy(?:\s+\d+)?)+$/i;
+
+// Characters that are not allowed in file names on common platforms
+const UNSAFE_CHARS = /[<>:"/\\|?*\x00-\x1f]/g;
+
+/**
+ * Remove browser and file manager copy suffixes ("report (1)" → "report")
+ */
+export function stripCopySuffix(baseName: string): string {
+  const stripped = baseName.replace(COPY_SUFFIX_PATTERN, '');
+  return stripped || baseName;
+}
+
+/**
+ * Lowercase, ASCII-only, dash-separated version of a name
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Format a date with yyyy, yy, MM, dd, HH, mm and ss tokens
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const values: Record<string, string> = {
+    yyyy: date.getFullYear().toString(),
+    yy: pad(date.getFullYear() % 100),
+    MM: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, token => values[token]);
+}
+
+/**
+ * Check a rename template, returning an error message or null when it is valid
+ */
+export function validateRenameTemplate(template: string): string | null {
+  if (!template.trim()) {
+    return 'Rename template cannot be empty';
+  }
+
+  for (const [token, fn, arg, variable, format] of template.matchAll(TOKEN_PATTERN)) {
+    if (fn !== undefined) {
+      if (!TEMPLATE_FUNCTIONS.includes(fn)) return `Unknown function in ${token}`;
+      if (!['name', 'original'].includes(arg)) return `${fn}() only accepts name or original in ${token}`;
+    } else if (!TEMPLATE_VARIABLES.includes(variable)) {
+      return `Unknown variable ${token}`;
+    } else if (format !== undefined && variable === 'counter' && !/^\d+$/.test(format)) {
+      return `Counter width must be a number in ${token}`;
+    }
+  }
+
+  const leftover = template.replace(TOKEN_PATTERN, '');
+  if (/[{}]/.test(leftover)) {
+    return 'Unbalanced braces in rename template';
+  }
+  if (/[/\\]/.test(leftover)) {
+    return 'Rename template cannot contain path separators';
+  }
+
+  return null;
+}
+
+/**
+ * Render a new file name from a template.
+ * `name` is the base name without copy suffixes, `original` the untouched base name
+ * and `ext` the lowercase extension with its dot.
+ */
+export function renderFileName(template: string, context: RenameContext): string {
+  const parsed = path.parse(context.fileName);
+  const variables: Record<string, string> = {
+    name: stripCopySuffix(parsed.name),
+    original: parsed.name,
+    ext: parsed.ext.toLowerCase(),
+    category: context.category,
+    counter: context.counter.toString(),
+  };
+  const functions: Record<string, (value: string) => string> = {
+    slug: slugify,
+    lower: value => value.toLowerCase(),
+    upper: value => value.toUpperCase(),
+  };
+
+  const rendered = template.replace(TOKEN_PATTERN, (_, fn?: string, arg?: string, variable?: string, format?: string) => {
+    if (fn) return functions[fn](variables[arg!]);
+    if (variable === 'date') return formatDate(context.date, format ?? 'yyyy-MM-dd');
+    if (variable === 'counter' && format) return variables.counter.padStart(parseInt(format, 10), '0');
+    return variables[variable!];
+  });
+
+  const safe = rendered.replace(UNSAFE_CHARS, '-').trim();
+  // Never produce an empty or dot-only name
+  return safe && !/^\.+$/.test(safe) ? safe : context.fileName;
+}
+
+export default {
+  stripCopySuffix,
+  slugify,
+  formatDate,
+  validateRenameTemplate,
+  renderFileName,
+};
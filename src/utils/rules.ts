@@ -0,0 +1,232 @@
+import * as path from 'path';
+import { getUserConfig, UserConfig } from '../config/userConfig';
+import { FileCategory } from './categorize';
+import { matchesAnyGlob, parseDuration, parseSize } from './fileFilter';
+import { validateRenameTemplate } from './renameTemplate';
+
+/**
+ * Conditions a file must meet for a rule to apply; all given conditions must match
+ */
+export interface RuleConditions {
+  extensions?: string[];
+  globs?: string[];
+  minSize?: number;
+  maxSize?: number;
+  // Age limits in milliseconds, measured from the modification time
+  olderThan?: number;
+  newerThan?: number;
+  // MIME types of the detected content, e.g. "application/pdf" or "image/*"
+  mimeTypes?: string[];
+  namePattern?: RegExp;
+}
+
+/**
+ * An organize rule: files matching its conditions go to its destination folder
+ */
+export interface OrganizeRule {
+  name: string;
+  match: RuleConditions;
+  // Folder relative to the organized directory, e.g. "Invoices/{yyyy}/{mm}"
+  destination: string;
+  // Rename template for matched files, e.g. "{date:yyyy-MM-dd}_{slug(name)}{ext}"
+  rename?: string;
+}
+
+/**
+ * What rules are evaluated against
+ */
+export interface RuleSubject {
+  path: string;
+  // Path relative to the organized directory, used for globs
+  relativePath: string;
+  name: string;
+  size: number;
+  modifiedAt: Date;
+  // Date used by the {yyyy}/{mm}/{dd} tokens; defaults to modifiedAt
+  date?: Date;
+  category: FileCategory;
+  mimeType?: string;
+}
+
+const TEMPLATE_TOKENS = ['yyyy', 'yy', 'mm', 'dd', 'category', 'ext'];
+
+let configuredRules: { config: UserConfig; rules: OrganizeRule[] } | null = null;
+
+function toList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value : [value]).map(v => String(v));
+}
+
+function parseConditions(raw: Record<string, any>, label: string): RuleConditions {
+  const conditions: RuleConditions = {};
+
+  const extensions = toList(raw.extension ?? raw.extensions);
+  if (extensions) {
+    conditions.extensions = extensions.map(ext => {
+      const lower = ext.trim().toLowerCase();
+      return lower.startsWith('.') ? lower : `.${lower}`;
+    });
+  }
+
+  conditions.globs = toList(raw.glob ?? raw.globs);
+  conditions.mimeTypes = toList(raw.mimeType ?? raw.mimeTypes)?.map(m => m.toLowerCase());
+
+  for (const key of ['minSize', 'maxSize'] as const) {
+    if (raw[key] === undefined) continue;
+    const size = typeof raw[key] === 'number' ? raw[key] : parseSize(String(raw[key]));
+    if (size === null || size < 0) {
+      throw new Error(`${label}: ${key} must be a byte count or a size like "10MB"`);
+    }
+    conditions[key] = size;
+  }
+
+  for (const key of ['olderThan', 'newerThan'] as const) {
+    if (raw[key] === undefined) continue;
+    const duration = parseDuration(String(raw[key]));
+    if (duration === null) {
+      throw new Error(`${label}: ${key} must be a duration like "30d", "2w" or "1y"`);
+    }
+    conditions[key] = duration;
+  }
+
+  if (raw.name !== undefined) {
+    try {
+      conditions.namePattern = new RegExp(String(raw.name), 'i');
+    } catch (error: any) {
+      throw new Error(`${label}: invalid name pattern: ${error.message}`);
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Check a destination template: known tokens only, and it must stay inside
+ * the organized directory
+ */
+function validateDestination(destination: unknown, label: string): string {
+  if (typeof destination !== 'string' || !destination.trim()) {
+    throw new Error(`${label}: "destination" is required`);
+  }
+
+  for (const [, token] of destination.matchAll(/\{([^}]*)\}/g)) {
+    if (!TEMPLATE_TOKENS.includes(token)) {
+      throw new Error(`${label}: unknown template token {${token}}`);
+    }
+  }
+
+  const normalized = path.normalize(destination.trim());
+  if (path.isAbsolute(normalized) || normalized.split(path.sep).includes('..')) {
+    throw new Error(`${label}: destination must be a relative folder inside the organized directory`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Validate a list of rules from a config file or request body
+ */
+export function parseRules(raw: unknown, source: string): OrganizeRule[] {
+  if (!Array.isArray(raw)) {
+    throw new Error(`Invalid rules in ${source}: expected an array`);
+  }
+
+  return raw.map((entry, index) => {
+    const label = `Invalid rule ${index + 1} in ${source}`;
+    if (typeof entry !== 'object' || entry === null) {
+      throw new Error(`${label}: expected an object`);
+    }
+
+    if (entry.rename !== undefined) {
+      const renameError = typeof entry.rename === 'string'
+        ? validateRenameTemplate(entry.rename)
+        : 'rename must be a string';
+      if (renameError) {
+        throw new Error(`${label}: ${renameError}`);
+      }
+    }
+
+    return {
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `rule ${index + 1}`,
+      match: parseConditions(entry.match ?? {}, label),
+      destination: validateDestination(entry.destination, label),
+      rename: entry.rename,
+    };
+  });
+}
+
+/**
+ * Get the rules from the config file, parsed once per loaded config
+ */
+export function getConfiguredRules(): OrganizeRule[] {
+  const config = getUserConfig();
+  if (!configuredRules || configuredRules.config !== config) {
+    configuredRules = { config, rules: parseRules(config.rules, config.source ?? 'config') };
+  }
+  return configuredRules.rules;
+}
+
+function matchesMimeType(mimeType: string | undefined, patterns: string[]): boolean {
+  if (!mimeType) return false;
+  return patterns.some(pattern => pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern);
+}
+
+/**
+ * Check whether a file meets every condition of a rule
+ */
+export function matchesRule(subject: RuleSubject, rule: OrganizeRule, now: number = Date.now()): boolean {
+  const { match } = rule;
+  const age = now - subject.modifiedAt.getTime();
+
+  if (match.extensions && !match.extensions.includes(path.extname(subject.name).toLowerCase())) return false;
+  if (match.globs && !matchesAnyGlob(subject.relativePath, match.globs)) return false;
+  if (match.minSize !== undefined && subject.size < match.minSize) return false;
+  if (match.maxSize !== undefined && subject.size > match.maxSize) return false;
+  if (match.olderThan !== undefined && age < match.olderThan) return false;
+  if (match.newerThan !== undefined && age > match.newerThan) return false;
+  if (match.mimeTypes && !matchesMimeType(subject.mimeType, match.mimeTypes)) return false;
+  if (match.namePattern && !match.namePattern.test(subject.name)) return false;
+
+  return true;
+}
+
+/**
+ * Find the first rule that matches a file, in list order
+ */
+export function findMatchingRule(subject: RuleSubject, rules: OrganizeRule[], now: number = Date.now()): OrganizeRule | null {
+  return rules.find(rule => matchesRule(subject, rule, now)) ?? null;
+}
+
+/**
+ * Fill in a destination template for a file. Throws when the filled-in folder
+ * would not be inside the organized directory.
+ */
+export function renderDestination(template: string, subject: RuleSubject): string {
+  const date = subject.date ?? subject.modifiedAt;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const values: Record<string, string> = {
+    yyyy: date.getFullYear().toString(),
+    yy: pad(date.getFullYear() % 100),
+    mm: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    category: subject.category,
+    ext: path.extname(subject.name).slice(1).toLowerCase() || 'none',
+  };
+
+  const rendered = path.normalize(template.replace(/\{([^}]*)\}/g, (_, token: string) => values[token]));
+  if (path.isAbsolute(rendered) || rendered.split(path.sep).includes('..')) {
+    throw new Error(`Destination of ${subject.name} leaves the organized directory: ${rendered}`);
+  }
+
+  return rendered;
+}
+
+export default {
+  parseRules,
+  getConfiguredRules,
+  matchesRule,
+  findMatchingRule,
+  renderDestination,
+};
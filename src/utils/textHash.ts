@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import { logger } from './logger';
+
+// Text, markdown, data and source files compared for near-duplicate versions
+export const TEXT_SIMILARITY_EXTENSIONS = [
+  '.txt', '.text', '.md', '.markdown', '.rst', '.org', '.tex', '.rtf',
+  '.csv', '.tsv', '.json', '.yaml', '.yml', '.toml', '.ini', '.xml', '.html', '.htm',
+  '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.py', '.rb', '.go', '.rs', '.java', '.kt',
+  '.c', '.h', '.cpp', '.hpp', '.cs', '.php', '.swift', '.sh', '.sql', '.css', '.scss',
+];
+
+export const DEFAULT_TEXT_SIMILARITY = 0.8;
+
+// Larger files are skipped: reading and shingling them costs more than it finds
+const MAX_TEXT_BYTES = 2 * 1024 * 1024;
+
+// Words per shingle, and the number of hash functions in a signature
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 128;
+
+// Signatures are split into bands; documents sharing any band are compared.
+// 32 bands of 4 rows make pairs above about 45% similarity likely candidates.
+const BANDS = 32;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BANDS;
+
+// Fixed seeds so that signatures stay comparable across runs and scans
+const HASH_SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+
+/**
+ * One of the signature's hash functions: a seeded 32-bit finalizer (from MurmurHash3)
+ */
+function mix(value: number, seed: number): number {
+  let x = (value ^ seed) >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return (x ^ (x >>> 16)) >>> 0;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Calculate a MinHash signature of a text file's word shingles, encoded as
+ * base64. Case and whitespace are ignored, so reflowed text still matches.
+ * Returns null for binary, empty or oversized files.
+ */
+export async function calculateMinHash(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    if (stats.size === 0 || stats.size > MAX_TEXT_BYTES) {
+      return null;
+    }
+
+    const content = await fs.promises.readFile(filePath);
+    // A NUL byte near the start means the file is not text
+    if (content.subarray(0, 8192).includes(0)) {
+      return null;
+    }
+
+    const words = content.toString('utf-8').toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      return null;
+    }
+
+    const shingles = new Set<number>();
+    const count = Math.max(1, words.length - SHINGLE_SIZE + 1);
+    for (let i = 0; i < count; i++) {
+      shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+    }
+
+    const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+    for (const shingle of shingles) {
+      for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        const value = mix(shingle, HASH_SEEDS[i]);
+        if (value < signature[i]) {
+          signature[i] = value;
+        }
+      }
+    }
+
+    return Buffer.from(signature.buffer).toString('base64');
+  } catch (error) {
+    logger.debug(`Failed to calculate MinHash: ${filePath}`, error);
+    return null;
+  }
+}
+
+function decodeSignature(signature: string): Uint32Array {
+  const buffer = Buffer.from(signature, 'base64');
+  return new Uint32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+}
+
+/**
+ * Estimated Jaccard similarity (0 to 1) of the documents behind two signatures
+ */
+export function estimateSimilarity(signatureA: string, signatureB: string): number {
+  return matchingFraction(decodeSignature(signatureA), decodeSignature(signatureB));
+}
+
+function matchingFraction(a: Uint32Array, b: Uint32Array): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
+
+/**
+ * Cluster items whose signatures are at least `threshold` similar. Candidate
+ * pairs come from shared signature bands, so not every pair is compared.
+ * Items linked through a chain of similar pairs end up in the same cluster.
+ */
+export function clusterBySimilarity<T>(
+  items: T[],
+  getSignature: (item: T) => string,
+  threshold: number = DEFAULT_TEXT_SIMILARITY
+): T[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const signatures = items.map(item => decodeSignature(getSignature(item)));
+  const compared = new Set<string>();
+
+  for (let band = 0; band < BANDS; band++) {
+    const buckets: Map<string, number[]> = new Map();
+    signatures.forEach((signature, i) => {
+      const key = Array.from(signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        buckets.set(key, [i]);
+      }
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let x = 0; x < bucket.length; x++) {
+        for (let y = x + 1; y < bucket.length; y++) {
+          const [i, j] = [bucket[x], bucket[y]];
+          const pair = `${i}:${j}`;
+          if (find(i) === find(j) || compared.has(pair)) continue;
+          compared.add(pair);
+
+          if (matchingFraction(signatures[i], signatures[j]) >= threshold) {
+            parent[find(j)] = find(i);
+          }
+        }
+      }
+    }
+  }
+
+  const clusters: Map<number, T[]> = new Map();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(item);
+    } else {
+      clusters.set(root, [item]);
+    }
+  });
+
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
+
+export default {
+  calculateMinHash,
+  estimateSimilarity,
+  clusterBySimilarity,
+};